@@ -0,0 +1,99 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { createAuthorizationUrl, completeAuthorization } from './oauth';
+import { wrapRequestHandler } from '../utils/http-server';
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendPage(res: ServerResponse, status: number, title: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title></head><body><h1>${escapeHtml(title)}</h1>${body}</body></html>`);
+}
+
+async function handleCallback(url: URL, res: ServerResponse): Promise<void> {
+    const error = url.searchParams.get('error');
+    if (error) {
+        const description = url.searchParams.get('error_description') || error;
+        sendPage(res, 400, 'Authorization failed', `<p>Miro reported: ${escapeHtml(description)}</p>`);
+        return;
+    }
+
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+    if (!code || !state) {
+        sendPage(res, 400, 'Authorization failed', '<p>The callback is missing the code or state parameter.</p>');
+        return;
+    }
+
+    try {
+        const { connectionKey, grant } = await completeAuthorization(code, state);
+        sendPage(res, 200, 'Miro authorization complete', [
+            `<p>The server can now act as Miro user ${escapeHtml(grant.userId)} in team ${escapeHtml(grant.teamId)}.</p>`,
+            '<p>Connect your MCP client with this header to use these credentials:</p>',
+            `<pre>X-Miro-Token: ${escapeHtml(connectionKey)}</pre>`,
+            '<p>Keep the key secret.</p>'
+        ].join(''));
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Miro OAuth token exchange failed:', message);
+        sendPage(res, 400, 'Authorization failed', `<p>${escapeHtml(message)}</p>`);
+    }
+}
+
+/**
+ * Serves the OAuth routes: GET /oauth/authorize redirects to Miro's consent page and
+ * GET /oauth/callback receives the authorization code. Returns false for any other request.
+ */
+export async function handleOAuthRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'GET') return false;
+
+    if (url.pathname === '/oauth/authorize') {
+        res.writeHead(302, { Location: createAuthorizationUrl(), 'Cache-Control': 'no-store' });
+        res.end();
+        return true;
+    }
+
+    if (url.pathname === '/oauth/callback') {
+        await handleCallback(url, res);
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Wraps a request handler so the OAuth routes are answered first
+ */
+function routeOAuthRequests(fallback: http.RequestListener): http.RequestListener {
+    return (req, res) => {
+        handleOAuthRequest(req, res)
+            .then(handled => {
+                if (!handled) fallback(req, res);
+            })
+            .catch(error => {
+                console.error('Error handling OAuth request:', error);
+                if (!res.headersSent) res.writeHead(500).end();
+            });
+    };
+}
+
+/**
+ * Mounts the OAuth routes on the HTTP server FastMCP listens with on the given port
+ */
+export function mountOAuthRoutes(port: number): void {
+    wrapRequestHandler(port, routeOAuthRequests);
+}
+
+/**
+ * Serves only the OAuth routes, for the stdio transport which has no HTTP server of its own
+ */
+export function startOAuthServer(port: number): Promise<http.Server> {
+    const server = http.createServer(routeOAuthRequests((req, res) => res.writeHead(404).end()));
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => resolve(server));
+    });
+}
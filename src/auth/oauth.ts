@@ -0,0 +1,157 @@
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { miroApiBaseUrl, oauthClientId, oauthClientSecret, oauthRedirectUri, requestTimeoutMs } from '../config';
+import { OAuthGrant, getGrant, saveGrant, removeGrant } from './token-store';
+
+const AUTHORIZE_URL = 'https://miro.com/oauth/authorize';
+// Handed to users after they authorize; the prefix tells these keys apart from Miro access tokens
+const CONNECTION_KEY_PREFIX = 'miro_mcp_';
+// How long a user has to complete the authorization started at /oauth/authorize
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Refresh this long before expiry so no request goes out with a token that lapses in flight
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface MiroTokenResponse {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+    user_id: string;
+    team_id: string;
+    scope?: string;
+}
+
+// Outstanding authorization requests by state parameter, with their expiry time
+const pendingStates = new Map<string, number>();
+// Refreshes in progress per grant. Miro rotates refresh tokens, so concurrent refreshes must share one request.
+const pendingRefreshes = new Map<string, Promise<OAuthGrant>>();
+
+/**
+ * Whether a token sent by a client is a connection key issued by this server rather than a Miro token
+ */
+export function isConnectionKey(token: string): boolean {
+    return token.startsWith(CONNECTION_KEY_PREFIX);
+}
+
+/**
+ * Derives the id a grant is stored under from its connection key, so the key itself is never stored
+ */
+export function getGrantId(connectionKey: string): string {
+    return createHash('sha256').update(connectionKey).digest('hex');
+}
+
+/**
+ * Starts an authorization: returns the Miro consent page URL to send the user to
+ */
+export function createAuthorizationUrl(): string {
+    const now = Date.now();
+    for (const [state, expiresAt] of pendingStates) {
+        if (expiresAt <= now) pendingStates.delete(state);
+    }
+
+    const state = randomBytes(16).toString('hex');
+    pendingStates.set(state, now + STATE_TTL_MS);
+
+    const url = new URL(AUTHORIZE_URL);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', oauthClientId as string);
+    url.searchParams.set('redirect_uri', oauthRedirectUri);
+    url.searchParams.set('state', state);
+    return url.toString();
+}
+
+async function requestToken(params: Record<string, string>): Promise<MiroTokenResponse> {
+    const response = await axios.post<MiroTokenResponse>(`${miroApiBaseUrl}/v1/oauth/token`, null, {
+        params: {
+            client_id: oauthClientId,
+            client_secret: oauthClientSecret,
+            ...params
+        },
+        timeout: requestTimeoutMs
+    });
+    return response.data;
+}
+
+function toGrant(response: MiroTokenResponse, previous?: OAuthGrant): OAuthGrant {
+    return {
+        userId: String(response.user_id ?? previous?.userId),
+        teamId: String(response.team_id ?? previous?.teamId),
+        accessToken: response.access_token,
+        // Without rotation Miro omits the refresh token and the previous one stays valid
+        refreshToken: response.refresh_token || previous?.refreshToken,
+        expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+        scope: response.scope ?? previous?.scope,
+        authorizedAt: previous?.authorizedAt ?? Date.now()
+    };
+}
+
+/**
+ * Finishes an authorization from the callback: checks the state, exchanges the code for tokens
+ * and stores them. Returns the connection key clients use to act as the authorizing user.
+ */
+export async function completeAuthorization(code: string, state: string): Promise<{ connectionKey: string; grant: OAuthGrant }> {
+    const expiresAt = pendingStates.get(state);
+    pendingStates.delete(state);
+    if (!expiresAt || expiresAt <= Date.now()) {
+        throw new Error('Unknown or expired authorization request. Start again at /oauth/authorize.');
+    }
+
+    const response = await requestToken({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: oauthRedirectUri
+    });
+
+    const connectionKey = CONNECTION_KEY_PREFIX + randomBytes(24).toString('base64url');
+    const grant = toGrant(response);
+    saveGrant(getGrantId(connectionKey), grant);
+    console.log(`Stored Miro OAuth tokens for user ${grant.userId} in team ${grant.teamId}`);
+
+    return { connectionKey, grant };
+}
+
+async function refreshGrant(grantId: string, grant: OAuthGrant): Promise<OAuthGrant> {
+    if (!grant.refreshToken) {
+        removeGrant(grantId);
+        throw new Error(`The Miro authorization for user ${grant.userId} has expired. Authorize again at /oauth/authorize.`);
+    }
+
+    try {
+        const response = await requestToken({
+            grant_type: 'refresh_token',
+            refresh_token: grant.refreshToken
+        });
+        const refreshed = toGrant(response, grant);
+        saveGrant(grantId, refreshed);
+        console.log(`Refreshed Miro OAuth tokens for user ${refreshed.userId}`);
+        return refreshed;
+    } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        // Miro answers 400 or 401 once a refresh token has been revoked or has expired
+        if (status === 400 || status === 401) {
+            removeGrant(grantId);
+            throw new Error(`The Miro authorization for user ${grant.userId} was revoked or has expired. Authorize again at /oauth/authorize.`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Returns a valid access token for a stored grant, refreshing it first when it is about to expire
+ */
+export async function getOAuthAccessToken(grantId: string): Promise<string> {
+    const grant = getGrant(grantId);
+    if (!grant) {
+        throw new Error('Unknown Miro connection key. Authorize at /oauth/authorize to get a new one.');
+    }
+
+    if (!grant.expiresAt || grant.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+        return grant.accessToken;
+    }
+
+    let refresh = pendingRefreshes.get(grantId);
+    if (!refresh) {
+        refresh = refreshGrant(grantId, grant).finally(() => pendingRefreshes.delete(grantId));
+        pendingRefreshes.set(grantId, refresh);
+    }
+    return (await refresh).accessToken;
+}
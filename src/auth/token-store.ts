@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { tokenStorePath, tokenStoreKey } from '../config';
+
+/**
+ * Tokens issued to one Miro user through the OAuth flow
+ */
+export interface OAuthGrant {
+    userId: string;
+    teamId: string;
+    accessToken: string;
+    refreshToken?: string;
+    // Epoch milliseconds; absent for tokens that do not expire
+    expiresAt?: number;
+    scope?: string;
+    authorizedAt: number;
+}
+
+interface TokenStoreContents {
+    grants: Record<string, OAuthGrant>;
+}
+
+// On-disk layout: the JSON contents encrypted with AES-256-GCM under a key derived from MIRO_TOKEN_STORE_KEY
+interface EncryptedFile {
+    version: 1;
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+let contents: TokenStoreContents | null = null;
+
+function deriveKey(salt: Buffer): Buffer {
+    if (!tokenStoreKey) {
+        throw new Error('MIRO_TOKEN_STORE_KEY is not set, so OAuth tokens cannot be stored.');
+    }
+    return scryptSync(tokenStoreKey, salt, 32);
+}
+
+function load(): TokenStoreContents {
+    if (contents) return contents;
+
+    if (!fs.existsSync(tokenStorePath)) {
+        contents = { grants: {} };
+        return contents;
+    }
+
+    const file = JSON.parse(fs.readFileSync(tokenStorePath, 'utf8')) as EncryptedFile;
+    try {
+        const decipher = createDecipheriv(ALGORITHM, deriveKey(Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+        contents = JSON.parse(plaintext.toString('utf8')) as TokenStoreContents;
+    } catch {
+        throw new Error(`Cannot decrypt the token store at ${tokenStorePath}; check MIRO_TOKEN_STORE_KEY.`);
+    }
+    return contents;
+}
+
+function save(): void {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, deriveKey(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(load()), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+        version: 1,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated store behind
+    fs.mkdirSync(path.dirname(tokenStorePath), { recursive: true });
+    const tempPath = `${tokenStorePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file), { mode: 0o600 });
+    fs.renameSync(tempPath, tokenStorePath);
+}
+
+/**
+ * Returns a stored grant by id
+ */
+export function getGrant(grantId: string): OAuthGrant | undefined {
+    return load().grants[grantId];
+}
+
+/**
+ * Stores or replaces a grant
+ */
+export function saveGrant(grantId: string, grant: OAuthGrant): void {
+    load().grants[grantId] = grant;
+    save();
+}
+
+/**
+ * Removes a grant, e.g. once its refresh token has been revoked
+ */
+export function removeGrant(grantId: string): void {
+    delete load().grants[grantId];
+    save();
+}
+
+/**
+ * Forgets the in-memory copy so the next access reads the file again
+ */
+export function reloadTokenStore(): void {
+    contents = null;
+}
@@ -0,0 +1,41 @@
+import { allowedBoardIds, miroBoardId } from '../config';
+import { getCredentialScope } from './credentials';
+
+// Boards created or copied during this session, per credential scope; permitted in addition to the allowlist.
+// Kept per user so a board one user creates does not become reachable with another user's token.
+const sessionBoardIds = new Map<string, Set<string>>();
+
+/**
+ * Permits a board created during this session to be targeted by board_id, for the current user only.
+ */
+export function permitBoardId(boardId: string): void {
+    const scope = getCredentialScope();
+    const boardIds = sessionBoardIds.get(scope) || new Set<string>();
+    boardIds.add(boardId);
+    sessionBoardIds.set(scope, boardIds);
+}
+
+/**
+ * Removes a deleted session board from the permitted boards.
+ */
+export function forgetBoardId(boardId: string): void {
+    for (const boardIds of Array.from(sessionBoardIds.values())) {
+        boardIds.delete(boardId);
+    }
+}
+
+/**
+ * Resolves the board a tool call should operate on.
+ * Falls back to the configured default board and rejects boards outside the allowlist.
+ */
+export function resolveBoardId(boardId?: string): string {
+    if (!boardId || boardId === miroBoardId) {
+        return miroBoardId as string;
+    }
+
+    if (allowedBoardIds.includes('*') || allowedBoardIds.includes(boardId) || sessionBoardIds.get(getCredentialScope())?.has(boardId)) {
+        return boardId;
+    }
+
+    throw new Error(`Board ${boardId} is not in the list of permitted boards. Add it to MIRO_ALLOWED_BOARD_IDS or omit board_id to use the default board.`);
+}
@@ -0,0 +1,201 @@
+import { onBoardMutation } from './miro-client';
+import { getCredentialScope } from './credentials';
+import { collectAll, paginateBoardItems, paginateConnectors } from './paginate';
+import { boardCacheTtlMs } from '../config';
+import { MiroItem, MiroConnector } from '../types/miro-types';
+
+/**
+ * Options accepted by the cached board readers
+ */
+export interface BoardCacheOptions {
+    // Set to false to bypass the cache and read straight from the API
+    useCache?: boolean;
+}
+
+interface CachedCollection<T> {
+    entries: Map<string, T>;
+    fetchedAt: number;
+}
+
+interface BoardCacheEntry {
+    items?: CachedCollection<MiroItem>;
+    connectors?: CachedCollection<MiroConnector>;
+}
+
+// Cached contents per board ID, then per token, as users with different permissions may see different contents
+const boardCache = new Map<string, Map<string, BoardCacheEntry>>();
+// In-flight loads keyed by board, token and collection, so concurrent calls share a single download
+const pendingLoads = new Map<string, Promise<unknown>>();
+// Bumped on every mutation so loads that raced with a change are not stored
+const boardVersions = new Map<string, number>();
+
+// Collections whose entries are not board items and are not mirrored in the cache
+const UNCACHED_COLLECTIONS = ['groups', 'tags', 'members'];
+
+function getEntry(boardId: string): BoardCacheEntry | undefined {
+    return boardCache.get(boardId)?.get(getCredentialScope());
+}
+
+function setEntry(boardId: string, entry: BoardCacheEntry): void {
+    const entries = boardCache.get(boardId) || new Map<string, BoardCacheEntry>();
+    entries.set(getCredentialScope(), entry);
+    boardCache.set(boardId, entries);
+}
+
+function getModifiedTime(entry: MiroItem): number {
+    return typeof entry.modifiedAt === 'string' ? Date.parse(entry.modifiedAt) || 0 : 0;
+}
+
+/**
+ * Merges a fresh listing into the cached entries. An entry is only replaced when the listing
+ * is at least as recent (by modifiedAt) as the cached one, so changes we applied ourselves are
+ * not overwritten by a listing that has not caught up yet.
+ */
+function mergeEntries<T extends MiroItem>(cached: Map<string, T> | undefined, fetched: T[]): Map<string, T> {
+    const merged = new Map<string, T>();
+    for (const entry of fetched) {
+        const previous = cached?.get(entry.id);
+        merged.set(entry.id, previous && getModifiedTime(previous) > getModifiedTime(entry) ? previous : entry);
+    }
+    return merged;
+}
+
+async function loadCollection<T extends MiroItem>(
+    boardId: string,
+    key: 'items' | 'connectors',
+    fetchAll: () => Promise<T[]>,
+    options: BoardCacheOptions
+): Promise<T[]> {
+    if (options.useCache === false || boardCacheTtlMs <= 0) {
+        return fetchAll();
+    }
+
+    const entry = getEntry(boardId) || {};
+    const cached = entry[key] as CachedCollection<T> | undefined;
+    if (cached && Date.now() - cached.fetchedAt < boardCacheTtlMs) {
+        return Array.from(cached.entries.values());
+    }
+
+    const version = boardVersions.get(boardId) || 0;
+    const loadKey = `${boardId}:${getCredentialScope()}:${key}`;
+    let load = pendingLoads.get(loadKey) as Promise<T[]> | undefined;
+    if (!load) {
+        const started: Promise<T[]> = fetchAll().finally(() => {
+            if (pendingLoads.get(loadKey) === started) pendingLoads.delete(loadKey);
+        });
+        load = started;
+        pendingLoads.set(loadKey, load);
+    }
+    const fetched = await load;
+
+    // A change made while the listing was downloading may be missing from it
+    if ((boardVersions.get(boardId) || 0) !== version) {
+        return fetched;
+    }
+
+    const currentEntry = getEntry(boardId) || entry;
+    const collection: CachedCollection<T> = {
+        entries: mergeEntries((currentEntry[key] as CachedCollection<T> | undefined)?.entries, fetched),
+        fetchedAt: Date.now()
+    };
+    (currentEntry as Record<string, CachedCollection<T>>)[key] = collection;
+    setEntry(boardId, currentEntry);
+
+    console.log(`Board cache ${cached ? 'refreshed' : 'loaded'} ${collection.entries.size} ${key} for board ${boardId}`);
+    return Array.from(collection.entries.values());
+}
+
+/**
+ * Returns all items on a board, served from the cache while it is fresh
+ */
+export function getBoardItems(boardId: string, options: BoardCacheOptions = {}): Promise<MiroItem[]> {
+    return loadCollection(boardId, 'items', () => collectAll(paginateBoardItems(boardId)), options);
+}
+
+/**
+ * Returns all connectors on a board, served from the cache while it is fresh
+ */
+export function getBoardConnectors(boardId: string, options: BoardCacheOptions = {}): Promise<MiroConnector[]> {
+    return loadCollection(boardId, 'connectors', () => collectAll(paginateConnectors(boardId)), options);
+}
+
+/**
+ * Drops the cached contents of one board for all users, or of every board when no ID is given
+ */
+export function invalidateBoardCache(boardId?: string): void {
+    if (boardId) {
+        boardCache.delete(boardId);
+    } else {
+        boardCache.clear();
+    }
+}
+
+function isCacheableEntry(value: unknown): value is MiroItem {
+    return !!value && typeof value === 'object' && typeof (value as MiroItem).id === 'string' && typeof (value as MiroItem).type === 'string';
+}
+
+// Keep cached boards in step with the changes this server makes
+onBoardMutation((boardId, method, path, data, query) => {
+    boardVersions.set(boardId, (boardVersions.get(boardId) || 0) + 1);
+    // Later readers must not join a download that started before this change
+    for (const loadKey of Array.from(pendingLoads.keys())) {
+        if (loadKey.startsWith(`${boardId}:`)) pendingLoads.delete(loadKey);
+    }
+
+    // Other users' copies of this board are refreshed on their next read
+    const scope = getCredentialScope();
+    const scopedEntries = boardCache.get(boardId);
+    for (const otherScope of Array.from(scopedEntries?.keys() || [])) {
+        if (otherScope !== scope) scopedEntries?.delete(otherScope);
+    }
+
+    const entry = getEntry(boardId);
+    if (!entry) return;
+
+    // /v2/boards/{board_id}/{collection}/{id}
+    const segments = path.split('/').slice(4);
+    const collection = segments[0];
+    const targetId = segments[1];
+
+    if (!collection) {
+        // The board itself was updated or deleted
+        if (method === 'delete') invalidateBoardCache(boardId);
+        return;
+    }
+
+    if (UNCACHED_COLLECTIONS.includes(collection) || segments.length > 2 || query.tag_id) {
+        // Groups, tags and nested operations can change several items at once.
+        // A tag_id marks a tag being attached to or detached from the item, not the item being created or deleted.
+        invalidateBoardCache(boardId);
+        return;
+    }
+
+    const target = collection === 'connectors' ? entry.connectors : entry.items;
+
+    if (method === 'delete') {
+        if (entry.items?.entries.get(targetId)?.type === 'frame') {
+            // Deleting a frame can affect the items it contains
+            invalidateBoardCache(boardId);
+        } else if (targetId) {
+            target?.entries.delete(targetId);
+            // Connectors attached to a deleted item are removed with it
+            if (collection !== 'connectors') entry.connectors = undefined;
+        }
+        return;
+    }
+
+    const updated = isCacheableEntry(data)
+        ? [data]
+        : Array.isArray((data as { data?: unknown })?.data) ? (data as { data: unknown[] }).data : null;
+
+    if (!updated || !updated.every(isCacheableEntry)) {
+        invalidateBoardCache(boardId);
+        return;
+    }
+
+    if (target) {
+        for (const item of updated as MiroItem[]) {
+            target.entries.set(item.id, item as MiroConnector);
+        }
+    }
+});
@@ -0,0 +1,108 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { IncomingMessage } from 'http';
+import { miroApiToken, defaultConnectionKey } from '../config';
+import { isConnectionKey, getGrantId, getOAuthAccessToken } from '../auth/oauth';
+import { getGrant } from '../auth/token-store';
+
+/**
+ * Miro credentials in effect for the current tool call: a Miro access token,
+ * or a stored OAuth grant whose access token is refreshed as needed
+ */
+interface MiroCredentials {
+    token?: string;
+    grantId?: string;
+    // Short hash identifying the user, used to keep per-user state apart without holding the token as a key.
+    // For OAuth grants it stays the same when the access token is refreshed.
+    scope: string;
+}
+
+const credentialStorage = new AsyncLocalStorage<MiroCredentials>();
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+function credentialsForToken(token: string): MiroCredentials {
+    if (isConnectionKey(token)) {
+        const grantId = getGrantId(token);
+        return { grantId, scope: grantId.slice(0, 16) };
+    }
+    return { token, scope: hashToken(token) };
+}
+
+const defaultToken = miroApiToken || defaultConnectionKey;
+const staticCredentials: MiroCredentials | undefined = defaultToken ? credentialsForToken(defaultToken) : undefined;
+
+/**
+ * Credentials used when the session brings none: MIRO_API_TOKEN, or the OAuth grant named by MIRO_DEFAULT_CONNECTION_KEY
+ * once it has been authorized. OAuth grants are never a default on their own.
+ */
+function getDefaultCredentials(): MiroCredentials | undefined {
+    if (staticCredentials?.grantId && !getGrant(staticCredentials.grantId)) return undefined;
+    return staticCredentials;
+}
+
+/**
+ * Runs a function with the given Miro token applied to every API request it makes.
+ * The token may also be a connection key issued by the OAuth flow.
+ * Without a token the server-wide default credentials are used.
+ */
+export function runWithMiroToken<T>(token: string | undefined, fn: () => Promise<T>): Promise<T> {
+    if (!token) return fn();
+    return credentialStorage.run(credentialsForToken(token), fn);
+}
+
+/**
+ * Returns the access token for the current call, refreshing OAuth tokens that are about to expire
+ */
+export async function resolveMiroToken(): Promise<string | undefined> {
+    const credentials = credentialStorage.getStore() || getDefaultCredentials();
+    if (credentials?.grantId) return getOAuthAccessToken(credentials.grantId);
+    return credentials?.token;
+}
+
+/**
+ * Whether a client connecting without a token of its own can still be served
+ */
+export function hasDefaultCredentials(): boolean {
+    return getDefaultCredentials() !== undefined;
+}
+
+/**
+ * Whether a token sent by a client can be used: any Miro token, or a connection key with a stored grant
+ */
+export function isUsableToken(token: string): boolean {
+    return !isConnectionKey(token) || getGrant(getGrantId(token)) !== undefined;
+}
+
+/**
+ * Identifies whose token the current call uses, so caches and rate-limit tracking are kept per user
+ */
+export function getCredentialScope(): string {
+    return (credentialStorage.getStore() || getDefaultCredentials())?.scope || 'anonymous';
+}
+
+/**
+ * The scope calls made with a client's token, or without one, run under; see getCredentialScope
+ */
+export function getTokenScope(token: string | undefined): string {
+    return (token ? credentialsForToken(token) : getDefaultCredentials())?.scope || 'anonymous';
+}
+
+/**
+ * Reads a client's Miro token from an incoming MCP connection request.
+ * Accepts an X-Miro-Token header, an Authorization: Bearer header or a miro_token query parameter.
+ */
+export function extractSessionToken(request: IncomingMessage): string | undefined {
+    const header = request.headers['x-miro-token'];
+    const headerToken = Array.isArray(header) ? header[0] : header;
+    if (headerToken?.trim()) return headerToken.trim();
+
+    const authorization = request.headers.authorization;
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+    if (bearer) return bearer[1].trim();
+
+    const queryToken = new URL(request.url || '/', 'http://localhost').searchParams.get('miro_token');
+    return queryToken?.trim() || undefined;
+}
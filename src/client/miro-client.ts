@@ -1,14 +1,138 @@
-import axios from 'axios';
-import { miroApiToken } from '../config';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { miroApiBaseUrl, requestTimeoutMs, maxRetries } from '../config';
+import { updateRateLimitStatus, getThrottleDelay, getRetryAfterDelay } from './rate-limit';
+import { resolveMiroToken } from './credentials';
 
-// Create and configure Axios instance for Miro API requests
+export { getRateLimitStatus } from './rate-limit';
+export type { RateLimitStatus } from './rate-limit';
+export { runWithMiroToken } from './credentials';
+
+// Methods that can be repeated safely after a network error or server failure
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUS_CODES = [408, 500, 502, 503, 504];
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+    __retryCount?: number;
+}
+
+/**
+ * Called after every successful create, update or delete request made against a board.
+ * The path excludes the query string; its parameters, including those passed as request params, are in query.
+ */
+export type BoardMutationListener = (boardId: string, method: string, path: string, data: unknown, query: Record<string, string>) => void;
+
+const mutationListeners: BoardMutationListener[] = [];
+
+/**
+ * Registers a listener notified of successful mutations made through this client
+ */
+export function onBoardMutation(listener: BoardMutationListener): void {
+    mutationListeners.push(listener);
+}
+
+// Create and configure Axios instance for Miro API requests.
+// The Authorization header is added per request because each MCP session may bring its own token.
 const miroClient = axios.create({
-    baseURL: 'https://api.miro.com',
+    baseURL: miroApiBaseUrl,
+    timeout: requestTimeoutMs,
     headers: {
-        'Authorization': `Bearer ${miroApiToken}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json',
     }
 });
 
-export default miroClient; 
\ No newline at end of file
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry attempt (0-based)
+ */
+function getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Decides whether a failed request should be retried.
+ * 429 responses are always retried because Miro rejects them before processing;
+ * network errors, timeouts and 5xx responses are only retried for idempotent methods.
+ */
+function isRetryable(error: AxiosError): boolean {
+    const status = error.response?.status;
+    if (status === 429) return true;
+
+    const method = (error.config?.method || 'get').toLowerCase();
+    if (!IDEMPOTENT_METHODS.includes(method)) return false;
+
+    // No response means a network failure or timeout
+    if (!error.response) return error.code !== AxiosError.ERR_CANCELED;
+
+    return status !== undefined && RETRYABLE_STATUS_CODES.includes(status);
+}
+
+// Attach the caller's token, and slow down before sending when the credit budget is nearly spent
+miroClient.interceptors.request.use(async (config) => {
+    const token = await resolveMiroToken();
+    if (!token) {
+        throw new Error('No Miro access token available. Connect with a Miro token or OAuth connection key in an X-Miro-Token or Authorization: Bearer header, or set MIRO_API_TOKEN.');
+    }
+    config.headers.Authorization = `Bearer ${token}`;
+
+    const delay = getThrottleDelay();
+    if (delay > 0) {
+        console.log(`Miro rate-limit credits are low, delaying request by ${delay}ms`);
+        await sleep(delay);
+    }
+    return config;
+});
+
+miroClient.interceptors.response.use(
+    (response) => {
+        updateRateLimitStatus(response.headers);
+
+        const method = (response.config.method || 'get').toLowerCase();
+        const [path, search] = (response.config.url || '').split('?');
+        const boardMatch = path.match(/^\/v2\/boards\/([^/]+)/);
+        if (boardMatch && !['get', 'head', 'options'].includes(method)) {
+            const query: Record<string, string> = Object.fromEntries(new URLSearchParams(search || ''));
+            for (const [key, value] of Object.entries(response.config.params || {})) {
+                if (value !== undefined && value !== null) query[key] = String(value);
+            }
+            for (const listener of mutationListeners) {
+                try {
+                    listener(decodeURIComponent(boardMatch[1]), method, path, response.data, query);
+                } catch (error) {
+                    console.error(`Board mutation listener failed: ${error}`);
+                }
+            }
+        }
+
+        return response;
+    },
+    async (error: AxiosError) => {
+        updateRateLimitStatus(error.response?.headers);
+
+        const config = error.config as RetryableRequestConfig | undefined;
+        if (!config || !isRetryable(error)) {
+            throw error;
+        }
+
+        const attempt = config.__retryCount || 0;
+        if (attempt >= maxRetries) {
+            throw error;
+        }
+        config.__retryCount = attempt + 1;
+
+        const retryAfter = error.response?.status === 429 ? getRetryAfterDelay(error.response.headers) : undefined;
+        const delay = Math.min(retryAfter ?? getBackoffDelay(attempt), MAX_BACKOFF_MS * 2);
+        console.log(`Retrying ${config.method?.toUpperCase()} ${config.url} in ${delay}ms (attempt ${attempt + 1} of ${maxRetries}): ${error.response ? `status ${error.response.status}` : error.message}`);
+        await sleep(delay);
+
+        return miroClient.request(config);
+    }
+);
+
+export default miroClient;
@@ -0,0 +1,140 @@
+import miroClient from './miro-client';
+import { MiroItem, MiroConnector, MiroTag } from '../types/miro-types';
+
+// Largest page size accepted by the Miro collection endpoints
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Options for iterating over a paginated Miro collection
+ */
+export interface PaginateOptions<T> {
+    // Extra query parameters sent with every page request
+    params?: Record<string, string | number | undefined>;
+    // Only yield entries of these types. A single type is also passed to the API as a filter.
+    type?: string | string[];
+    // Additional client-side filter applied before counting towards maxItems
+    filter?: (entry: T) => boolean;
+    // Stop after yielding this many entries (0 or undefined means no cap)
+    maxItems?: number;
+    // Entries requested per page (1-50)
+    pageSize?: number;
+}
+
+interface MiroPage<T> {
+    data?: T[];
+    cursor?: string;
+    offset?: number;
+    size?: number;
+    total?: number;
+}
+
+/**
+ * Iterates over every entry of a paginated Miro collection, fetching pages lazily.
+ * Handles both cursor-based (items, connectors) and offset-based (members, tags) endpoints.
+ * Breaking out of a for-await loop stops further page requests.
+ */
+export async function* paginate<T>(url: string, options: PaginateOptions<T> = {}): AsyncGenerator<T> {
+    const { filter, maxItems } = options;
+    const types = options.type === undefined ? undefined : ([] as string[]).concat(options.type);
+    const pageSize = Math.min(Math.max(options.pageSize || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const params: Record<string, string | number> = { limit: pageSize };
+    for (const [key, value] of Object.entries(options.params || {})) {
+        if (value !== undefined) params[key] = value;
+    }
+    // The API accepts only one type per request; multiple types are filtered client-side
+    if (types && types.length === 1) params.type = types[0];
+
+    let yielded = 0;
+    let cursor: string | undefined;
+    let offset = 0;
+
+    while (true) {
+        const pageParams = { ...params };
+        if (cursor) pageParams.cursor = cursor;
+        if (offset > 0) pageParams.offset = offset;
+
+        const response = await miroClient.get<MiroPage<T>>(url, { params: pageParams });
+        const page = response.data;
+        const entries = page.data || [];
+
+        for (const entry of entries) {
+            if (types && types.length > 1 && !types.includes(String((entry as { type?: string }).type))) continue;
+            if (filter && !filter(entry)) continue;
+
+            yield entry;
+            yielded++;
+            if (maxItems && yielded >= maxItems) return;
+        }
+
+        if (entries.length === 0) return;
+
+        if (page.cursor) {
+            cursor = page.cursor;
+        } else if (typeof page.total === 'number' && typeof page.offset === 'number') {
+            offset = page.offset + (page.size ?? entries.length);
+            if (offset >= page.total) return;
+        } else {
+            return;
+        }
+    }
+}
+
+/**
+ * Collects every entry of a paginated Miro collection into an array
+ */
+export async function collectAll<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const results: T[] = [];
+    for await (const entry of iterator) {
+        results.push(entry);
+    }
+    return results;
+}
+
+/**
+ * Iterates over all items on a board
+ */
+export function paginateBoardItems(boardId: string, options: PaginateOptions<MiroItem> = {}): AsyncGenerator<MiroItem> {
+    return paginate<MiroItem>(`/v2/boards/${boardId}/items`, options);
+}
+
+/**
+ * Iterates over all connectors on a board
+ */
+export function paginateConnectors(boardId: string, options: PaginateOptions<MiroConnector> = {}): AsyncGenerator<MiroConnector> {
+    return paginate<MiroConnector>(`/v2/boards/${boardId}/connectors`, options);
+}
+
+/**
+ * Iterates over the items contained in a frame
+ */
+export function paginateFrameChildren(boardId: string, frameId: string, options: PaginateOptions<MiroItem> = {}): AsyncGenerator<MiroItem> {
+    return paginate<MiroItem>(`/v2/boards/${boardId}/items`, {
+        ...options,
+        params: { ...options.params, parent_item_id: frameId }
+    });
+}
+
+/**
+ * Iterates over the members of a board
+ */
+export function paginateBoardMembers(boardId: string, options: PaginateOptions<Record<string, unknown>> = {}): AsyncGenerator<Record<string, unknown>> {
+    return paginate<Record<string, unknown>>(`/v2/boards/${boardId}/members`, options);
+}
+
+/**
+ * Iterates over the tags defined on a board
+ */
+export function paginateTags(boardId: string, options: PaginateOptions<MiroTag> = {}): AsyncGenerator<MiroTag> {
+    return paginate<MiroTag>(`/v2/boards/${boardId}/tags`, options);
+}
+
+/**
+ * Iterates over the items carrying a tag
+ */
+export function paginateTaggedItems(boardId: string, tagId: string, options: PaginateOptions<MiroItem> = {}): AsyncGenerator<MiroItem> {
+    return paginate<MiroItem>(`/v2/boards/${boardId}/items`, {
+        ...options,
+        params: { ...options.params, tag_id: tagId }
+    });
+}
@@ -0,0 +1,107 @@
+import { AxiosResponseHeaders, RawAxiosResponseHeaders } from 'axios';
+import { getCredentialScope } from './credentials';
+
+/**
+ * Snapshot of Miro's credit-based rate limit as reported by the last API response
+ */
+export interface RateLimitStatus {
+    limit: number;
+    remaining: number;
+    resetAt: number; // Epoch milliseconds when the credit window resets
+    updatedAt: number;
+}
+
+// Fraction of the credit budget below which requests are spread out over the rest of the window
+const LOW_CREDIT_THRESHOLD = 0.1;
+// Never stall a single request for longer than this while throttling
+const MAX_THROTTLE_DELAY_MS = 60000;
+
+// Miro budgets credits per user, so the status is tracked separately for each token
+const statusByScope = new Map<string, RateLimitStatus>();
+
+function readHeader(headers: AxiosResponseHeaders | RawAxiosResponseHeaders | undefined, name: string): string | undefined {
+    if (!headers) return undefined;
+    const value = (headers as Record<string, unknown>)[name.toLowerCase()];
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Records the rate-limit headers (X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset)
+ * from a Miro API response. Responses without these headers leave the current status untouched.
+ */
+export function updateRateLimitStatus(headers: AxiosResponseHeaders | RawAxiosResponseHeaders | undefined): void {
+    const limit = Number(readHeader(headers, 'x-ratelimit-limit'));
+    const remaining = Number(readHeader(headers, 'x-ratelimit-remaining'));
+    const reset = Number(readHeader(headers, 'x-ratelimit-reset'));
+
+    if (!Number.isFinite(limit) || !Number.isFinite(remaining)) {
+        return;
+    }
+
+    statusByScope.set(getCredentialScope(), {
+        limit,
+        remaining,
+        // Miro reports the reset as epoch seconds
+        resetAt: Number.isFinite(reset) ? reset * 1000 : Date.now() + 60000,
+        updatedAt: Date.now()
+    });
+}
+
+/**
+ * Returns the last known rate-limit status for the current token, or null if no response has reported one yet
+ */
+export function getRateLimitStatus(): RateLimitStatus | null {
+    const currentStatus = statusByScope.get(getCredentialScope());
+    if (currentStatus && currentStatus.resetAt <= Date.now()) {
+        // The window has reset since the last response; the budget is full again
+        return { ...currentStatus, remaining: currentStatus.limit };
+    }
+    return currentStatus ? { ...currentStatus } : null;
+}
+
+/**
+ * Calculates how long to wait before the next request so the remaining credits
+ * last until the window resets. Returns 0 while the budget is comfortable.
+ */
+export function getThrottleDelay(): number {
+    const status = getRateLimitStatus();
+    if (!status || status.limit <= 0) return 0;
+
+    const msUntilReset = status.resetAt - Date.now();
+    if (msUntilReset <= 0) return 0;
+
+    if (status.remaining <= 0) {
+        return Math.min(msUntilReset, MAX_THROTTLE_DELAY_MS);
+    }
+
+    if (status.remaining / status.limit < LOW_CREDIT_THRESHOLD) {
+        return Math.min(Math.ceil(msUntilReset / status.remaining), MAX_THROTTLE_DELAY_MS);
+    }
+
+    return 0;
+}
+
+/**
+ * Determines how long to wait before retrying a rate-limited request.
+ * Prefers Retry-After (seconds or HTTP date), then X-RateLimit-Reset. Returns undefined if neither is present.
+ */
+export function getRetryAfterDelay(headers: AxiosResponseHeaders | RawAxiosResponseHeaders | undefined): number | undefined {
+    const retryAfter = readHeader(headers, 'retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+
+    const reset = Number(readHeader(headers, 'x-ratelimit-reset'));
+    if (Number.isFinite(reset)) {
+        return Math.max(0, reset * 1000 - Date.now());
+    }
+
+    return undefined;
+}
@@ -1,19 +1,110 @@
 import dotenv from 'dotenv';
+import path from 'path';
 
 dotenv.config();
 
-// Configuration for Miro API
+// Supported MCP transports
+export type TransportType = 'stdio' | 'sse' | 'httpStream';
+
+/**
+ * Resolves the transport from the --transport CLI flag (e.g. "--transport stdio" or
+ * "--transport=http-stream") or the MCP_TRANSPORT environment variable. Defaults to SSE.
+ */
+function resolveTransportType(): TransportType {
+    let rawValue: string | undefined;
+
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--transport=')) {
+            rawValue = args[i].substring('--transport='.length);
+        } else if (args[i] === '--transport' && i + 1 < args.length) {
+            rawValue = args[i + 1];
+        }
+    }
+
+    rawValue = rawValue || process.env.MCP_TRANSPORT;
+    if (!rawValue) return 'sse';
+
+    switch (rawValue.toLowerCase().replace(/[-_]/g, '')) {
+        case 'stdio':
+            return 'stdio';
+        case 'sse':
+            return 'sse';
+        case 'http':
+        case 'httpstream':
+        case 'streamablehttp':
+            return 'httpStream';
+        default:
+            console.error(`Unknown transport "${rawValue}". Supported transports: stdio, sse, http-stream.`);
+            process.exit(1);
+    }
+}
+
+// Configuration for Miro API. MIRO_API_TOKEN is the fallback for clients that do not send their own token.
 export const miroApiToken = process.env.MIRO_API_TOKEN;
 export const miroBoardId = process.env.MIRO_BOARD_ID;
+export const miroApiBaseUrl = process.env.MIRO_API_BASE_URL || 'https://api.miro.com';
 export const port = process.env.PORT ? parseInt(process.env.PORT) : 8899;
+export const transportType: TransportType = resolveTransportType();
+
+// HTTP client resilience settings
+export const requestTimeoutMs = process.env.MIRO_REQUEST_TIMEOUT_MS ? parseInt(process.env.MIRO_REQUEST_TIMEOUT_MS) : 30000;
+export const maxRetries = process.env.MIRO_MAX_RETRIES ? parseInt(process.env.MIRO_MAX_RETRIES) : 3;
+
+// How long cached board contents are served before being refreshed (0 disables the cache)
+export const boardCacheTtlMs = process.env.MIRO_CACHE_TTL_MS ? parseInt(process.env.MIRO_CACHE_TTL_MS) : 60000;
+
+// OAuth 2.0 app credentials. When set, users can authorize the server at /oauth/authorize instead of
+// supplying a static token; the issued tokens are refreshed automatically and kept in an encrypted file.
+export const oauthClientId = process.env.MIRO_OAUTH_CLIENT_ID;
+export const oauthClientSecret = process.env.MIRO_OAUTH_CLIENT_SECRET;
+export const oauthRedirectUri = process.env.MIRO_OAUTH_REDIRECT_URI || `http://localhost:${port}/oauth/callback`;
+export const oauthEnabled = Boolean(oauthClientId && oauthClientSecret);
+export const tokenStorePath = path.resolve(process.env.MIRO_TOKEN_STORE_PATH || '.miro-tokens.enc');
+export const tokenStoreKey = process.env.MIRO_TOKEN_STORE_KEY;
+// Connection key of the OAuth grant used by clients that connect without a token, in place of MIRO_API_TOKEN.
+// Authorized grants are only used this way when an operator names one here.
+export const defaultConnectionKey = process.env.MIRO_DEFAULT_CONNECTION_KEY;
+
+// Boards that tools may target via their board_id parameter, in addition to the default board.
+// Comma-separated list in MIRO_ALLOWED_BOARD_IDS; use "*" to allow any board the token can access.
+export const allowedBoardIds: string[] = (process.env.MIRO_ALLOWED_BOARD_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
 
-// Validate required environment variables
-if (!miroApiToken) {
-    console.error('MIRO_API_TOKEN is not defined in the environment variables.');
+// Validate required environment variables.
+// Over SSE or HTTP streaming each client may bring its own token instead (see extractSessionToken),
+// but stdio has no connection headers, so it needs the server-wide token or a default OAuth connection key.
+if ((oauthClientId || oauthClientSecret) && !oauthEnabled) {
+    console.error('MIRO_OAUTH_CLIENT_ID and MIRO_OAUTH_CLIENT_SECRET must be set together.');
     process.exit(1);
 }
 
+if (oauthEnabled && !tokenStoreKey) {
+    console.error('MIRO_TOKEN_STORE_KEY is required with OAuth, to encrypt the stored Miro tokens.');
+    process.exit(1);
+}
+
+if (defaultConnectionKey && (!oauthEnabled || miroApiToken)) {
+    console.error('MIRO_DEFAULT_CONNECTION_KEY requires OAuth to be configured and MIRO_API_TOKEN to be unset.');
+    process.exit(1);
+}
+
+if (!miroApiToken && !defaultConnectionKey) {
+    if (transportType === 'stdio' && !oauthEnabled) {
+        console.error('MIRO_API_TOKEN is not defined in the environment variables.');
+        process.exit(1);
+    }
+    // Notices go to stderr: this runs on import, before index.ts moves console output off the stdio protocol stream
+    if (oauthEnabled) {
+        console.error(`MIRO_API_TOKEN is not set; authorize at http://localhost:${port}/oauth/authorize and connect with the issued connection key, or set it as MIRO_DEFAULT_CONNECTION_KEY for clients without a token.`);
+    } else {
+        console.error('MIRO_API_TOKEN is not set; every client must connect with its own Miro token.');
+    }
+}
+
 if (!miroBoardId) {
     console.error('MIRO_BOARD_ID is not defined in the environment variables.');
     process.exit(1);
-} 
\ No newline at end of file
+}
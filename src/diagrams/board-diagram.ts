@@ -0,0 +1,339 @@
+import miroClient from '../client/miro-client';
+import { getBoardConnectors, getBoardItems } from '../client/board-cache';
+import { DiagramDirection, DiagramEdge, DiagramGraph, DiagramNode } from '../types/diagram-types';
+import { MiroItem } from '../types/miro-types';
+import { FRAME_PADDING, generateContentSummary, getCanvasCenter } from '../utils/data-utils';
+import { getTopLevelClusterId } from './diagram-graph';
+import { layeredLayout, LayoutNode, LayoutResult } from './layered-layout';
+
+// Largest number of items the bulk creation endpoint accepts per request
+const BULK_LIMIT = 20;
+// Longest caption the connector endpoint accepts
+const MAX_CAPTION_LENGTH = 200;
+// Item types read as diagram nodes even when no connector touches them
+const DIAGRAM_NODE_TYPES = ['shape', 'sticky_note'];
+
+// Layout ID of a frame placed as one block among the top-level nodes, apart from node IDs and layout placeholders
+const clusterUnitId = (clusterId: string) => `\u0000c:${clusterId}`;
+
+export interface RenderOptions {
+    // Canvas position of the diagram's center. Default: 0, 0
+    center?: { x: number; y: number };
+    connectorShape?: 'straight' | 'elbowed' | 'curved';
+}
+
+export interface RenderedDiagram {
+    // Board item IDs by node ID, frame IDs by cluster ID
+    node_ids: Record<string, string>;
+    frame_ids: Record<string, string>;
+    connector_ids: string[];
+    // Center and size of the diagram on the canvas
+    bounds: { x: number; y: number; width: number; height: number };
+    warnings: string[];
+}
+
+export interface ReadOptions {
+    // Only read the items inside this frame
+    frameId?: string;
+    // Default: LR when connectors mostly run sideways, TB otherwise
+    direction?: DiagramDirection;
+}
+
+export interface BoardDiagram {
+    graph: DiagramGraph;
+    // Board item IDs by node ID, frame IDs by cluster ID
+    node_ids: Record<string, string>;
+    frame_ids: Record<string, string>;
+}
+
+/**
+ * Estimates the shape size needed to show a node's label
+ */
+export function estimateNodeSize(node: DiagramNode): { width: number; height: number } {
+    const lines = node.label.split('\n');
+    const longest = Math.max(...lines.map(line => line.length));
+    let width = Math.min(Math.max(longest * 9 + 40, 120), 360);
+    let height = Math.max(80, lines.length * 24 + 40);
+
+    // Shapes with slanted or curved sides have less room for text
+    if (node.shape === 'rhombus' || node.shape === 'hexagon') {
+        width = Math.round(width * 1.4);
+        height = Math.round(height * 1.5);
+    } else if (node.shape === 'circle') {
+        width = height = Math.max(width, height);
+    } else if (node.shape === 'can') {
+        height += 30;
+    }
+    return { width, height };
+}
+
+/**
+ * Draws a diagram on the board: one frame per top-level cluster, one shape per node and one connector per edge.
+ * Nodes are placed with a layered layout, so they do not overlap. If any request fails,
+ * the items created so far are deleted again before the error is rethrown.
+ */
+export async function renderDiagram(boardId: string, graph: DiagramGraph, options: RenderOptions = {}): Promise<RenderedDiagram> {
+    const warnings = [...graph.warnings];
+    const sizes = new Map(graph.nodes.map(node => [node.id, estimateNodeSize(node)]));
+    const layoutOptions = { direction: graph.direction };
+
+    if (graph.clusters.some(cluster => cluster.parentId)) {
+        warnings.push('Nested subgraphs were merged into their outermost subgraph, because Miro frames cannot be nested.');
+    }
+
+    // Lay out each frame's contents on their own, then place the frames as blocks among the other nodes
+    const clusterOf = new Map(graph.nodes.map(node => [node.id, getTopLevelClusterId(graph, node.clusterId)]));
+    const unitOf = (nodeId: string) => {
+        const clusterId = clusterOf.get(nodeId);
+        return clusterId === undefined ? nodeId : clusterUnitId(clusterId);
+    };
+    const edges = graph.edges.map(edge => ({ from: edge.from, to: edge.to }));
+
+    const frameLayouts = new Map<string, LayoutResult>();
+    const units: LayoutNode[] = [];
+    for (const cluster of graph.clusters.filter(cluster => !cluster.parentId)) {
+        const members = graph.nodes.filter(node => clusterOf.get(node.id) === cluster.id);
+        if (members.length === 0) {
+            warnings.push(`Subgraph "${cluster.title}" has no nodes and was skipped.`);
+            continue;
+        }
+        const inner = layeredLayout(members.map(node => ({ id: node.id, ...sizes.get(node.id)! })), edges, layoutOptions);
+        frameLayouts.set(cluster.id, inner);
+        units.push({ id: clusterUnitId(cluster.id), width: inner.width + 2 * FRAME_PADDING, height: inner.height + 2 * FRAME_PADDING });
+    }
+    for (const node of graph.nodes) {
+        if (clusterOf.get(node.id) === undefined) units.push({ id: node.id, ...sizes.get(node.id)! });
+    }
+
+    const outer = layeredLayout(units, edges.map(edge => ({ from: unitOf(edge.from), to: unitOf(edge.to) })), layoutOptions);
+    const center = options.center || { x: 0, y: 0 };
+    const left = center.x - outer.width / 2;
+    const top = center.y - outer.height / 2;
+
+    const result: RenderedDiagram = {
+        node_ids: {},
+        frame_ids: {},
+        connector_ids: [],
+        bounds: { x: center.x, y: center.y, width: outer.width, height: outer.height },
+        warnings
+    };
+    // Canvas centers of the nodes, to pick the sides connectors attach to
+    const canvasCenters = new Map<string, { x: number; y: number }>();
+
+    try {
+        for (const [clusterId, inner] of frameLayouts) {
+            const unit = units.find(candidate => candidate.id === clusterUnitId(clusterId))!;
+            const position = outer.positions.get(unit.id)!;
+            const frameLeft = left + position.x - unit.width / 2;
+            const frameTop = top + position.y - unit.height / 2;
+
+            const response = await miroClient.post(`/v2/boards/${boardId}/frames`, {
+                data: { title: graph.clusters.find(cluster => cluster.id === clusterId)!.title },
+                position: { x: left + position.x, y: top + position.y, origin: 'center' },
+                geometry: { width: unit.width, height: unit.height }
+            });
+            result.frame_ids[clusterId] = response.data.id;
+
+            for (const [nodeId, nodePosition] of inner.positions) {
+                canvasCenters.set(nodeId, { x: frameLeft + FRAME_PADDING + nodePosition.x, y: frameTop + FRAME_PADDING + nodePosition.y });
+            }
+        }
+        for (const node of graph.nodes) {
+            if (clusterOf.get(node.id) !== undefined) continue;
+            const position = outer.positions.get(node.id)!;
+            canvasCenters.set(node.id, { x: left + position.x, y: top + position.y });
+        }
+
+        const shapes = graph.nodes.map(node => {
+            const clusterId = clusterOf.get(node.id);
+            const frameId = clusterId === undefined ? undefined : result.frame_ids[clusterId];
+            let position = canvasCenters.get(node.id)!;
+            if (frameId) {
+                // Items inside a frame are positioned from the frame's top-left corner
+                const inner = frameLayouts.get(clusterId!)!.positions.get(node.id)!;
+                position = { x: FRAME_PADDING + inner.x, y: FRAME_PADDING + inner.y };
+            }
+
+            const style: Record<string, string> = { textAlign: 'center', textAlignVertical: 'middle' };
+            if (node.fillColor) style.fillColor = node.fillColor;
+            if (node.borderColor) style.borderColor = node.borderColor;
+
+            return {
+                type: 'shape',
+                data: { content: labelToHtml(node.label), shape: node.shape },
+                style,
+                position: { x: Math.round(position.x), y: Math.round(position.y), origin: 'center' },
+                geometry: sizes.get(node.id),
+                ...(frameId && { parent: { id: frameId } })
+            };
+        });
+
+        for (let start = 0; start < shapes.length; start += BULK_LIMIT) {
+            const response = await miroClient.post(`/v2/boards/${boardId}/items/bulk`, shapes.slice(start, start + BULK_LIMIT));
+            (response.data.data as { id: string }[]).forEach((item, index) => {
+                result.node_ids[graph.nodes[start + index].id] = item.id;
+            });
+        }
+
+        for (const edge of graph.edges) {
+            if (edge.hidden) continue;
+            const body: Record<string, unknown> = {
+                startItem: { id: result.node_ids[edge.from], snapTo: snapSide(graph.direction, canvasCenters.get(edge.from)!, canvasCenters.get(edge.to)!, 'start') },
+                endItem: { id: result.node_ids[edge.to], snapTo: snapSide(graph.direction, canvasCenters.get(edge.from)!, canvasCenters.get(edge.to)!, 'end') },
+                shape: options.connectorShape || 'elbowed',
+                style: {
+                    strokeStyle: edge.strokeStyle,
+                    startStrokeCap: edge.startCap,
+                    endStrokeCap: edge.endCap,
+                    ...(edge.thick && { strokeWidth: '4' })
+                }
+            };
+            if (edge.label) body.captions = [{ content: edge.label.slice(0, MAX_CAPTION_LENGTH) }];
+
+            const response = await miroClient.post(`/v2/boards/${boardId}/connectors`, body);
+            result.connector_ids.push(response.data.id);
+        }
+    } catch (error) {
+        await removeRendered(boardId, result);
+        throw error;
+    }
+
+    return result;
+}
+
+/**
+ * Reads the shapes, sticky notes and connectors of a board or frame as a diagram.
+ * Other items become nodes too when a connector touches them. Frames become clusters, except the one being read.
+ * Node and cluster IDs are short sequential names in reading order (top to bottom, left to right).
+ */
+export async function readDiagram(boardId: string, options: ReadOptions = {}): Promise<BoardDiagram> {
+    const [items, connectors] = await Promise.all([getBoardItems(boardId), getBoardConnectors(boardId)]);
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const warnings: string[] = [];
+
+    if (options.frameId && itemsById.get(options.frameId)?.type !== 'frame') {
+        throw new Error(`Frame ${options.frameId} not found on board ${boardId}`);
+    }
+
+    const candidates = items.filter(item => item.type !== 'frame' && (!options.frameId || item.parent?.id === options.frameId));
+    const candidateIds = new Set(candidates.map(item => item.id));
+    const links = connectors.filter(connector => candidateIds.has(connector.startItem?.id || '') && candidateIds.has(connector.endItem?.id || ''));
+    const leaving = connectors.filter(connector => !links.includes(connector)
+        && (candidateIds.has(connector.startItem?.id || '') || candidateIds.has(connector.endItem?.id || '')));
+    if (leaving.length > 0) {
+        warnings.push(`${leaving.length} connector(s) leading outside the exported area were skipped.`);
+    }
+
+    const connected = new Set(links.flatMap(connector => [connector.startItem!.id, connector.endItem!.id]));
+    const centers = new Map(items.map(item => [item.id, getCanvasCenter(item, itemsById)]));
+    const readingOrder = (a: MiroItem, b: MiroItem) => centers.get(a.id)!.y - centers.get(b.id)!.y || centers.get(a.id)!.x - centers.get(b.id)!.x;
+    const nodeItems = candidates
+        .filter(item => DIAGRAM_NODE_TYPES.includes(item.type) || connected.has(item.id))
+        .sort(readingOrder);
+
+    const result: BoardDiagram = {
+        graph: { direction: options.direction || 'TB', nodes: [], edges: [], clusters: [], warnings },
+        node_ids: {},
+        frame_ids: {}
+    };
+
+    const clusterOfFrame = new Map<string, string>();
+    if (!options.frameId) {
+        const frames = items
+            .filter(item => item.type === 'frame' && nodeItems.some(node => node.parent?.id === item.id))
+            .sort(readingOrder);
+        frames.forEach((frame, index) => {
+            const clusterId = `f${index + 1}`;
+            clusterOfFrame.set(frame.id, clusterId);
+            result.frame_ids[clusterId] = frame.id;
+            result.graph.clusters.push({ id: clusterId, title: generateContentSummary(frame) || clusterId });
+        });
+    }
+
+    const nodeOfItem = new Map<string, string>();
+    nodeItems.forEach((item, index) => {
+        const id = `n${index + 1}`;
+        nodeOfItem.set(item.id, id);
+        result.node_ids[id] = item.id;
+
+        const node: DiagramNode = {
+            id,
+            label: generateContentSummary(item) || '',
+            shape: item.type === 'shape' && typeof item.data?.shape === 'string' ? item.data.shape : 'rectangle'
+        };
+        const clusterId = item.parent && clusterOfFrame.get(item.parent.id);
+        if (clusterId) node.clusterId = clusterId;
+        for (const key of ['fillColor', 'borderColor'] as const) {
+            const color = item.style?.[key];
+            if (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)) node[key] = color;
+        }
+        result.graph.nodes.push(node);
+    });
+
+    let across = 0;
+    let along = 0;
+    for (const connector of links) {
+        const style = (connector.style || {}) as Record<string, unknown>;
+        const captions = (connector.captions as { content?: string }[] | undefined) || [];
+        const label = captions.map(caption => (caption.content || '').replace(/<[^>]*>/g, ' ')).join(' ').replace(/\s+/g, ' ').trim();
+        const edge: DiagramEdge = {
+            from: nodeOfItem.get(connector.startItem!.id)!,
+            to: nodeOfItem.get(connector.endItem!.id)!,
+            strokeStyle: style.strokeStyle === 'dotted' || style.strokeStyle === 'dashed' ? style.strokeStyle : 'normal',
+            // Miro draws an arrowhead at the end unless told otherwise
+            startCap: (style.startStrokeCap as string | undefined) || 'none',
+            endCap: (style.endStrokeCap as string | undefined) || 'stealth'
+        };
+        if (Number(style.strokeWidth) >= 4) edge.thick = true;
+        if (label) edge.label = label;
+        result.graph.edges.push(edge);
+
+        const start = centers.get(connector.startItem!.id)!;
+        const end = centers.get(connector.endItem!.id)!;
+        across += Math.abs(end.x - start.x);
+        along += Math.abs(end.y - start.y);
+    }
+    result.graph.edges.sort((a, b) => Number(a.from.slice(1)) - Number(b.from.slice(1)) || Number(a.to.slice(1)) - Number(b.to.slice(1)));
+    if (!options.direction && across > along) result.graph.direction = 'LR';
+
+    return result;
+}
+
+/**
+ * Picks the sides a connector leaves and enters by, following the diagram's direction.
+ * Edges that run against the direction attach automatically.
+ */
+function snapSide(direction: DiagramGraph['direction'], from: { x: number; y: number }, to: { x: number; y: number }, end: 'start' | 'end'): string {
+    const sides: Record<string, [string, string, boolean]> = {
+        TB: ['bottom', 'top', to.y > from.y],
+        BT: ['top', 'bottom', to.y < from.y],
+        LR: ['right', 'left', to.x > from.x],
+        RL: ['left', 'right', to.x < from.x]
+    };
+    const [exit, entry, forward] = sides[direction];
+    if (!forward) return 'auto';
+    return end === 'start' ? exit : entry;
+}
+
+/**
+ * Deletes what a failed render created, connectors first. Failures here are only logged.
+ */
+async function removeRendered(boardId: string, rendered: RenderedDiagram): Promise<void> {
+    const urls = [
+        ...rendered.connector_ids.map(id => `/v2/boards/${boardId}/connectors/${id}`),
+        ...Object.values(rendered.node_ids).map(id => `/v2/boards/${boardId}/items/${id}`),
+        ...Object.values(rendered.frame_ids).map(id => `/v2/boards/${boardId}/items/${id}`)
+    ];
+    for (const url of urls) {
+        try {
+            await miroClient.delete(url);
+        } catch (error) {
+            console.error(`Could not remove ${url} after a failed diagram import: ${error}`);
+        }
+    }
+}
+
+function labelToHtml(label: string): string {
+    const escaped = label.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `<p>${escaped.split('\n').join('<br>')}</p>`;
+}
@@ -0,0 +1,41 @@
+import { DiagramGraph, DiagramNode } from '../types/diagram-types';
+
+/**
+ * Error thrown when diagram source cannot be parsed. line is 1-based.
+ */
+export class DiagramParseError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'DiagramParseError';
+    }
+}
+
+/**
+ * Finds the outermost cluster a cluster is nested in. Miro frames cannot be nested,
+ * so nested clusters are drawn as part of their top-level ancestor.
+ */
+export function getTopLevelClusterId(graph: DiagramGraph, clusterId: string | undefined): string | undefined {
+    const seen = new Set<string>();
+    let current = graph.clusters.find(cluster => cluster.id === clusterId);
+    while (current?.parentId && !seen.has(current.id)) {
+        seen.add(current.id);
+        current = graph.clusters.find(cluster => cluster.id === current?.parentId);
+    }
+    return current?.id;
+}
+
+/**
+ * Adds a node, or fills in the label and shape of one that was only referenced so far
+ */
+export function upsertNode(graph: DiagramGraph, nodes: Map<string, DiagramNode>, id: string, fields: Partial<DiagramNode> = {}): DiagramNode {
+    let node = nodes.get(id);
+    if (!node) {
+        node = { id, label: id, shape: 'rectangle' };
+        nodes.set(id, node);
+        graph.nodes.push(node);
+    }
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) (node as Record<string, unknown>)[key] = value;
+    }
+    return node;
+}
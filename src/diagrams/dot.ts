@@ -0,0 +1,588 @@
+import { DiagramDirection, DiagramEdge, DiagramGraph, DiagramNode } from '../types/diagram-types';
+import { ShapeType, ShapeTypeSchema, SHAPE_ALIASES, StrokeCap } from '../schemas/item-schema';
+import { DiagramParseError, upsertNode } from './diagram-graph';
+
+// Graphviz node shapes and the Miro shape each one is drawn as
+const DOT_SHAPES: Record<string, ShapeType> = {
+    box: 'rectangle',
+    rect: 'rectangle',
+    rectangle: 'rectangle',
+    square: 'rectangle',
+    plaintext: 'rectangle',
+    plain: 'rectangle',
+    none: 'rectangle',
+    note: 'rectangle',
+    tab: 'rectangle',
+    folder: 'rectangle',
+    box3d: 'rectangle',
+    record: 'rectangle',
+    Mrecord: 'round_rectangle',
+    component: 'flow_chart_predefined_process',
+    ellipse: 'ellipse',
+    oval: 'oval',
+    egg: 'oval',
+    circle: 'circle',
+    doublecircle: 'circle',
+    point: 'circle',
+    diamond: 'diamond',
+    Mdiamond: 'diamond',
+    triangle: 'triangle',
+    invtriangle: 'triangle',
+    house: 'pentagon',
+    invhouse: 'pentagon',
+    pentagon: 'pentagon',
+    hexagon: 'hexagon',
+    octagon: 'octagon',
+    doubleoctagon: 'octagon',
+    tripleoctagon: 'octagon',
+    parallelogram: 'parallelogram',
+    trapezium: 'trapezoid',
+    invtrapezium: 'trapezoid',
+    cylinder: 'cylinder',
+    star: 'star',
+    rarrow: 'arrow',
+    larrow: 'left_arrow'
+};
+
+// Miro shapes and the Graphviz shape each one is written as; shapes not listed become boxes
+const MIRO_TO_DOT_SHAPES: Record<string, string> = {
+    rectangle: 'box',
+    flow_chart_process: 'box',
+    circle: 'ellipse',
+    flow_chart_connector: 'circle',
+    rhombus: 'diamond',
+    flow_chart_decision: 'diamond',
+    triangle: 'triangle',
+    pentagon: 'pentagon',
+    hexagon: 'hexagon',
+    flow_chart_preparation: 'hexagon',
+    octagon: 'octagon',
+    parallelogram: 'parallelogram',
+    flow_chart_input_output: 'parallelogram',
+    trapezoid: 'trapezium',
+    can: 'cylinder',
+    flow_chart_magnetic_disk: 'cylinder',
+    star: 'star',
+    right_arrow: 'rarrow',
+    left_arrow: 'larrow',
+    flow_chart_predefined_process: 'component'
+};
+
+// Miro shapes written as rounded boxes
+const ROUNDED_SHAPES = ['round_rectangle', 'flow_chart_terminator'];
+
+// Graphviz arrow types and the stroke cap each one is drawn with
+const DOT_ARROWS: Record<string, StrokeCap> = {
+    normal: 'stealth',
+    vee: 'arrow',
+    open: 'arrow',
+    empty: 'triangle',
+    onormal: 'triangle',
+    dot: 'filled_oval',
+    odot: 'oval',
+    diamond: 'filled_diamond',
+    odiamond: 'diamond',
+    ediamond: 'diamond',
+    crow: 'erd_many',
+    tee: 'erd_one',
+    none: 'none'
+};
+
+// The Graphviz arrow type written for each stroke cap
+const STROKE_CAP_ARROWS: Record<StrokeCap, string> = {
+    none: 'none',
+    stealth: 'normal',
+    rounded_stealth: 'normal',
+    arrow: 'vee',
+    triangle: 'onormal',
+    filled_triangle: 'normal',
+    oval: 'odot',
+    filled_oval: 'dot',
+    diamond: 'odiamond',
+    filled_diamond: 'diamond',
+    erd_one: 'tee',
+    erd_only_one: 'tee',
+    erd_zero_or_one: 'tee',
+    erd_many: 'crow',
+    erd_one_or_many: 'crow',
+    erd_zero_or_many: 'crow',
+    unknown: 'normal'
+};
+
+// Color names understood besides hex colors, from the X11 scheme Graphviz uses by default
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+    gray: '#bebebe',
+    grey: '#bebebe',
+    lightgray: '#d3d3d3',
+    lightgrey: '#d3d3d3',
+    red: '#ff0000',
+    orange: '#ffa500',
+    yellow: '#ffff00',
+    lightyellow: '#ffffe0',
+    green: '#00ff00',
+    palegreen: '#98fb98',
+    cyan: '#00ffff',
+    blue: '#0000ff',
+    lightblue: '#add8e6',
+    purple: '#a020f0',
+    magenta: '#ff00ff',
+    pink: '#ffc0cb',
+    brown: '#a52a2a'
+};
+
+const DIRECTIONS: Record<string, DiagramDirection> = { TB: 'TB', BT: 'BT', LR: 'LR', RL: 'RL' };
+
+type Token = {
+    kind: 'id' | 'symbol';
+    value: string;
+    // Quoted and HTML strings are never keywords
+    quoted?: boolean;
+    html?: boolean;
+    line: number;
+};
+
+type Attributes = Record<string, Token>;
+
+type Scope = {
+    nodeDefaults: Attributes;
+    edgeDefaults: Attributes;
+    clusterId?: string;
+    // Whether this scope is the cluster itself rather than a plain subgraph inside it
+    ownsCluster: boolean;
+    // Nodes mentioned in this scope, the endpoints of an edge to the subgraph
+    nodeIds: Set<string>;
+};
+
+/**
+ * Parses a Graphviz DOT graph or digraph into a diagram graph.
+ * Supports node and edge statements with attributes, default attributes, and subgraphs.
+ * Subgraphs named "cluster..." become clusters; other subgraphs only group nodes for edges and defaults.
+ * @throws DiagramParseError with the offending line when the source is not valid DOT
+ */
+export function parseDot(source: string): DiagramGraph {
+    const tokens = tokenize(source);
+    const graph: DiagramGraph = { direction: 'TB', nodes: [], edges: [], clusters: [], warnings: [] };
+    const nodes = new Map<string, DiagramNode>();
+    const nodeAttributes = new Map<string, Attributes>();
+    const warn = (message: string) => {
+        if (!graph.warnings.includes(message)) graph.warnings.push(message);
+    };
+
+    let index = 0;
+    const lastLine = tokens.length > 0 ? tokens[tokens.length - 1].line : 1;
+    const peek = (offset = 0): Token | undefined => tokens[index + offset];
+    const fail = (message: string, token: Token | undefined = peek()): never => {
+        throw new DiagramParseError(token ? `${message}, found "${token.value}"` : `${message} before the end of the source`, token?.line ?? lastLine);
+    };
+    const isSymbol = (value: string, token = peek()) => token?.kind === 'symbol' && token.value === value;
+    const isKeyword = (keyword: string, token = peek()) => token?.kind === 'id' && !token.quoted && !token.html && token.value.toLowerCase() === keyword;
+    const accept = (value: string) => {
+        if (!isSymbol(value)) return false;
+        index++;
+        return true;
+    };
+    const expect = (value: string) => {
+        if (!accept(value)) fail(`Expected "${value}"`);
+    };
+    const expectId = (what: string): Token => {
+        const token = peek();
+        if (token?.kind !== 'id') return fail(`Expected ${what}`);
+        index++;
+        return token;
+    };
+
+    // Header: [strict] (graph | digraph) [name] {
+    if (isKeyword('strict')) index++;
+    const directed = isKeyword('digraph');
+    if (!directed && !isKeyword('graph')) fail('Expected "graph" or "digraph"');
+    index++;
+    if (peek()?.kind === 'id') index++;
+    expect('{');
+
+    const parseAttributeList = (): Attributes => {
+        const attributes: Attributes = {};
+        while (accept('[')) {
+            while (!accept(']')) {
+                const key = expectId('an attribute name');
+                expect('=');
+                attributes[key.value] = expectId(`a value for "${key.value}"`);
+                if (!accept(',')) accept(';');
+            }
+        }
+        return attributes;
+    };
+
+    const applyGraphAttributes = (scope: Scope, attributes: Attributes) => {
+        for (const [key, token] of Object.entries(attributes)) {
+            if (key === 'rankdir') {
+                const direction = DIRECTIONS[token.value.toUpperCase()];
+                if (!direction) fail(`Unknown rankdir "${token.value}". Use TB, BT, LR or RL.`, token);
+                if (scope.clusterId) {
+                    warn('rankdir inside subgraphs is ignored; the whole diagram uses the graph\'s direction.');
+                } else {
+                    graph.direction = direction;
+                }
+            } else if (key === 'label') {
+                const cluster = scope.ownsCluster && graph.clusters.find(candidate => candidate.id === scope.clusterId);
+                if (cluster) {
+                    cluster.title = labelText(token);
+                } else if (!scope.clusterId) {
+                    warn('The graph label is not drawn.');
+                }
+            } else if (key === 'rank') {
+                warn('Rank constraints are ignored; nodes are placed by the layered layout.');
+            }
+        }
+    };
+
+    const describeNode = (node: DiagramNode, attributes: Attributes) => {
+        const label = attributes.label;
+        node.label = label ? labelText(label).replace(/\\N/g, node.id) : node.id;
+        if (label && !label.html && /\{|\|/.test(label.value) && /record/i.test(attributes.shape?.value || '')) {
+            warn('Record fields are not supported; record labels were drawn as plain text.');
+        }
+
+        const shapeName = attributes.shape?.value;
+        let shape: ShapeType = 'rectangle';
+        if (shapeName) {
+            const known = DOT_SHAPES[shapeName] || (ShapeTypeSchema.safeParse(shapeName).success ? shapeName as ShapeType : undefined);
+            if (known) {
+                shape = known;
+            } else {
+                warn(`Graphviz shape "${shapeName}" has no Miro equivalent and was drawn as a rectangle.`);
+            }
+        }
+        shape = SHAPE_ALIASES[shape] || shape;
+
+        const styles = (attributes.style?.value || '').split(',').map(style => style.trim());
+        if (styles.includes('rounded') && shape === 'rectangle') shape = 'round_rectangle';
+        node.shape = shape;
+
+        const color = attributes.color && hexColor(attributes.color.value, warn);
+        const fill = attributes.fillcolor ? hexColor(attributes.fillcolor.value, warn) : styles.includes('filled') ? color : undefined;
+        if (fill) node.fillColor = fill;
+        if (color) node.borderColor = color;
+    };
+
+    const mentionNode = (id: string, scope: Scope, attributes: Attributes = {}) => {
+        if (!nodes.has(id)) nodeAttributes.set(id, { ...scope.nodeDefaults });
+        const merged = { ...nodeAttributes.get(id), ...attributes };
+        nodeAttributes.set(id, merged);
+
+        const node = upsertNode(graph, nodes, id);
+        describeNode(node, merged);
+        // A node belongs to the first cluster it appears in
+        if (!node.clusterId && scope.clusterId) node.clusterId = scope.clusterId;
+        scope.nodeIds.add(id);
+    };
+
+    const edgeFields = (attributes: Attributes): Omit<DiagramEdge, 'from' | 'to'> => {
+        const styles = (attributes.style?.value || '').split(',').map(style => style.trim());
+        const cap = (token: Token | undefined) => {
+            const name = token?.value || 'normal';
+            if (DOT_ARROWS[name]) return DOT_ARROWS[name];
+            warn(`Graphviz arrow "${name}" has no Miro equivalent and was drawn as a plain arrow.`);
+            return DOT_ARROWS.normal;
+        };
+        const dir = attributes.dir?.value || (directed ? 'forward' : 'none');
+
+        const fields: Omit<DiagramEdge, 'from' | 'to'> = {
+            strokeStyle: styles.includes('dotted') ? 'dotted' : styles.includes('dashed') ? 'dashed' : 'normal',
+            startCap: dir === 'back' || dir === 'both' ? cap(attributes.arrowtail) : 'none',
+            endCap: dir === 'forward' || dir === 'both' ? cap(attributes.arrowhead) : 'none'
+        };
+        if (styles.includes('bold') || Number(attributes.penwidth?.value) >= 2) fields.thick = true;
+        if (styles.includes('invis')) fields.hidden = true;
+        if (attributes.label) fields.label = labelText(attributes.label);
+        return fields;
+    };
+
+    const parseSubgraph = (parent: Scope): string[] => {
+        const keyword = peek();
+        let id: string | undefined;
+        if (isKeyword('subgraph')) {
+            index++;
+            if (peek()?.kind === 'id') id = expectId('a subgraph name').value;
+        }
+        if (!isSymbol('{')) fail('Expected "{" to open the subgraph', peek() || keyword);
+        index++;
+
+        const scope: Scope = {
+            nodeDefaults: { ...parent.nodeDefaults },
+            edgeDefaults: { ...parent.edgeDefaults },
+            clusterId: parent.clusterId,
+            ownsCluster: false,
+            nodeIds: new Set()
+        };
+        if (id && id.startsWith('cluster')) {
+            if (!graph.clusters.some(cluster => cluster.id === id)) {
+                graph.clusters.push({ id, title: id.replace(/^cluster_?/, '') || id, parentId: parent.clusterId });
+            }
+            scope.clusterId = id;
+            scope.ownsCluster = true;
+        }
+
+        parseStatements(scope);
+        for (const nodeId of scope.nodeIds) parent.nodeIds.add(nodeId);
+        return Array.from(scope.nodeIds);
+    };
+
+    const parseOperand = (scope: Scope): string[] => {
+        if (isKeyword('subgraph') || isSymbol('{')) return parseSubgraph(scope);
+
+        const id = expectId('a node name').value;
+        if (accept(':')) {
+            expectId('a port name');
+            if (accept(':')) expectId('a compass point');
+            warn('Ports are ignored; connectors attach to the whole shape.');
+        }
+        mentionNode(id, scope);
+        return [id];
+    };
+
+    const parseStatements = (scope: Scope) => {
+        while (!accept('}')) {
+            if (!peek()) fail('Missing "}"');
+
+            const next = peek(1);
+            if ((isKeyword('graph') || isKeyword('node') || isKeyword('edge')) && isSymbol('[', next)) {
+                const target = peek()!.value.toLowerCase();
+                index++;
+                const attributes = parseAttributeList();
+                if (target === 'graph') applyGraphAttributes(scope, attributes);
+                if (target === 'node') Object.assign(scope.nodeDefaults, attributes);
+                if (target === 'edge') Object.assign(scope.edgeDefaults, attributes);
+            } else if (peek()?.kind === 'id' && !isKeyword('subgraph') && isSymbol('=', next)) {
+                const key = expectId('an attribute name');
+                index++;
+                applyGraphAttributes(scope, { [key.value]: expectId(`a value for "${key.value}"`) });
+            } else {
+                const operands = [parseOperand(scope)];
+                while (isSymbol('->') || isSymbol('--')) {
+                    const operator = peek()!;
+                    if ((operator.value === '->') !== directed) {
+                        fail(`Use "${directed ? '->' : '--'}" for edges in a ${directed ? 'digraph' : 'graph'}`, operator);
+                    }
+                    index++;
+                    operands.push(parseOperand(scope));
+                }
+                const attributes = parseAttributeList();
+
+                if (operands.length === 1) {
+                    // A node statement; subgraphs take no attributes
+                    if (Object.keys(attributes).length > 0 && operands[0].length === 1) mentionNode(operands[0][0], scope, attributes);
+                } else {
+                    const fields = edgeFields({ ...scope.edgeDefaults, ...attributes });
+                    for (let i = 1; i < operands.length; i++) {
+                        for (const from of operands[i - 1]) {
+                            for (const to of operands[i]) {
+                                graph.edges.push({ from, to, ...fields });
+                            }
+                        }
+                    }
+                }
+            }
+            accept(';');
+        }
+    };
+
+    parseStatements({ nodeDefaults: {}, edgeDefaults: {}, ownsCluster: false, nodeIds: new Set() });
+    if (peek()) fail('Unexpected content after the closing "}"');
+
+    return graph;
+}
+
+/**
+ * Writes a diagram graph as a Graphviz digraph. Clusters are named "cluster_<id>" so Graphviz draws them.
+ */
+export function toDot(graph: DiagramGraph): string {
+    const lines = ['digraph {'];
+    if (graph.direction !== 'TB') lines.push(`    rankdir=${graph.direction};`);
+
+    const writeNodes = (clusterId: string | undefined, indent: string) => {
+        for (const cluster of graph.clusters.filter(candidate => candidate.parentId === clusterId)) {
+            lines.push(`${indent}subgraph ${quoteId(cluster.id.startsWith('cluster') ? cluster.id : `cluster_${cluster.id}`)} {`);
+            lines.push(`${indent}    label=${quoteString(cluster.title)};`);
+            writeNodes(cluster.id, indent + '    ');
+            lines.push(`${indent}}`);
+        }
+        for (const node of graph.nodes.filter(candidate => candidate.clusterId === clusterId)) {
+            const attributes = [`label=${quoteString(node.label)}`, `shape=${MIRO_TO_DOT_SHAPES[node.shape] || 'box'}`];
+            const styles = ROUNDED_SHAPES.includes(node.shape) ? ['rounded'] : [];
+            if (node.fillColor) {
+                styles.push('filled');
+                attributes.push(`fillcolor=${quoteString(node.fillColor)}`);
+            }
+            if (node.borderColor) attributes.push(`color=${quoteString(node.borderColor)}`);
+            if (styles.length > 0) attributes.push(`style=${quoteString(styles.join(','))}`);
+            lines.push(`${indent}${quoteId(node.id)} [${attributes.join(', ')}];`);
+        }
+    };
+    writeNodes(undefined, '    ');
+
+    for (const edge of graph.edges) {
+        const attributes: string[] = [];
+        if (edge.label) attributes.push(`label=${quoteString(edge.label)}`);
+        const styles = [edge.strokeStyle !== 'normal' ? edge.strokeStyle : '', edge.hidden ? 'invis' : ''].filter(Boolean);
+        if (styles.length > 0) attributes.push(`style=${quoteString(styles.join(','))}`);
+        if (edge.thick) attributes.push('penwidth=3');
+
+        const head = STROKE_CAP_ARROWS[edge.endCap as StrokeCap] || 'normal';
+        const tail = STROKE_CAP_ARROWS[edge.startCap as StrokeCap] || 'normal';
+        const dir = head === 'none' ? (tail === 'none' ? 'none' : 'back') : (tail === 'none' ? 'forward' : 'both');
+        if (dir !== 'forward') attributes.push(`dir=${dir}`);
+        if (head !== 'none' && head !== 'normal') attributes.push(`arrowhead=${head}`);
+        if (tail !== 'none' && tail !== 'normal') attributes.push(`arrowtail=${tail}`);
+
+        lines.push(`    ${quoteId(edge.from)} -> ${quoteId(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Splits DOT source into IDs and symbols, skipping comments
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let pos = 0;
+    let lineStart = true;
+    // Set after "+" following a string: the next string is appended to that one
+    let concatenating = false;
+
+    while (pos < source.length) {
+        const char = source[pos];
+        if (char === '\n') {
+            line++;
+            pos++;
+            lineStart = true;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            pos++;
+            continue;
+        }
+
+        // Comments, and lines starting with "#" (C preprocessor output)
+        if (source.startsWith('//', pos) || (lineStart && char === '#')) {
+            while (pos < source.length && source[pos] !== '\n') pos++;
+            continue;
+        }
+        lineStart = false;
+        if (source.startsWith('/*', pos)) {
+            const end = source.indexOf('*/', pos + 2);
+            if (end < 0) throw new DiagramParseError('Unterminated comment', line);
+            line += source.slice(pos, end).split('\n').length - 1;
+            pos = end + 2;
+            continue;
+        }
+
+        const startLine = line;
+        if (char === '"') {
+            let value = '';
+            pos++;
+            while (pos < source.length && source[pos] !== '"') {
+                if (source[pos] === '\\' && source[pos + 1] === '"') {
+                    value += '"';
+                    pos += 2;
+                } else if (source[pos] === '\\' && source[pos + 1] === '\n') {
+                    // Line continuation
+                    line++;
+                    pos += 2;
+                } else {
+                    if (source[pos] === '\n') line++;
+                    value += source[pos++];
+                }
+            }
+            if (pos >= source.length) throw new DiagramParseError('Unterminated string', startLine);
+            pos++;
+
+            if (concatenating) {
+                tokens[tokens.length - 1].value += value;
+                concatenating = false;
+            } else {
+                tokens.push({ kind: 'id', value, quoted: true, line: startLine });
+            }
+            continue;
+        }
+        if (concatenating) throw new DiagramParseError('Expected a string after "+"', line);
+        if (char === '+' && tokens[tokens.length - 1]?.quoted) {
+            concatenating = true;
+            pos++;
+            continue;
+        }
+
+        if (char === '<') {
+            let depth = 0;
+            const start = pos;
+            do {
+                if (source[pos] === '<') depth++;
+                if (source[pos] === '>') depth--;
+                if (source[pos] === '\n') line++;
+                pos++;
+            } while (pos < source.length && depth > 0);
+            if (depth > 0) throw new DiagramParseError('Unterminated HTML label', startLine);
+            tokens.push({ kind: 'id', value: source.slice(start + 1, pos - 1), html: true, line: startLine });
+            continue;
+        }
+
+        if (source.startsWith('->', pos) || source.startsWith('--', pos)) {
+            tokens.push({ kind: 'symbol', value: source.slice(pos, pos + 2), line });
+            pos += 2;
+            continue;
+        }
+        if ('{}[];,=:'.includes(char)) {
+            tokens.push({ kind: 'symbol', value: char, line });
+            pos++;
+            continue;
+        }
+
+        const id = source.slice(pos).match(/^(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-?(?:\.\d+|\d+(?:\.\d*)?))/);
+        if (!id) throw new DiagramParseError(`Unexpected character "${char}"`, line);
+        tokens.push({ kind: 'id', value: id[0], line });
+        pos += id[0].length;
+    }
+
+    if (concatenating) throw new DiagramParseError('Expected a string after "+"', line);
+    return tokens;
+}
+
+/**
+ * Turns a label value into text: HTML labels lose their markup, and escaped line breaks become real ones
+ */
+function labelText(token: Token): string {
+    if (token.html) {
+        return token.value
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<[^>]*>/g, '')
+            .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+            .trim();
+    }
+    return token.value
+        .replace(/\\(.)/g, (escape, char) => 'nlr'.includes(char) ? '\n' : char === '\\' ? '\\' : escape)
+        .replace(/\n+$/, '');
+}
+
+/**
+ * Reads a Graphviz color as a hex color. Of color lists ("red:blue") only the first color is used.
+ */
+function hexColor(value: string, warn: (message: string) => void): string | undefined {
+    const first = value.split(':')[0].trim();
+    const hex = first.match(/^#([0-9a-f]{6})(?:[0-9a-f]{2})?$/i);
+    if (hex) return `#${hex[1].toLowerCase()}`;
+    if (NAMED_COLORS[first.toLowerCase()]) return NAMED_COLORS[first.toLowerCase()];
+    warn(`Color "${first}" is not supported and was ignored; use a hex color such as "#ff0000".`);
+    return undefined;
+}
+
+function quoteId(id: string): string {
+    return /^[A-Za-z_][\w]*$/.test(id) && !['node', 'edge', 'graph', 'digraph', 'subgraph', 'strict'].includes(id.toLowerCase()) ? id : quoteString(id);
+}
+
+function quoteString(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
@@ -0,0 +1,66 @@
+import { LayoutNode, LayoutResult } from './layered-layout';
+
+// Default gap between neighbouring cells
+const DEFAULT_GAP = 40;
+
+/**
+ * Where a node sits within its cell when it is smaller than the cell
+ */
+export type CellAlignment = 'start' | 'center' | 'end';
+
+export interface GridOptions {
+    columns: number;
+    gap?: number;
+    alignment?: CellAlignment;
+}
+
+/**
+ * Places nodes on a grid in reading order: left to right, then top to bottom.
+ * Each column is as wide as its widest node and each row as tall as its tallest one, so nodes of different sizes never overlap.
+ * A single column or a single row gives a stack or a line.
+ */
+export function gridLayout(nodes: LayoutNode[], options: GridOptions): LayoutResult {
+    const positions = new Map<string, { x: number; y: number }>();
+    if (nodes.length === 0) return { positions, width: 0, height: 0 };
+
+    const columns = Math.max(1, Math.min(Math.floor(options.columns), nodes.length));
+    const gap = options.gap ?? DEFAULT_GAP;
+    const alignment = options.alignment ?? 'center';
+
+    const columnWidths: number[] = new Array(columns).fill(0);
+    const rowHeights: number[] = [];
+    nodes.forEach((node, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        columnWidths[column] = Math.max(columnWidths[column], node.width);
+        rowHeights[row] = Math.max(rowHeights[row] ?? 0, node.height);
+    });
+
+    // Leading edge of every column and row
+    const starts = (sizes: number[]) => {
+        const offsets: number[] = [];
+        let offset = 0;
+        for (const size of sizes) {
+            offsets.push(offset);
+            offset += size + gap;
+        }
+        return offsets;
+    };
+    const columnLefts = starts(columnWidths);
+    const rowTops = starts(rowHeights);
+
+    const place = (start: number, cell: number, size: number) =>
+        alignment === 'start' ? start + size / 2 : alignment === 'end' ? start + cell - size / 2 : start + cell / 2;
+
+    nodes.forEach((node, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        positions.set(node.id, {
+            x: place(columnLefts[column], columnWidths[column], node.width),
+            y: place(rowTops[row], rowHeights[row], node.height)
+        });
+    });
+
+    const total = (sizes: number[]) => sizes.reduce((sum, size) => sum + size, 0) + gap * (sizes.length - 1);
+    return { positions, width: total(columnWidths), height: total(rowHeights) };
+}
@@ -0,0 +1,276 @@
+import { DiagramDirection } from '../types/diagram-types';
+
+export interface LayoutNode {
+    id: string;
+    width: number;
+    height: number;
+}
+
+export interface LayoutEdge {
+    from: string;
+    to: string;
+}
+
+export interface LayoutOptions {
+    direction: DiagramDirection;
+    // Gap between consecutive layers along the flow direction
+    layerSpacing?: number;
+    // Gap between neighbouring nodes within a layer
+    nodeSpacing?: number;
+}
+
+export interface LayoutResult {
+    // Node centers, measured from the top-left corner of the layout's bounding box
+    positions: Map<string, { x: number; y: number }>;
+    width: number;
+    height: number;
+}
+
+const DEFAULT_LAYER_SPACING = 120;
+const DEFAULT_NODE_SPACING = 60;
+// Alternating down and up passes of the barycenter heuristic
+const ORDERING_SWEEPS = 8;
+// Upper bound on passes of swapping neighbours within layers
+const TRANSPOSE_ROUNDS = 10;
+// IDs of the placeholder nodes long edges are split into; no diagram ID contains the NUL character
+const PLACEHOLDER_PREFIX = '\u0000p:';
+
+/**
+ * Lays out a directed graph in layers: every edge points from one layer to a later one,
+ * and nodes within a layer are ordered to reduce edge crossings.
+ * Cycles are broken by reversing back edges, so any graph can be laid out.
+ * Edges spanning several layers pass through placeholder nodes, which keep room for them
+ * and let crossings be counted layer by layer.
+ */
+export function layeredLayout(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions): LayoutResult {
+    const positions = new Map<string, { x: number; y: number }>();
+    if (nodes.length === 0) return { positions, width: 0, height: 0 };
+
+    const layerSpacing = options.layerSpacing ?? DEFAULT_LAYER_SPACING;
+    const nodeSpacing = options.nodeSpacing ?? DEFAULT_NODE_SPACING;
+    const horizontal = options.direction === 'LR' || options.direction === 'RL';
+
+    const known = new Set(nodes.map(node => node.id));
+    const links = dedupeEdges(edges.filter(edge => known.has(edge.from) && known.has(edge.to) && edge.from !== edge.to));
+    const acyclic = breakCycles(nodes.map(node => node.id), links);
+    const layerOf = assignLayers(nodes.map(node => node.id), acyclic);
+    const proper = splitLongEdges(nodes.map(node => node.id), acyclic, layerOf);
+    const layers = orderLayers(proper.ids, proper.edges, layerOf);
+
+    // Size along the flow direction (thickness) and across it (breadth); placeholders take no space of their own
+    const sizeOf = new Map(nodes.map(node => [node.id, node]));
+    const thickness = (id: string) => !sizeOf.has(id) ? 0 : horizontal ? sizeOf.get(id)!.width : sizeOf.get(id)!.height;
+    const breadth = (id: string) => !sizeOf.has(id) ? 0 : horizontal ? sizeOf.get(id)!.height : sizeOf.get(id)!.width;
+
+    const layerBreadths = layers.map(layer => layer.reduce((sum, id) => sum + breadth(id), 0) + nodeSpacing * (layer.length - 1));
+    const totalBreadth = Math.max(...layerBreadths);
+
+    let flowOffset = 0;
+    layers.forEach((layer, index) => {
+        const layerThickness = Math.max(...layer.map(thickness));
+        // Center each layer across the widest one
+        let crossOffset = (totalBreadth - layerBreadths[index]) / 2;
+        for (const id of layer) {
+            const flow = flowOffset + layerThickness / 2;
+            const cross = crossOffset + breadth(id) / 2;
+            if (sizeOf.has(id)) positions.set(id, horizontal ? { x: flow, y: cross } : { x: cross, y: flow });
+            crossOffset += breadth(id) + nodeSpacing;
+        }
+        flowOffset += layerThickness + layerSpacing;
+    });
+    const totalThickness = flowOffset - layerSpacing;
+
+    const width = horizontal ? totalThickness : totalBreadth;
+    const height = horizontal ? totalBreadth : totalThickness;
+
+    // Bottom-to-top and right-to-left layouts are mirrored top-to-bottom and left-to-right ones
+    if (options.direction === 'BT' || options.direction === 'RL') {
+        for (const position of positions.values()) {
+            if (options.direction === 'BT') position.y = height - position.y;
+            if (options.direction === 'RL') position.x = width - position.x;
+        }
+    }
+
+    return { positions, width, height };
+}
+
+/**
+ * Counts the crossings between edges joining two adjacent layers
+ */
+export function countCrossings(upper: string[], lower: string[], edges: LayoutEdge[]): number {
+    const upperIndex = new Map(upper.map((id, index) => [id, index]));
+    const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+    const between = edges
+        .filter(edge => upperIndex.has(edge.from) && lowerIndex.has(edge.to))
+        .map(edge => [upperIndex.get(edge.from)!, lowerIndex.get(edge.to)!]);
+
+    let crossings = 0;
+    for (let i = 0; i < between.length; i++) {
+        for (let j = i + 1; j < between.length; j++) {
+            const [a1, b1] = between[i];
+            const [a2, b2] = between[j];
+            if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+        }
+    }
+    return crossings;
+}
+
+function dedupeEdges(edges: LayoutEdge[]): LayoutEdge[] {
+    const seen = new Set<string>();
+    return edges.filter(edge => {
+        const key = `${edge.from}\u0000${edge.to}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Reverses the edges that close a cycle, found by depth-first search in node order
+ */
+function breakCycles(ids: string[], edges: LayoutEdge[]): LayoutEdge[] {
+    const outgoing = new Map<string, LayoutEdge[]>(ids.map(id => [id, []]));
+    for (const edge of edges) outgoing.get(edge.from)!.push(edge);
+
+    const state = new Map<string, 'active' | 'done'>();
+    const reversed = new Set<LayoutEdge>();
+    const visit = (id: string) => {
+        state.set(id, 'active');
+        for (const edge of outgoing.get(id)!) {
+            const next = state.get(edge.to);
+            if (next === 'active') {
+                reversed.add(edge);
+            } else if (!next) {
+                visit(edge.to);
+            }
+        }
+        state.set(id, 'done');
+    };
+    for (const id of ids) {
+        if (!state.has(id)) visit(id);
+    }
+
+    return dedupeEdges(edges.map(edge => reversed.has(edge) ? { from: edge.to, to: edge.from } : edge));
+}
+
+/**
+ * Puts every node one layer below its lowest predecessor (longest-path layering)
+ */
+function assignLayers(ids: string[], edges: LayoutEdge[]): Map<string, number> {
+    const incoming = new Map<string, number>(ids.map(id => [id, 0]));
+    const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const edge of edges) {
+        incoming.set(edge.to, incoming.get(edge.to)! + 1);
+        outgoing.get(edge.from)!.push(edge.to);
+    }
+
+    const layerOf = new Map<string, number>(ids.map(id => [id, 0]));
+    const queue = ids.filter(id => incoming.get(id) === 0);
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        for (const next of outgoing.get(id)!) {
+            layerOf.set(next, Math.max(layerOf.get(next)!, layerOf.get(id)! + 1));
+            incoming.set(next, incoming.get(next)! - 1);
+            if (incoming.get(next) === 0) queue.push(next);
+        }
+    }
+    return layerOf;
+}
+
+/**
+ * Replaces every edge spanning more than one layer with a chain of placeholder nodes, one per layer crossed.
+ * Placeholders are added to layerOf.
+ */
+function splitLongEdges(ids: string[], edges: LayoutEdge[], layerOf: Map<string, number>): { ids: string[]; edges: LayoutEdge[] } {
+    const allIds = [...ids];
+    const split: LayoutEdge[] = [];
+    let placeholders = 0;
+
+    for (const edge of edges) {
+        let from = edge.from;
+        for (let layer = layerOf.get(edge.from)! + 1; layer < layerOf.get(edge.to)!; layer++) {
+            const placeholder = `${PLACEHOLDER_PREFIX}${placeholders++}`;
+            layerOf.set(placeholder, layer);
+            allIds.push(placeholder);
+            split.push({ from, to: placeholder });
+            from = placeholder;
+        }
+        split.push({ from, to: edge.to });
+    }
+    return { ids: allIds, edges: split };
+}
+
+/**
+ * Orders the nodes of each layer with the barycenter heuristic followed by swapping neighbours,
+ * keeping the ordering with the fewest crossings
+ */
+function orderLayers(ids: string[], edges: LayoutEdge[], layerOf: Map<string, number>): string[][] {
+    const layerCount = Math.max(...Array.from(layerOf.values())) + 1;
+    const layers: string[][] = Array.from({ length: layerCount }, () => []);
+    for (const id of ids) layers[layerOf.get(id)!].push(id);
+
+    const neighbours = (id: string, above: boolean) => edges
+        .filter(edge => above ? edge.to === id : edge.from === id)
+        .map(edge => above ? edge.from : edge.to);
+    const totalCrossings = (candidate: string[][]) => candidate
+        .slice(1)
+        .reduce((sum, layer, index) => sum + countCrossings(candidate[index], layer, edges), 0);
+
+    let best = layers.map(layer => [...layer]);
+    let bestCrossings = totalCrossings(best);
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+        // Downward passes order each layer by the layer above it, upward passes by the layer below
+        const downward = sweep % 2 === 0;
+        const indexes = Array.from({ length: layerCount }, (_, index) => index);
+        if (!downward) indexes.reverse();
+
+        const position = new Map<string, number>();
+        layers.forEach(layer => layer.forEach((id, index) => position.set(id, index)));
+
+        for (const layerIndex of indexes.slice(1)) {
+            const layer = layers[layerIndex];
+            const barycenter = new Map(layer.map((id, index) => {
+                const fixed = neighbours(id, downward).map(other => position.get(other)!);
+                // Nodes without neighbours on the fixed side keep their place
+                return [id, fixed.length > 0 ? fixed.reduce((sum, value) => sum + value, 0) / fixed.length : index];
+            }));
+            layers[layerIndex] = [...layer].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+            layers[layerIndex].forEach((id, index) => position.set(id, index));
+        }
+        transpose(layers, edges);
+
+        const crossings = totalCrossings(layers);
+        if (crossings < bestCrossings) {
+            best = layers.map(layer => [...layer]);
+            bestCrossings = crossings;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Swaps neighbouring nodes within a layer while that reduces the crossings with the adjacent layers
+ */
+function transpose(layers: string[][], edges: LayoutEdge[]): void {
+    const crossingsAround = (layerIndex: number) =>
+        (layerIndex > 0 ? countCrossings(layers[layerIndex - 1], layers[layerIndex], edges) : 0)
+        + (layerIndex < layers.length - 1 ? countCrossings(layers[layerIndex], layers[layerIndex + 1], edges) : 0);
+
+    let improved = true;
+    for (let round = 0; round < TRANSPOSE_ROUNDS && improved; round++) {
+        improved = false;
+        layers.forEach((layer, layerIndex) => {
+            for (let i = 0; i < layer.length - 1; i++) {
+                const before = crossingsAround(layerIndex);
+                [layer[i], layer[i + 1]] = [layer[i + 1], layer[i]];
+                if (crossingsAround(layerIndex) < before) {
+                    improved = true;
+                } else {
+                    [layer[i], layer[i + 1]] = [layer[i + 1], layer[i]];
+                }
+            }
+        });
+    }
+}
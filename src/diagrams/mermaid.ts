@@ -0,0 +1,374 @@
+import { DiagramDirection, DiagramEdge, DiagramGraph, DiagramNode } from '../types/diagram-types';
+import { DiagramParseError, upsertNode } from './diagram-graph';
+
+// Node shape delimiters and the Miro shape each one maps to.
+// Longer openers come first so that "((" is not read as "(".
+const NODE_SHAPES: { open: string; close: string; shape: string }[] = [
+    { open: '(((', close: ')))', shape: 'circle' },
+    { open: '([', close: '])', shape: 'round_rectangle' },
+    { open: '((', close: '))', shape: 'circle' },
+    { open: '[[', close: ']]', shape: 'flow_chart_predefined_process' },
+    { open: '[(', close: ')]', shape: 'can' },
+    { open: '[/', close: '/]', shape: 'parallelogram' },
+    { open: '[/', close: '\\]', shape: 'trapezoid' },
+    { open: '[\\', close: '\\]', shape: 'parallelogram' },
+    { open: '[\\', close: '/]', shape: 'trapezoid' },
+    { open: '{{', close: '}}', shape: 'hexagon' },
+    { open: '(', close: ')', shape: 'round_rectangle' },
+    { open: '[', close: ']', shape: 'rectangle' },
+    { open: '{', close: '}', shape: 'rhombus' },
+    { open: '>', close: ']', shape: 'right_arrow' }
+];
+
+// Mermaid delimiters for each Miro shape on export; shapes without a counterpart become rectangles
+const MERMAID_SHAPES: Record<string, [string, string]> = {
+    rectangle: ['[', ']'],
+    flow_chart_process: ['[', ']'],
+    round_rectangle: ['(', ')'],
+    flow_chart_terminator: ['([', '])'],
+    circle: ['((', '))'],
+    flow_chart_connector: ['((', '))'],
+    rhombus: ['{', '}'],
+    flow_chart_decision: ['{', '}'],
+    hexagon: ['{{', '}}'],
+    flow_chart_preparation: ['{{', '}}'],
+    parallelogram: ['[/', '/]'],
+    flow_chart_input_output: ['[/', '/]'],
+    trapezoid: ['[/', '\\]'],
+    can: ['[(', ')]'],
+    flow_chart_magnetic_disk: ['[(', ')]'],
+    flow_chart_predefined_process: ['[[', ']]'],
+    right_arrow: ['>', ']']
+};
+
+const DIRECTIONS: Record<string, DiagramDirection> = { TB: 'TB', TD: 'TB', BT: 'BT', LR: 'LR', RL: 'RL' };
+
+// Arrowheads at either end of a link
+const LINK_CAPS: Record<string, string> = { '>': 'arrow', '<': 'arrow', 'o': 'filled_oval', 'x': 'none' };
+
+// Styling and interaction statements that have no equivalent on the board
+const IGNORED_STATEMENTS = /^(classDef|class|style|linkStyle|click|accTitle|accDescr)\b/;
+
+const NODE_ID = /^[\p{L}\p{N}_]+(?:[.-][\p{L}\p{N}_]+)*/u;
+
+type ParsedLink = Omit<DiagramEdge, 'from' | 'to'>;
+
+type ParserState = {
+    graph: DiagramGraph;
+    nodes: Map<string, DiagramNode>;
+    // Subgraphs enclosing the current statement, innermost last
+    openClusters: string[];
+    warn: (message: string) => void;
+};
+
+/**
+ * Parses a Mermaid flowchart ("flowchart" or "graph") into a diagram graph.
+ * Supports node shapes, chained and "&"-grouped links, link labels in both notations,
+ * and nested subgraphs. Styling statements are skipped with a warning.
+ * @throws DiagramParseError with the offending line when the source is not a valid flowchart
+ */
+export function parseMermaid(source: string): DiagramGraph {
+    const graph: DiagramGraph = { direction: 'TB', nodes: [], edges: [], clusters: [], warnings: [] };
+    const openClusters: string[] = [];
+    const warn = (message: string) => {
+        if (!graph.warnings.includes(message)) graph.warnings.push(message);
+    };
+    const state: ParserState = { graph, nodes: new Map(), openClusters, warn };
+    let headerSeen = false;
+
+    const lines = source.split(/\r?\n/);
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        if (line.trim().startsWith('%%')) return;
+
+        for (const statement of splitStatements(line)) {
+            if (!headerSeen) {
+                const header = statement.match(/^(?:flowchart|graph)(?:\s+(\S+))?$/i);
+                if (!header) {
+                    throw new DiagramParseError(`Expected "flowchart" or "graph" but found "${statement}". Only Mermaid flowcharts are supported.`, lineNumber);
+                }
+                if (header[1]) {
+                    const direction = DIRECTIONS[header[1].toUpperCase()];
+                    if (!direction) throw new DiagramParseError(`Unknown direction "${header[1]}". Use TB, TD, BT, LR or RL.`, lineNumber);
+                    graph.direction = direction;
+                }
+                headerSeen = true;
+                continue;
+            }
+
+            if (/^subgraph\b/.test(statement)) {
+                const cluster = parseSubgraphHeader(statement.slice('subgraph'.length).trim(), lineNumber);
+                if (graph.clusters.some(existing => existing.id === cluster.id)) {
+                    throw new DiagramParseError(`Subgraph "${cluster.id}" is defined twice`, lineNumber);
+                }
+                graph.clusters.push({ ...cluster, parentId: openClusters[openClusters.length - 1] });
+                openClusters.push(cluster.id);
+            } else if (statement === 'end') {
+                if (!openClusters.pop()) throw new DiagramParseError('"end" without an open subgraph', lineNumber);
+            } else if (/^direction\s/.test(statement)) {
+                warn('Subgraph directions are ignored; the whole diagram uses the direction from its first line.');
+            } else if (IGNORED_STATEMENTS.test(statement)) {
+                warn(`"${statement.split(/\s/)[0]}" statements are not supported and were ignored.`);
+            } else {
+                parseChain(state, statement, lineNumber);
+            }
+        }
+    });
+
+    if (!headerSeen) throw new DiagramParseError('The diagram is empty', 1);
+    if (openClusters.length > 0) {
+        throw new DiagramParseError(`Subgraph "${openClusters[openClusters.length - 1]}" is missing its "end"`, lines.length);
+    }
+
+    // Links to a subgraph as a whole have no counterpart in Miro, where connectors join items
+    const clusterIds = new Set(graph.clusters.map(cluster => cluster.id));
+    if (graph.edges.some(edge => clusterIds.has(edge.from) || clusterIds.has(edge.to))) {
+        warn('Links to or from a subgraph were skipped; link to a node inside it instead.');
+        graph.edges = graph.edges.filter(edge => !clusterIds.has(edge.from) && !clusterIds.has(edge.to));
+        graph.nodes = graph.nodes.filter(node => !clusterIds.has(node.id));
+    }
+
+    return graph;
+}
+
+/**
+ * Writes a diagram graph as a Mermaid flowchart. Labels are always quoted, so any text survives.
+ * Nested clusters are written as nested subgraphs.
+ */
+export function toMermaid(graph: DiagramGraph): string {
+    const lines = [`flowchart ${graph.direction}`];
+
+    // Subgraphs come first, so every node is declared in its own subgraph before links mention it
+    const writeNodes = (clusterId: string | undefined, indent: string) => {
+        for (const cluster of graph.clusters.filter(candidate => candidate.parentId === clusterId)) {
+            lines.push(`${indent}subgraph ${cluster.id} ["${escapeLabel(cluster.title)}"]`);
+            writeNodes(cluster.id, indent + '    ');
+            lines.push(`${indent}end`);
+        }
+        for (const node of graph.nodes.filter(candidate => candidate.clusterId === clusterId)) {
+            const [open, close] = MERMAID_SHAPES[node.shape] || MERMAID_SHAPES.rectangle;
+            lines.push(`${indent}${node.id}${open}"${escapeLabel(node.label) || ' '}"${close}`);
+        }
+    };
+    writeNodes(undefined, '    ');
+
+    for (const edge of graph.edges) {
+        let { from, to } = edge;
+        let start = mermaidHead(edge.startCap);
+        let end = mermaidHead(edge.endCap);
+        // Mermaid links with a single head must point forwards
+        if (start && !end) {
+            [from, to, start, end] = [to, from, '', start];
+        }
+
+        let link: string;
+        if (edge.hidden) {
+            link = '~~~';
+        } else {
+            const body = edge.strokeStyle !== 'normal' ? '-.-' : edge.thick ? (end ? '==' : '===') : (end ? '--' : '---');
+            link = `${start ? (end === '>' ? '<' : end) : ''}${body}${end}`;
+        }
+        const label = edge.label && !edge.hidden ? `|"${escapeLabel(edge.label).replace(/\|/g, '#124;')}"|` : '';
+        lines.push(`    ${from} ${link}${label} ${to}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Maps a Miro stroke cap to the Mermaid link head closest to it
+ */
+function mermaidHead(cap: string): string {
+    if (cap === 'none') return '';
+    return /oval/.test(cap) ? 'o' : '>';
+}
+
+function escapeLabel(label: string): string {
+    return label.replace(/"/g, '#quot;').replace(/\n/g, '<br>');
+}
+
+/**
+ * Parses "A --> B & C -- label --- D" into nodes and edges
+ */
+function parseChain(state: ParserState, statement: string, lineNumber: number): void {
+    const { graph, nodes, openClusters, warn } = state;
+    let pos = 0;
+    const skipSpace = () => {
+        while (pos < statement.length && /\s/.test(statement[pos])) pos++;
+    };
+    const fail = (message: string): never => {
+        throw new DiagramParseError(`${message} at "${statement.slice(pos, pos + 30)}"`, lineNumber);
+    };
+
+    const parseNode = (): string => {
+        skipSpace();
+        const match = statement.slice(pos).match(NODE_ID);
+        if (!match) return fail('Expected a node ID');
+        const id = match[0];
+        pos += id.length;
+
+        const fields: Partial<DiagramNode> = {};
+        const opener = NODE_SHAPES.find(candidate => statement.startsWith(candidate.open, pos));
+        if (opener) {
+            pos += opener.open.length;
+            const closers = NODE_SHAPES.filter(candidate => candidate.open === opener.open);
+
+            let textEnd: number;
+            let closer: typeof closers[number] | undefined;
+            if (statement[pos] === '"') {
+                const quoteEnd = statement.indexOf('"', pos + 1);
+                if (quoteEnd < 0) return fail(`Unterminated quoted label for node ${id}`);
+                fields.label = statement.slice(pos + 1, quoteEnd);
+                let after = quoteEnd + 1;
+                while (/\s/.test(statement[after] || '')) after++;
+                closer = closers.find(candidate => statement.startsWith(candidate.close, after));
+                textEnd = after;
+            } else {
+                textEnd = -1;
+                for (const candidate of closers) {
+                    const found = statement.indexOf(candidate.close, pos);
+                    if (found >= 0 && (textEnd < 0 || found < textEnd)) {
+                        textEnd = found;
+                        closer = candidate;
+                    }
+                }
+                fields.label = statement.slice(pos, textEnd);
+            }
+            if (!closer || textEnd < 0) return fail(`Missing "${closers[0].close}" to close the label of node ${id}`);
+
+            fields.label = cleanLabel(fields.label);
+            fields.shape = closer.shape;
+            pos = textEnd + closer.close.length;
+        }
+
+        const classMatch = statement.slice(pos).match(/^:::[\w-]+/);
+        if (classMatch) {
+            pos += classMatch[0].length;
+            warn('Class assignments (":::") are not supported and were ignored.');
+        }
+
+        const node = upsertNode(graph, nodes, id, fields);
+        // A node belongs to the first subgraph it appears in
+        if (!node.clusterId && openClusters.length > 0) node.clusterId = openClusters[openClusters.length - 1];
+        return id;
+    };
+
+    const parseNodeGroup = (): string[] => {
+        const ids = [parseNode()];
+        skipSpace();
+        while (statement[pos] === '&') {
+            pos++;
+            ids.push(parseNode());
+            skipSpace();
+        }
+        return ids;
+    };
+
+    const parseLink = (): ParsedLink => {
+        const rest = statement.slice(pos);
+
+        const invisible = rest.match(/^~{3,}/);
+        if (invisible) {
+            pos += invisible[0].length;
+            return { strokeStyle: 'normal', startCap: 'none', endCap: 'none', hidden: true };
+        }
+
+        const arrow = rest.match(/^([<ox])?(-{2,}|={2,}|-\.+-)([>ox])?/) || rest.match(/^([<ox])?(-\.)(?=\s)/);
+        if (!arrow) return fail('Expected a link such as "-->"');
+        const [matched, start, body] = arrow;
+        let head = arrow[3];
+        pos += matched.length;
+
+        const dotted = body.includes('.');
+        const thick = body.startsWith('=');
+        let label: string | undefined;
+
+        // "-- text -->", "== text ==>" and "-. text .->" carry the label inside the link
+        if (!head && (body === '--' || body === '==' || body === '-.')) {
+            const closing = dotted ? /\.+-([>ox])?/ : thick ? /={2,}([>ox])|={3,}/ : /-{2,}([>ox])|-{3,}/;
+            const close = statement.slice(pos).match(closing);
+            if (!close || close.index === undefined) return fail('Missing the end of the labelled link');
+            label = statement.slice(pos, pos + close.index).trim();
+            head = close[1];
+            pos += close.index + close[0].length;
+        }
+
+        skipSpace();
+        if (statement[pos] === '|') {
+            const labelEnd = statement.indexOf('|', pos + 1);
+            if (labelEnd < 0) return fail('Missing "|" to close the link label');
+            label = statement.slice(pos + 1, labelEnd);
+            pos = labelEnd + 1;
+        }
+
+        if (start === 'x' || head === 'x') warn('Miro has no cross arrowhead; links ending in "x" were drawn without one.');
+
+        const link: ParsedLink = {
+            strokeStyle: dotted ? 'dotted' : 'normal',
+            startCap: start ? LINK_CAPS[start] : 'none',
+            endCap: head ? LINK_CAPS[head] : 'none'
+        };
+        if (thick) link.thick = true;
+        if (label) link.label = cleanLabel(label);
+        return link;
+    };
+
+    let previous = parseNodeGroup();
+    while (pos < statement.length) {
+        const link = parseLink();
+        const next = parseNodeGroup();
+        for (const from of previous) {
+            for (const to of next) {
+                graph.edges.push({ from, to, ...link });
+            }
+        }
+        previous = next;
+    }
+}
+
+/**
+ * Reads the id and title of "subgraph id [Title]", "subgraph "Title"" or "subgraph Title"
+ */
+function parseSubgraphHeader(header: string, lineNumber: number): { id: string; title: string } {
+    if (!header) throw new DiagramParseError('A subgraph needs an ID or a title', lineNumber);
+
+    const withTitle = header.match(/^([^\s[\]"]+)\s*\[(.*)\]$/);
+    if (withTitle) return { id: withTitle[1], title: cleanLabel(withTitle[2]) };
+
+    const title = cleanLabel(header);
+    return { id: title, title };
+}
+
+/**
+ * Splits a line into statements at semicolons outside quoted text
+ */
+function splitStatements(line: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        if (char === ';' && !quoted) {
+            statements.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    statements.push(current);
+    return statements.map(statement => statement.trim()).filter(statement => statement.length > 0);
+}
+
+/**
+ * Strips quotes and Markdown backticks, and turns <br> and entity codes such as #124; into text
+ */
+function cleanLabel(label: string): string {
+    let text = label.trim();
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) text = text.slice(1, -1);
+    if (text.length >= 2 && text.startsWith('`') && text.endsWith('`')) text = text.slice(1, -1);
+    return text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/#quot;/g, '"')
+        .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .trim();
+}
@@ -1,5 +1,10 @@
-import { FastMCP, ServerOptions } from 'fastmcp';
-import { port } from './config';
+import { FastMCP, ServerOptions, Context } from 'fastmcp';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IncomingMessage } from 'http';
+import { port, transportType, oauthEnabled, miroBoardId } from './config';
+import { runWithMiroToken, extractSessionToken, hasDefaultCredentials, isUsableToken } from './client/credentials';
+import { mountOAuthRoutes, startOAuthServer } from './auth/oauth-routes';
+import { wrapRequestHandler } from './utils/http-server';
 import { 
     boardOperationsTool, 
     itemPositionOperationsTool, 
@@ -7,14 +12,17 @@ import {
     bulkItemCreationTool
 } from './tools/core-tools';
 import { contentItemOperationsTool } from './tools/content-tools';
+import { cardOperationsTool } from './tools/card-tools';
 import { mediaItemOperationsTool } from './tools/media-tools';
 import { 
     frameOperationsTool,
     groupOperationsTool, 
-    // tagItemOperationsTool, 
-    // tagOperationsTool,
+    tagItemOperationsTool, 
+    tagOperationsTool,
 } from './tools/organization-tools';
 import { connectorOperationsTool } from './tools/connector-tools';
+import { diagramOperationsTool } from './tools/diagram-tools';
+import { layoutOperationsTool, overlapDetectionTool } from './tools/layout-tools';
 import { collaborationOperationsTool, appCardOperationsTool } from './tools/collaboration-tools';
 import { 
     hierarchyOperationsTool
@@ -23,31 +31,103 @@ import {
     checkForSimilarContentTool,
     searchTool
 } from './tools/search-tools';
+import {
+    boardResource,
+    frameResource,
+    itemResource,
+    boardResourceUri,
+    onResourcesUpdated
+} from './resources/board-resources';
+import { trackResourceSession, untrackResourceSession, notifyResourceSessions, findRequestSession } from './resources/resource-sessions';
+import { boardPrompts } from './prompts/board-prompts';
 import { ErrorResponse } from './utils/api-utils';
 import { ToolDefinition } from './types/tool-types';
+import { ResourceTemplateDefinition } from './types/resource-types';
+
+// In stdio mode stdout carries the MCP protocol stream, so any console chatter
+// from the tools must go to stderr instead or it will corrupt the protocol
+if (transportType === 'stdio') {
+    console.log = console.error;
+    console.info = console.error;
+    console.debug = console.error;
+}
+
+// Per-session authentication data: the client's own Miro token, if it sent one
+type MiroSessionAuth = {
+    miroToken?: string;
+};
+
+// The HTTP request being handled, tracked for every request the HTTP transports handle. FastMCP keeps each session's
+// auth to itself and gives resource loads no session, so sessions are traced back to requests through it.
+const connectionRequests = new AsyncLocalStorage<IncomingMessage>();
 
 // Helper function to adapt our tools to the FastMCP interface
-// This handles the type conversion automatically
+// This handles the type conversion automatically and runs the tool with the session's Miro token
 function adaptTool<T>(tool: ToolDefinition<T, string | ErrorResponse>) {
     return {
         name: tool.name,
         description: tool.description,
         parameters: tool.parameters,
-        execute: async (args: T) => {
-            const result = await tool.execute(args);
+        execute: async (args: T, context: Context<MiroSessionAuth>) => {
+            const result = await runWithMiroToken(context.session?.miroToken, () => tool.execute(args));
             // If the result is an ErrorResponse, convert it to a string
-            if (typeof result === 'object' && result !== null && 'error' in result) {
-                return JSON.stringify(result);
-            }
-            return result;
+            return toText(result);
         }
     };
 }
 
+// Converts a tool or resource result to text, serializing ErrorResponse objects
+function toText(result: string | ErrorResponse): string {
+    return typeof result === 'object' && result !== null && 'error' in result ? JSON.stringify(result) : result;
+}
+
+// Runs a resource load with the token of the session that requested it, so it reads boards as that user and sees
+// the boards they permitted. Over stdio there is one session, which uses the default credentials like its tools.
+function loadAsSession(resource: ResourceTemplateDefinition, args: Record<string, string>): Promise<string | ErrorResponse> {
+    const request = connectionRequests.getStore();
+    if (!request) return resource.load(args);
+
+    const session = findRequestSession(request);
+    if (!session) {
+        // Never fall back to the server's own credentials for a client that may have connected with its own token
+        return Promise.resolve({ error: 'The MCP session of this request is not connected yet; retry once it has initialized.', status: 503, details: '' });
+    }
+    return runWithMiroToken(session.miroToken, () => resource.load(args));
+}
+
+// Helper function to adapt our resource templates to the FastMCP interface
+function adaptResourceTemplate(resource: ResourceTemplateDefinition) {
+    return {
+        name: resource.name,
+        description: resource.description,
+        uriTemplate: resource.uriTemplate,
+        mimeType: resource.mimeType,
+        arguments: resource.arguments,
+        load: async (args: Record<string, string>) => ({ text: toText(await loadAsSession(resource, args)) })
+    };
+}
+
 // Create the server with enhanced error handling
-const server = new FastMCP({
+const server = new FastMCP<MiroSessionAuth>({
     name: 'Miro MCP Server (Explicit)',
     version: '0.2.0',
+    // Each SSE or HTTP stream client may connect with its own Miro token so it acts with its own identity and permissions
+    authenticate: async (request: IncomingMessage): Promise<MiroSessionAuth> => {
+        const miroToken = extractSessionToken(request);
+        if (!miroToken && !hasDefaultCredentials()) {
+            throw new Response(null, {
+                status: 401,
+                statusText: 'Miro token required: send an X-Miro-Token or Authorization: Bearer header'
+            });
+        }
+        if (miroToken && !isUsableToken(miroToken)) {
+            throw new Response(null, {
+                status: 401,
+                statusText: 'Unknown Miro connection key: authorize again at /oauth/authorize'
+            });
+        }
+        return { miroToken };
+    },
     onToolCall: (toolName: string, params: Record<string, unknown>) => {
         console.log('\n=== Tool Call Details ===');
         console.log(`Tool Name: ${toolName}`);
@@ -92,7 +172,7 @@ const server = new FastMCP({
     reconnectTimeout: 10000, // Add reconnect timeout
     maxConnections: 50, // Limit max connections
     reconnectAttempts: 5 // Limit reconnection attempts
-} as ServerOptions<undefined>);
+} as ServerOptions<MiroSessionAuth>);
 
 /**
  * =====================================================
@@ -163,19 +243,52 @@ server.addTool(adaptTool(appCardOperationsTool));
 server.addTool(adaptTool(boardOperationsTool)); 
 server.addTool(adaptTool(bulkItemCreationTool)); 
 server.addTool(adaptTool(contentItemOperationsTool));
+server.addTool(adaptTool(cardOperationsTool));
 server.addTool(adaptTool(itemPositionOperationsTool));
 server.addTool(adaptTool(itemDeletionOperationsTool));
 
 // 5. Organization and Structure Tools
 server.addTool(adaptTool(frameOperationsTool)); 
 server.addTool(adaptTool(connectorOperationsTool));
+server.addTool(adaptTool(diagramOperationsTool));
+server.addTool(adaptTool(layoutOperationsTool));
+server.addTool(adaptTool(overlapDetectionTool));
 server.addTool(adaptTool(groupOperationsTool));
-// server.addTool(adaptTool(tagOperationsTool)); // Removed due to API issues
-// server.addTool(adaptTool(tagItemOperationsTool)); // Removed due to API issues
+server.addTool(adaptTool(tagOperationsTool));
+server.addTool(adaptTool(tagItemOperationsTool));
 
 // 6. Collaboration Tools
 server.addTool(adaptTool(collaborationOperationsTool));
 
+// 7. Board Context Resources
+// Clients can attach these as context instead of calling a tool; the default board is listed directly
+server.addResource({
+    uri: boardResourceUri(miroBoardId as string),
+    name: 'Default Miro board',
+    description: boardResource.description,
+    mimeType: boardResource.mimeType,
+    load: async () => ({ text: toText(await loadAsSession(boardResource, { board_id: miroBoardId as string })) })
+});
+// Templates are matched in order and {board_id} would also match ".../frame/...", so the board comes last
+server.addResourceTemplate(adaptResourceTemplate(frameResource));
+server.addResourceTemplate(adaptResourceTemplate(itemResource));
+server.addResourceTemplate(adaptResourceTemplate(boardResource));
+
+// 8. Workflow Prompts
+// Guided entry points that expand into step-by-step instructions using the tools above
+for (const prompt of boardPrompts) {
+    server.addPrompt(prompt);
+}
+
+// Tell connected clients when our own tools change board contents they may have attached.
+// Sessions are matched to the connection request that opened them; stdio sessions use the default credentials.
+server.on('connect', ({ session }) => {
+    const request = connectionRequests.getStore();
+    trackResourceSession(session.server, request && extractSessionToken(request));
+});
+server.on('disconnect', ({ session }) => untrackResourceSession(session.server));
+onResourcesUpdated(notifyResourceSessions);
+
 // Set up enhanced process error handlers to prevent crashing
 process.on('uncaughtException', (error) => {
     console.error('Uncaught Exception:', error);
@@ -227,19 +340,53 @@ process.on('unhandledRejection', (reason, promise) => {
 });
 
 // Start the server
-console.log('Starting Miro MCP Server (Explicit)...');
+console.log(`Starting Miro MCP Server (Explicit) with ${transportType} transport...`);
 try {
-    // Start server
-    server.start({
-        transportType: 'sse',
-        sse: {
-            endpoint: '/sse',
-            port: port
+    // Start server with the configured transport
+    if (transportType !== 'stdio') {
+        wrapRequestHandler(port, handler => (req, res) => connectionRequests.run(req, () => handler(req, res)));
+    }
+    // The OAuth routes share the MCP server's HTTP port
+    if (oauthEnabled && transportType !== 'stdio') {
+        mountOAuthRoutes(port);
+    }
+
+    if (transportType === 'stdio') {
+        server.start({
+            transportType: 'stdio'
+        });
+        console.log('Miro MCP Server (Explicit) started successfully on stdio.');
+        // A stdio client cannot use the OAuth routes itself, but until MIRO_DEFAULT_CONNECTION_KEY names an authorized
+        // grant the user needs them in a browser to obtain that key; after that no extra listener is kept open
+        if (oauthEnabled && !hasDefaultCredentials()) {
+            startOAuthServer(port).catch(error => console.error(`Could not serve the OAuth routes on port ${port}:`, error));
         }
-    });
+    } else if (transportType === 'httpStream') {
+        server.start({
+            transportType: 'httpStream',
+            httpStream: {
+                endpoint: '/mcp',
+                port: port
+            }
+        });
+        console.log('Miro MCP Server (Explicit) started successfully on port ' + port + '.');
+        console.log(`Server URL: http://localhost:${port}/mcp`);
+    } else {
+        server.start({
+            transportType: 'sse',
+            sse: {
+                endpoint: '/sse',
+                port: port
+            }
+        });
+        console.log('Miro MCP Server (Explicit) started successfully on port ' + port + '.');
+        console.log(`Server URL: http://localhost:${port}/sse`);
+    }
+
+    if (oauthEnabled) {
+        console.log(`OAuth authorization URL: http://localhost:${port}/oauth/authorize`);
+    }
 
-    console.log('Miro MCP Server (Explicit) started successfully on port ' + port + '.');
-    console.log(`Server URL: http://localhost:${port}/sse`);
     console.log('All tools are now fully implemented');
     
     // Display enhanced positioning system information
@@ -0,0 +1,161 @@
+import { PromptDefinition } from '../types/prompt-types';
+import { miroBoardId } from '../config';
+import { boardResourceUri } from '../resources/board-resources';
+import { bulkItemCreationTool, itemPositionOperationsTool } from '../tools/core-tools';
+import { contentItemOperationsTool } from '../tools/content-tools';
+import { frameOperationsTool } from '../tools/organization-tools';
+import { connectorOperationsTool } from '../tools/connector-tools';
+import { hierarchyOperationsTool } from '../tools/state-tools';
+import { searchTool, checkForSimilarContentTool } from '../tools/search-tools';
+
+// Tool names are taken from the tool definitions so the instructions always match what the server exposes
+
+const boardIdArgument = {
+    name: 'board_id',
+    description: 'Board to work on. Omit to use the default board.'
+};
+
+/**
+ * Tells the model which board to pass to the tools, if one was given
+ */
+function boardInstruction(boardId: string | undefined): string {
+    return boardId
+        ? `Pass board_id "${boardId}" to every tool call.`
+        : 'Work on the default board: leave board_id out of every tool call.';
+}
+
+const RETROSPECTIVE_FORMATS: Record<string, string[]> = {
+    went_well: ['What went well', 'What could be improved', 'Action items'],
+    start_stop_continue: ['Start', 'Stop', 'Continue'],
+    mad_sad_glad: ['Mad', 'Sad', 'Glad']
+};
+
+// Prompt: Retrospective board
+export const retrospectivePrompt: PromptDefinition = {
+    name: 'run_retrospective',
+    description: 'Sets up a retrospective on the board: a frame with one column per retrospective category, seeded with sticky notes, then a summary of the outcome.',
+    arguments: [
+        { name: 'topic', description: 'What the retrospective is about, e.g. "Sprint 14"', required: true },
+        { name: 'format', description: 'Column layout: went_well (default), start_stop_continue or mad_sad_glad' },
+        { name: 'frame_id', description: 'Existing frame to run the retrospective in. Omit to create a new frame.' },
+        boardIdArgument
+    ],
+    load: async ({ topic, format, frame_id, board_id }) => {
+        const columns = RETROSPECTIVE_FORMATS[format || 'went_well'];
+        if (!columns) {
+            throw new Error(`Unknown retrospective format "${format}". Use one of: ${Object.keys(RETROSPECTIVE_FORMATS).join(', ')}`);
+        }
+        const columnList = columns.map((column, index) => `${index + 1}. "${column}"`).join('\n');
+
+        return `Run a retrospective about "${topic}" on the Miro board. ${boardInstruction(board_id)}
+
+Columns:
+${columnList}
+
+Steps:
+1. ${frame_id
+        ? `Use the existing frame ${frame_id}. Read it first with ${hierarchyOperationsTool.name} (item_id "${frame_id}", include_content_summaries true) so you build on what is already there.`
+        : `Create a frame titled "Retrospective: ${topic}" with ${frameOperationsTool.name} (action "create", geometry width ${columns.length * 700}, height 1400). Note the returned frame ID.`}
+2. Add one column header per column with ${bulkItemCreationTool.name}: text items with the column names, inside the frame (parent id set to the frame), placed 700 px apart along the top using position relativeTo "parent_top_left" (x = 350 + 700 * column index, y = 80).
+3. Ask the participants for their input, or draft it from what you know about "${topic}". Before adding each note, check for repeats with ${checkForSimilarContentTool.name} (item_type "sticky_note").
+4. Add the notes with ${bulkItemCreationTool.name} (at most 20 items per call) as sticky_note items in the frame, stacked under their column header about 250 px apart. Use one sticky note color per column.
+5. When the board is filled in, read the frame with ${hierarchyOperationsTool.name} and reply with the main themes per column and a list of concrete action items, each with an owner if one is known.`;
+    }
+};
+
+// Prompt: Flowchart from a description
+export const flowchartPrompt: PromptDefinition = {
+    name: 'build_flowchart',
+    description: 'Turns a plain-language process description into a flowchart of shapes and connectors on the board.',
+    arguments: [
+        { name: 'description', description: 'The process to draw, in plain language', required: true },
+        { name: 'frame_id', description: 'Frame to draw the flowchart in. Omit to draw it on the open canvas.' },
+        boardIdArgument
+    ],
+    load: async ({ description, frame_id, board_id }) => {
+        const placement = frame_id
+            ? `inside frame ${frame_id} (parent id "${frame_id}", position relativeTo "parent_top_left")`
+            : 'on the canvas, starting at x 0, y 0 (position relativeTo "canvas_center")';
+
+        return `Build a flowchart on the Miro board for this process:
+
+"""
+${description}
+"""
+
+${boardInstruction(board_id)}
+
+Steps:
+1. Break the description into a start, an end, process steps and yes/no decisions. Give every node a short label of at most six words and list the edges between them before drawing anything.
+2. Create the nodes with ${bulkItemCreationTool.name} (at most 20 items per call) as shape items ${placement}:
+   - start and end: data.shape "circle"
+   - process steps: data.shape "round_rectangle"
+   - decisions: data.shape "rhombus"
+   Lay the main path out top to bottom with 200 px between rows, and put alternative branches 300 px to the side. Keep the returned item IDs for each node.
+3. Connect the nodes in order with ${connectorOperationsTool.name} (action "create", shape "elbowed", style endStrokeCap "arrow"). Label decision branches with a caption of "Yes" or "No".
+4. Check the result with ${hierarchyOperationsTool.name} (include_connectors true) and fix missing or wrong connections with ${connectorOperationsTool.name}.
+5. Reply with the node list and anything in the description you had to interpret.`;
+    }
+};
+
+// Prompt: Frame summary
+export const summarizeFramePrompt: PromptDefinition = {
+    name: 'summarize_frame',
+    description: 'Reads everything inside a frame and summarizes its purpose, themes, decisions and open questions without changing the board.',
+    arguments: [
+        { name: 'frame_id', description: 'ID of the frame to summarize', required: true },
+        { name: 'focus', description: 'Optional angle for the summary, e.g. "risks" or "decisions"' },
+        boardIdArgument
+    ],
+    load: async ({ frame_id, focus, board_id }) => {
+        return `Summarize the contents of frame ${frame_id} on the Miro board. ${boardInstruction(board_id)}
+
+Steps:
+1. Read the frame and everything in it with ${hierarchyOperationsTool.name} (item_id "${frame_id}", include_content_summaries true, include_connectors true). Alternatively attach the resource ${boardResourceUri(board_id || miroBoardId as string, 'frame', frame_id as string)} if your client supports resources.
+2. If the frame holds more items than were returned, list the rest with ${searchTool.name} (parent_id "${frame_id}").
+3. Do not create, change or delete anything on the board.
+
+Reply with:
+- The frame's purpose, in one sentence
+- The main themes, each with the IDs of the items that support it
+- Decisions that were made and questions that are still open
+- How the items are connected, where connectors show a flow or dependency${focus ? `\n\nPay particular attention to: ${focus}.` : ''}`;
+    }
+};
+
+// Prompt: Sticky note clustering
+export const clusterStickyNotesPrompt: PromptDefinition = {
+    name: 'cluster_sticky_notes',
+    description: 'Groups sticky notes into themes (affinity mapping): moves each cluster together, labels it and colors its notes.',
+    arguments: [
+        { name: 'frame_id', description: 'Only cluster the sticky notes inside this frame. Omit to cluster every sticky note on the board.' },
+        { name: 'cluster_count', description: 'Number of clusters to form. Omit to let the content decide (usually 3 to 7).' },
+        { name: 'topic', description: 'What the notes are about, to guide the theme names' },
+        boardIdArgument
+    ],
+    load: async ({ frame_id, cluster_count, topic, board_id }) => {
+        const scope = frame_id ? `in frame ${frame_id}` : 'on the board';
+        const searchArgs = frame_id ? `item_types ["sticky_note"], parent_id "${frame_id}"` : 'item_types ["sticky_note"]';
+        const positioning = frame_id
+            ? `relativeTo "parent_top_left" so they stay inside frame ${frame_id}`
+            : 'relativeTo "canvas_center"';
+
+        return `Cluster the sticky notes ${scope} into themes${topic ? ` about ${topic}` : ''}. ${boardInstruction(board_id)}
+
+Steps:
+1. Collect the notes with ${searchTool.name} (${searchArgs}, include_position true, limit 100). Repeat with narrower criteria if the limit is reached, so that no note is missed.
+2. Group the notes into ${cluster_count ? `exactly ${cluster_count}` : '3 to 7'} themes by meaning, not by wording. Every note belongs to exactly one theme; put notes that fit nowhere into an "Other" theme.
+3. Give each theme a short name and a distinct sticky note color (e.g. yellow, light_green, light_blue, light_pink, orange, violet).
+4. Move each cluster to its own area with ${itemPositionOperationsTool.name}, one call per note, laying the clusters out side by side about 800 px apart with the notes in a grid of 250 px cells (position ${positioning}).
+5. Recolor each note with ${contentItemOperationsTool.name} (action "update", type "sticky_note", style fillColor set to its theme's color).
+6. Add a label above each cluster with ${contentItemOperationsTool.name} (action "create", type "text", the theme name as content${frame_id ? `, parent id "${frame_id}"` : ''}).
+7. Reply with the themes, how many notes each holds, and the IDs of notes you were unsure about.`;
+    }
+};
+
+export const boardPrompts: PromptDefinition[] = [
+    retrospectivePrompt,
+    flowchartPrompt,
+    summarizeFramePrompt,
+    clusterStickyNotesPrompt
+];
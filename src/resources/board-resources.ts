@@ -0,0 +1,220 @@
+import miroClient, { onBoardMutation } from '../client/miro-client';
+import { getBoardItems, getBoardConnectors } from '../client/board-cache';
+import { resolveBoardId } from '../client/board-access';
+import { getCredentialScope } from '../client/credentials';
+import { formatApiResponse, formatApiError } from '../utils/api-utils';
+import { generateContentSummary } from '../utils/data-utils';
+import { MiroItem, MiroConnector } from '../types/miro-types';
+import { ResourceTemplateDefinition } from '../types/resource-types';
+
+/**
+ * Called with the URIs of board resources whose contents changed through this server,
+ * and the credential scope of the user who changed them
+ */
+export type ResourceUpdateListener = (uris: string[], scope: string) => void;
+
+const updateListeners: ResourceUpdateListener[] = [];
+
+/**
+ * Builds the URI of a board, frame or item resource
+ */
+export function boardResourceUri(boardId: string, kind?: 'frame' | 'item', id?: string): string {
+    const base = `miro://board/${encodeURIComponent(boardId)}`;
+    return kind && id ? `${base}/${kind}/${encodeURIComponent(id)}` : base;
+}
+
+/**
+ * Compact, LLM-friendly view of an item, as used throughout the resources
+ */
+function describeItem(item: MiroItem): Record<string, unknown> {
+    return {
+        id: item.id,
+        type: item.type,
+        content_summary: generateContentSummary(item),
+        parent_id: item.parent?.id,
+        position: item.position ? { x: item.position.x, y: item.position.y } : undefined,
+        geometry: item.geometry
+    };
+}
+
+function describeConnector(connector: MiroConnector): Record<string, unknown> {
+    const captions = (connector.captions as { content?: string }[] | undefined)?.map(caption => caption.content).filter(Boolean);
+    return {
+        id: connector.id,
+        from: connector.startItem?.id,
+        to: connector.endItem?.id,
+        captions: captions?.length ? captions : undefined
+    };
+}
+
+function countByType(items: MiroItem[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const item of items) {
+        counts[item.type] = (counts[item.type] || 0) + 1;
+    }
+    return counts;
+}
+
+// Resource: Board overview
+export const boardResource: ResourceTemplateDefinition = {
+    name: 'Miro board',
+    description: 'Overview of a Miro board: board details, item counts by type, frames with the number of items in each, every item with a content summary, and the connections between items.',
+    uriTemplate: 'miro://board/{board_id}',
+    mimeType: 'application/json',
+    arguments: [
+        { name: 'board_id', description: 'ID of the board; must be the default board or a permitted board' }
+    ],
+    load: async ({ board_id }) => {
+        try {
+            const boardId = resolveBoardId(board_id);
+            const [boardResponse, items, connectors] = await Promise.all([
+                miroClient.get(`/v2/boards/${boardId}`),
+                getBoardItems(boardId),
+                getBoardConnectors(boardId)
+            ]);
+            const board = boardResponse.data as Record<string, unknown>;
+            const frames = items.filter(item => item.type === 'frame');
+
+            return formatApiResponse({
+                board: {
+                    id: board.id,
+                    name: board.name,
+                    description: board.description,
+                    modifiedAt: board.modifiedAt
+                },
+                item_count: items.length,
+                items_by_type: countByType(items),
+                frames: frames.map(frame => ({
+                    ...describeItem(frame),
+                    child_count: items.filter(item => item.parent?.id === frame.id).length,
+                    uri: boardResourceUri(boardId, 'frame', frame.id)
+                })),
+                items: items.map(describeItem),
+                connectors: connectors.map(describeConnector)
+            });
+        } catch (error) {
+            return formatApiError(error, undefined, false);
+        }
+    }
+};
+
+// Resource: Frame contents
+export const frameResource: ResourceTemplateDefinition = {
+    name: 'Miro frame',
+    description: 'A frame on a Miro board with the items it contains, each with a content summary, and the connections among them.',
+    uriTemplate: 'miro://board/{board_id}/frame/{frame_id}',
+    mimeType: 'application/json',
+    arguments: [
+        { name: 'board_id', description: 'ID of the board containing the frame' },
+        { name: 'frame_id', description: 'ID of the frame' }
+    ],
+    load: async ({ board_id, frame_id }) => {
+        try {
+            const boardId = resolveBoardId(board_id);
+            const [items, connectors] = await Promise.all([getBoardItems(boardId), getBoardConnectors(boardId)]);
+            const frame = items.find(item => item.id === frame_id);
+            if (!frame || frame.type !== 'frame') {
+                throw new Error(`Frame ${frame_id} not found on board ${boardId}`);
+            }
+
+            const children = items.filter(item => item.parent?.id === frame_id);
+            const childIds = new Set(children.map(child => child.id));
+
+            return formatApiResponse({
+                frame: describeItem(frame),
+                item_count: children.length,
+                items_by_type: countByType(children),
+                items: children.map(describeItem),
+                connectors: connectors
+                    .filter(connector => childIds.has(connector.startItem?.id as string) || childIds.has(connector.endItem?.id as string))
+                    .map(describeConnector)
+            });
+        } catch (error) {
+            return formatApiError(error, undefined, false);
+        }
+    }
+};
+
+// Resource: Single item
+export const itemResource: ResourceTemplateDefinition = {
+    name: 'Miro item',
+    description: 'A single item on a Miro board with its full data, a content summary, its parent frame and its incoming and outgoing connections.',
+    uriTemplate: 'miro://board/{board_id}/item/{item_id}',
+    mimeType: 'application/json',
+    arguments: [
+        { name: 'board_id', description: 'ID of the board containing the item' },
+        { name: 'item_id', description: 'ID of the item' }
+    ],
+    load: async ({ board_id, item_id }) => {
+        try {
+            const boardId = resolveBoardId(board_id);
+            const [itemResponse, connectors] = await Promise.all([
+                miroClient.get(`/v2/boards/${boardId}/items/${item_id}`),
+                getBoardConnectors(boardId)
+            ]);
+            const item = itemResponse.data as MiroItem;
+
+            return formatApiResponse({
+                ...item,
+                content_summary: generateContentSummary(item),
+                parent_uri: item.parent?.id ? boardResourceUri(boardId, 'frame', item.parent.id) : undefined,
+                connections: {
+                    outgoing: connectors.filter(connector => connector.startItem?.id === item_id).map(describeConnector),
+                    incoming: connectors.filter(connector => connector.endItem?.id === item_id).map(describeConnector)
+                }
+            });
+        } catch (error) {
+            return formatApiError(error, undefined, false);
+        }
+    }
+};
+
+/**
+ * Registers a listener notified when board resources change
+ */
+export function onResourcesUpdated(listener: ResourceUpdateListener): void {
+    updateListeners.push(listener);
+}
+
+/**
+ * Works out which resources a change made through the client affects: always the board,
+ * plus the changed items, their parent frames and, for connectors, the connected items.
+ * Deletions report the board and the deleted item only, as the former parent is no longer known.
+ */
+export function getAffectedResourceUris(boardId: string, path: string, data: unknown): string[] {
+    const uris = new Set<string>([boardResourceUri(boardId)]);
+
+    // /v2/boards/{board_id}/{collection}/{id}
+    const [collection, targetId] = path.split('/').slice(4);
+    if (targetId && collection !== 'tags' && collection !== 'groups') {
+        uris.add(boardResourceUri(boardId, 'item', decodeURIComponent(targetId)));
+    }
+
+    const body = data as { data?: unknown } | undefined;
+    const changed = Array.isArray(body?.data) ? body.data : [data];
+    for (const entry of changed as (MiroConnector | undefined)[]) {
+        if (!entry || typeof entry.id !== 'string') continue;
+
+        if (collection !== 'connectors') uris.add(boardResourceUri(boardId, 'item', entry.id));
+        if (entry.type === 'frame') uris.add(boardResourceUri(boardId, 'frame', entry.id));
+        if (entry.parent?.id) uris.add(boardResourceUri(boardId, 'frame', entry.parent.id));
+        for (const end of [entry.startItem?.id, entry.endItem?.id]) {
+            if (end) uris.add(boardResourceUri(boardId, 'item', end));
+        }
+    }
+
+    return Array.from(uris);
+}
+
+// Tell subscribers about every change this server makes, so clients can refresh attached board context
+onBoardMutation((boardId, _method, path, data) => {
+    const uris = getAffectedResourceUris(boardId, path, data);
+    const scope = getCredentialScope();
+    for (const listener of updateListeners) {
+        try {
+            listener(uris, scope);
+        } catch (error) {
+            console.error(`Resource update listener failed: ${error}`);
+        }
+    }
+});
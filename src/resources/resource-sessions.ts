@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { IncomingMessage } from 'http';
+import { FastMCPSession } from 'fastmcp';
+import { getTokenScope } from '../client/credentials';
+
+type SessionServer = FastMCPSession['server'];
+
+// FastMCP leaves resources/subscribe and resources/unsubscribe unhandled
+const SubscribeRequestSchema = z.object({
+    method: z.literal('resources/subscribe'),
+    params: z.object({ uri: z.string() })
+});
+const UnsubscribeRequestSchema = z.object({
+    method: z.literal('resources/unsubscribe'),
+    params: z.object({ uri: z.string() })
+});
+
+/**
+ * A connected client: the token it connected with, whose credentials that makes it use,
+ * and the resources it subscribed to once it subscribes to any
+ */
+interface ResourceSession {
+    miroToken?: string;
+    scope: string;
+    subscriptions?: Set<string>;
+}
+
+const sessions = new Map<SessionServer, ResourceSession>();
+
+/**
+ * Starts sending resource updates to a connected session and handles its resources/subscribe and
+ * resources/unsubscribe requests. miroToken is the token the session connected with, if any.
+ * Over SSE and stdio FastMCP reports a session shortly after it initializes, so a subscription sent
+ * straight after initialization may still be answered with Method not found.
+ */
+export function trackResourceSession(server: SessionServer, miroToken: string | undefined): void {
+    const session: ResourceSession = { miroToken, scope: getTokenScope(miroToken) };
+    sessions.set(server, session);
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        (session.subscriptions ??= new Set()).add(request.params.uri);
+        return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        session.subscriptions?.delete(request.params.uri);
+        return {};
+    });
+}
+
+/**
+ * Stops sending resource updates to a session, e.g. once it disconnects
+ */
+export function untrackResourceSession(server: SessionServer): void {
+    sessions.delete(server);
+}
+
+/**
+ * Finds the tracked session an HTTP request to the MCP endpoint belongs to, by the mcp-session-id header of
+ * HTTP streaming requests or the sessionId query parameter of SSE message posts
+ */
+export function findRequestSession(request: IncomingMessage): { miroToken?: string } | undefined {
+    const header = request.headers['mcp-session-id'];
+    const sessionId = (Array.isArray(header) ? header[0] : header)
+        || new URL(request.url || '/', 'http://localhost').searchParams.get('sessionId');
+    if (!sessionId) return undefined;
+
+    for (const [server, session] of sessions) {
+        if (server.transport?.sessionId === sessionId) return { miroToken: session.miroToken };
+    }
+    return undefined;
+}
+
+/**
+ * Sends notifications/resources/updated for changed resources to the sessions of the user who changed them.
+ * A session that subscribed to resources only hears about those. FastMCP cannot advertise the subscribe
+ * capability, so a session that never subscribed hears about every resource its user changes.
+ */
+export function notifyResourceSessions(uris: string[], scope: string): void {
+    for (const [server, session] of sessions) {
+        if (session.scope !== scope) continue;
+
+        for (const uri of uris) {
+            if (session.subscriptions && !session.subscriptions.has(uri)) continue;
+            server.sendResourceUpdated({ uri }).catch(error => {
+                console.error(`Could not send resource update for ${uri}: ${error}`);
+            });
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Optional board selector shared by all tools.
+ * When omitted, tools operate on the default board configured with MIRO_BOARD_ID.
+ */
+export const BoardIdSchema = z.string().optional()
+    .describe('ID of the board to operate on. Omit to use the default board. Only boards permitted by the server configuration can be used.');
+
+/**
+ * Optional switch for tools that read whole boards through the local board cache.
+ */
+export const UseCacheSchema = z.boolean().optional().default(true)
+    .describe('Whether to serve board contents from the local cache. Set to false to force a fresh read from Miro.');
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * Shape names accepted for shape items, including the common aliases in SHAPE_ALIASES.
+ */
+export const ShapeTypeSchema = z.enum(['square', 'rectangle', 'round_rectangle', 'circle', 'triangle', 'rhombus',
+    'diamond',
+    'oval', 'ellipse',
+    'pill', 'capsule',
+    'arrow',
+    'callout',
+    'cylinder',
+    'parallelogram', 'trapezoid', 'pentagon', 'hexagon', 'octagon',
+    'wedge_round_rectangle_callout', 'star', 'flow_chart_predefined_process',
+    'cloud', 'cross', 'can', 'right_arrow', 'left_arrow', 'left_right_arrow',
+    'left_brace', 'right_brace']);
+
+export type ShapeType = z.infer<typeof ShapeTypeSchema>;
+
+/**
+ * Common shape names mapped to the Miro API shape names they stand for
+ */
+export const SHAPE_ALIASES: Partial<Record<ShapeType, ShapeType>> = {
+    'diamond': 'rhombus',
+    'oval': 'circle',
+    'ellipse': 'circle',
+    'pill': 'round_rectangle',
+    'capsule': 'round_rectangle',
+    'arrow': 'right_arrow',
+    'callout': 'wedge_round_rectangle_callout',
+    'cylinder': 'can'
+};
+
+/**
+ * Decorations at either end of a connector
+ */
+export const StrokeCapSchema = z.enum(['none', 'stealth', 'rounded_stealth', 'diamond', 'filled_diamond', 'oval', 'filled_oval', 'arrow', 'triangle', 'filled_triangle', 'erd_one', 'erd_many', 'erd_only_one', 'erd_zero_or_one', 'erd_one_or_many', 'erd_zero_or_many', 'unknown']);
+
+export type StrokeCap = z.infer<typeof StrokeCapSchema>;
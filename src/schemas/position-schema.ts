@@ -18,6 +18,11 @@ export const PositionSchema = z.object({
 
 export type Position = z.infer<typeof PositionSchema>;
 
+/**
+ * How a new item's position is chosen
+ */
+export const PlacementSchema = z.enum(['exact', 'free_space']).optional().describe('How to place new items. "exact" (default) uses position as given. "free_space" treats position as a starting point (default: the board center, or the frame\'s top-left corner for items in a frame) and moves each item to the nearest spot where it overlaps no existing item, keeping items in a frame inside it.');
+
 /**
  * Helper function for LLM-friendly position descriptions
  */
@@ -1,113 +1,253 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
-import { normalizeGeometryValues, normalizePositionValues } from '../utils/data-utils';
+import { resolveBoardId } from '../client/board-access';
+import { formatApiResponse, formatApiError, ErrorResponse } from '../utils/api-utils';
+import { normalizeGeometryValues, normalizePositionValues, modificationHistory } from '../utils/data-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { collectAll, paginateTags } from '../client/paginate';
+import { MiroItem } from '../types/miro-types';
 
-// Export an empty object to make this a proper module
-export {};
+// Card Operation schemas
+const CardDataSchema = z.object({
+    title: z.string().optional().describe('Card title. Supports simple HTML such as <b> and <a>.'),
+    description: z.string().optional().describe('Card description shown when the card is opened.'),
+    dueDate: z.string().refine(value => !isNaN(Date.parse(value)), { message: 'dueDate must be an ISO 8601 date, e.g. 2025-06-30 or 2025-06-30T17:00:00Z' })
+        .optional().describe('Due date in ISO 8601 format, e.g. "2025-06-30" or "2025-06-30T17:00:00Z". A date without a time means midnight UTC.'),
+    assigneeId: z.string().optional().describe('User ID of the board member the card is assigned to.'),
+});
+
+const CardStyleSchema = z.object({
+    cardTheme: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().describe('Hex color of the card\'s left border and header. Default: #2d9bf0.')
+});
+
+const CardOperationsSchema = z.object({
+    action: z.enum(['create', 'get', 'update', 'delete']).describe('The action to perform on cards.'),
+    item_id: z.string().optional().describe('The card ID (required for get, update and delete actions).'),
+    data: CardDataSchema.optional().describe('Card content for create or update actions.'),
+    style: CardStyleSchema.optional().describe('Card styling for create or update actions.'),
+    tag_ids: z.array(z.string()).max(8).optional().describe('IDs of the tags the card should carry. On update, tags not listed are detached. Create tags with mcp_miro_tag_operations.'),
+    position: z.object({
+        x: z.number().describe('X-axis coordinate in dp.'),
+        y: z.number().describe('Y-axis coordinate in dp.'),
+        origin: z.enum(['center']).optional().describe('Origin point for coordinates. Default: "center".'),
+        relativeTo: z.enum(['canvas_center', 'parent_top_left', 'parent_center', 'parent_bottom_right', 'parent_percentage']).optional()
+            .describe('Coordinate system reference. Defaults to "parent_top_left" for cards inside a frame and "canvas_center" otherwise. With "parent_percentage", x and y are percentages (0-100) of the frame\'s size.')
+    }).optional().describe('Position for create or update actions.'),
+    geometry: z.object({
+        width: z.number().optional().describe('Width in dp. Default: 320.'),
+        height: z.number().optional().describe('Height in dp.'),
+        rotation: z.number().optional().describe('Rotation angle in degrees.'),
+    }).optional().describe('Dimensions for create or update actions.'),
+    parent: z.object({ id: z.string() }).optional().describe('Parent frame ID to place the card inside a frame.'),
+    board_id: BoardIdSchema
+}).refine(
+    data => !(['get', 'update', 'delete'].includes(data.action)) || data.item_id,
+    { message: 'item_id is required for get, update, and delete actions', path: ['item_id'] }
+);
+
+type CardOperationsParams = z.infer<typeof CardOperationsSchema>;
 
 /**
- * Helper function to prepare card data for API requests
+ * Helper function to prepare card data for API requests.
+ * Parent-relative positions are translated to the parent's top-left corner, the only reference the API accepts for nested items.
+ * currentParentId is the frame the card already sits in, used when the request does not move it to another parent.
  */
-export function prepareCardData(requestBody: {
+export async function prepareCardData(requestBody: {
     position?: Record<string, unknown>;
     parent?: { id: string };
     geometry?: Record<string, unknown>;
     data?: Record<string, unknown>;
     style?: Record<string, unknown>;
-}): Promise<Record<string, unknown>> {
-    return new Promise((resolve, reject) => {
-        try {
-            // Normalize position values
-            const normalizedPosition = normalizePositionValues(requestBody.position);
-
-            // If we have parent-relative positioning, we need to translate coordinates
-            if (normalizedPosition && requestBody.parent?.id) {
-                // We'll handle this with a separate async function to avoid async executor
-                translateCoordinates(normalizedPosition, requestBody.parent.id)
-                    .catch(error => {
-                        console.error(`Error translating app card parent-relative coordinates: ${error}`);
-                    });
-            }
+}, boardId?: string, currentParentId?: string): Promise<Record<string, unknown>> {
+    const body: Record<string, unknown> = {};
 
-            // Clean up position metadata - ensure only API-compatible properties
-            const position = normalizedPosition ? {
-                x: normalizedPosition.x,
-                y: normalizedPosition.y,
-                origin: normalizedPosition.origin || 'center'
-            } : undefined;
+    if (requestBody.data) {
+        const data = { ...requestBody.data };
+        // The API expects a full timestamp
+        if (typeof data.dueDate === 'string') {
+            data.dueDate = new Date(data.dueDate).toISOString();
+        }
+        body.data = data;
+    }
 
-            // Create body without using spread operators
-            const body: Record<string, unknown> = {};
+    const parentId = requestBody.parent?.id || currentParentId;
+    if (requestBody.position) {
+        // Without an explicit reference, the API reads positions inside a frame from its top-left corner
+        const position = parentId && !requestBody.position.relativeTo
+            ? { ...requestBody.position, relativeTo: 'parent_top_left' }
+            : requestBody.position;
+        const normalizedPosition = normalizePositionValues(position) as Record<string, unknown>;
 
-            // Add data if available
-            if (requestBody.data) {
-                body.data = requestBody.data;
-            }
+        if (parentId) {
+            await translateCoordinates(normalizedPosition, parentId, resolveBoardId(boardId));
+        }
 
-            // Add position if available
-            if (position) {
-                body.position = position;
-            }
+        // Clean up position metadata - ensure only API-compatible properties
+        body.position = {
+            x: normalizedPosition.x,
+            y: normalizedPosition.y,
+            origin: normalizedPosition.origin || 'center'
+        };
+    }
 
-            // Add geometry if available
-            const normalizedGeometry = normalizeGeometryValues(requestBody.geometry);
-            if (normalizedGeometry) {
-                body.geometry = normalizedGeometry;
-            }
+    const normalizedGeometry = normalizeGeometryValues(requestBody.geometry);
+    if (normalizedGeometry) {
+        body.geometry = normalizedGeometry;
+    }
 
-            // Add parent if available
-            if (requestBody.parent && typeof requestBody.parent === 'object' && 'id' in requestBody.parent) {
-                body.parent = requestBody.parent;
-            }
+    if (requestBody.parent?.id) {
+        body.parent = { id: requestBody.parent.id };
+    }
 
-            // Add style if available
-            const normalizedStyle = requestBody.style ? { ...requestBody.style } : undefined;
-            if (normalizedStyle) {
-                body.style = normalizedStyle;
-            }
+    if (requestBody.style) {
+        body.style = { ...requestBody.style };
+    }
 
-            resolve(body);
-        } catch (error) {
-            reject(error);
-        }
-    });
+    return body;
 }
 
 /**
- * Helper function to translate coordinates based on parent frame
+ * Helper function to translate coordinates to the parent frame's top-left corner
  */
-async function translateCoordinates(normalizedPosition: Record<string, unknown>, parentId: string): Promise<void> {
+async function translateCoordinates(normalizedPosition: Record<string, unknown>, parentId: string, boardId: string): Promise<void> {
     // Get parent item to retrieve its dimensions
-    const parentResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${parentId}`);
+    const parentResponse = await miroClient.get(`/v2/boards/${boardId}/items/${parentId}`);
     const parentGeometry = parentResponse.data.geometry;
-    
+    const parentPosition = parentResponse.data.position;
+
     if (parentGeometry) {
         // Get reference system
         const refSystem = normalizedPosition.__refSystem as string || 'parent_top_left';
-        
+
         // Get parent dimensions
         const parentWidth = parentGeometry.width || 0;
         const parentHeight = parentGeometry.height || 0;
-        
-        console.log(`Translating app card coordinates from ${refSystem} to parent_top_left`);
-        console.log(`Parent dimensions: ${parentWidth}x${parentHeight}`);
-        
+
         // Original coordinates
         const x = normalizedPosition.x as number;
         const y = normalizedPosition.y as number;
-        
+
         // Transform coordinates based on reference system
         if (refSystem === 'parent_center') {
             normalizedPosition.x = x + (parentWidth / 2);
             normalizedPosition.y = y + (parentHeight / 2);
-        } 
+        }
         else if (refSystem === 'parent_bottom_right') {
             normalizedPosition.x = parentWidth - x;
             normalizedPosition.y = parentHeight - y;
-        } 
+        }
         else if (refSystem === 'parent_percentage') {
             normalizedPosition.x = (x / 100) * parentWidth;
             normalizedPosition.y = (y / 100) * parentHeight;
         }
+        else if (refSystem === 'canvas_center' && parentPosition) {
+            // The parent's position is its center on the canvas
+            normalizedPosition.x = x - (parentPosition.x - parentWidth / 2);
+            normalizedPosition.y = y - (parentPosition.y - parentHeight / 2);
+        }
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Error returned when some of the given tags do not exist on the board, checked before the card is
+ * written so that a bad tag ID leaves the card untouched
+ */
+async function findMissingTags(boardId: string, tagIds: string[]): Promise<ErrorResponse | undefined> {
+    const existing = new Set((await collectAll(paginateTags(boardId))).map(tag => tag.id));
+    const missing = tagIds.filter(id => !existing.has(id));
+    if (missing.length === 0) return undefined;
+
+    return {
+        error: `Board ${boardId} has no tags with these IDs: ${missing.join(', ')}.`,
+        status: 404,
+        details: 'List the board\'s tags with mcp_miro_tag_operations (action "get_all"), or create the missing tags first.'
+    };
+}
+
+/**
+ * Makes the card carry exactly the given tags, attaching and detaching through the generic item endpoint
+ */
+async function syncCardTags(boardId: string, card: MiroItem, tagIds: string[]): Promise<void> {
+    const current = card.tagIds || [];
+    const url = `/v2/boards/${boardId}/items/${card.id}`;
+
+    for (const tagId of tagIds.filter(id => !current.includes(id))) {
+        await miroClient.post(url, undefined, { params: { tag_id: tagId } });
+    }
+    for (const tagId of current.filter(id => !tagIds.includes(id))) {
+        await miroClient.delete(url, { params: { tag_id: tagId } });
+    }
+}
+
+// Card operations tool (task cards, not app cards)
+export const cardOperationsTool: ToolDefinition<CardOperationsParams, string | ErrorResponse> = {
+    name: 'mcp_miro_card_operations',
+    description: 'Creates and manages cards, the task-style items on Miro boards with a title, description, due date, assignee and tags. Use this tool to: (1) create - add a card, optionally inside a frame, (2) get - retrieve a card\'s details, (3) update - change a card\'s content, theme color, tags, position or size, (4) delete - remove a card. The assignee is given as the user ID of a board member (list members with mcp_miro_collaboration_operations). Due dates take ISO 8601 dates or timestamps. tag_ids replaces the card\'s tags with the listed ones; create the tags first with mcp_miro_tag_operations. The card theme (style.cardTheme) is a hex color for the card\'s border. Positions inside a frame can be given relative to the frame\'s top-left corner (default), center, bottom-right corner or as percentages of its size, or in canvas coordinates with relativeTo "canvas_center"; they are translated before the card is placed. Use cards for action items and task tracking; use app cards for data from external systems.',
+    parameters: CardOperationsSchema,
+    execute: async (args) => {
+        const { action, item_id, data, style, tag_ids, position, geometry, parent, board_id } = args;
+        const boardId = resolveBoardId(board_id);
+
+        console.log(`Executing card_operations (${action})${item_id ? ` for card ${item_id}` : ''}`);
+
+        try {
+            switch (action) {
+                case 'create': {
+                    const missingTags = tag_ids && tag_ids.length > 0 ? await findMissingTags(boardId, tag_ids) : undefined;
+                    if (missingTags) return missingTags;
+
+                    const body = await prepareCardData({ data, style, position, geometry, parent }, boardId);
+                    const response = await miroClient.post(`/v2/boards/${boardId}/cards`, body);
+                    let card: MiroItem = response.data;
+
+                    if (tag_ids && tag_ids.length > 0) {
+                        await syncCardTags(boardId, card, tag_ids);
+                        card = (await miroClient.get(`/v2/boards/${boardId}/cards/${card.id}`)).data;
+                    }
+
+                    modificationHistory.trackCreation(card);
+                    return formatApiResponse(card);
+                }
+                case 'get': {
+                    const response = await miroClient.get(`/v2/boards/${boardId}/cards/${item_id}`);
+                    return formatApiResponse(response.data);
+                }
+                case 'update': {
+                    const missingTags = tag_ids && tag_ids.length > 0 ? await findMissingTags(boardId, tag_ids) : undefined;
+                    if (missingTags) return missingTags;
+
+                    const url = `/v2/boards/${boardId}/cards/${item_id}`;
+                    // The current card tells which frame a position is relative to and which tags it carries
+                    const needsCurrent = (position && !parent) || tag_ids;
+                    let card: MiroItem | undefined = needsCurrent ? (await miroClient.get(url)).data : undefined;
+
+                    const body = await prepareCardData({ data, style, position, geometry, parent }, boardId, card?.parent?.id);
+                    if (Object.keys(body).length > 0) {
+                        card = (await miroClient.patch(url, body)).data;
+                    }
+
+                    if (tag_ids && card) {
+                        await syncCardTags(boardId, card, tag_ids);
+                        card = (await miroClient.get(url)).data;
+                    }
+
+                    if (!card) {
+                        throw new Error('Nothing to update: provide data, style, tag_ids, position, geometry or parent.');
+                    }
+
+                    modificationHistory.trackModification(card);
+                    return formatApiResponse(card);
+                }
+                case 'delete': {
+                    const response = await miroClient.delete(`/v2/boards/${boardId}/cards/${item_id}`);
+                    return `Card ${item_id} deleted successfully (Status: ${response.status}).`;
+                }
+            }
+
+            throw new Error(`Invalid action: ${action}`);
+        } catch (error) {
+            return formatApiError(error);
+        }
+    },
+};
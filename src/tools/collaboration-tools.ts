@@ -1,9 +1,11 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
 import { normalizeGeometryValues, normalizePositionValues, normalizeStyleValues, modificationHistory } from '../utils/data-utils';
+import { collectAll, paginateBoardItems } from '../client/paginate';
 
 // Widget operations schema and tool removed since the comment endpoint does not exist in Miro API
 
@@ -17,6 +19,7 @@ const CollaborationOperationsSchema = z.object({
     // List options
     cursor: z.string().optional().describe('Pagination cursor.'),
     limit: z.string().optional().describe('Maximum results per call.'),
+    board_id: BoardIdSchema,
 })
 .refine(
     data => !(['share_board'].includes(data.action)) || data.user_email, 
@@ -44,18 +47,26 @@ const CustomFieldSchema = z.object({
 });
 
 const AppCardDataSchema = z.object({
-    title: z.string().optional().default('sample app card item').describe('Header text for the app card.'),
+    title: z.string().optional().describe('Header text for the app card. Default on create: "sample app card item".'),
     description: z.string().optional().describe('Description text.'),
-    fields: z.array(CustomFieldSchema).optional().describe('Array of custom fields displayed on the card.'),
-    status: z.enum(['disconnected', 'connected', 'disabled']).optional().default('disconnected').describe('Connection status with the source.')
+    fields: z.array(CustomFieldSchema).optional().describe('Array of custom fields displayed on the card. On update, the given array replaces all existing fields.'),
+    status: z.enum(['disconnected', 'connected', 'disabled']).optional().describe('Connection status with the source. Default on create: "disconnected".')
 });
 
+// Defaults applied to new app cards only, so updates never overwrite existing values
+const APP_CARD_DEFAULTS: z.infer<typeof AppCardDataSchema> = {
+    title: 'sample app card item',
+    status: 'disconnected'
+};
+
 const AppCardStyleSchema = z.object({
     fillColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().describe('Hex color for the app card border. Default: #2d9bf0.')
 });
 
 const AppCardItemSchema = z.object({
-    data: AppCardDataSchema.describe('Data for the app card.'),
+    action: z.enum(['create', 'get', 'get_all', 'update', 'delete']).optional().default('create').describe('The action to perform on app cards. Default: "create".'),
+    item_id: z.string().optional().describe('The app card ID (required for get, update and delete actions).'),
+    data: AppCardDataSchema.optional().describe('Data for the app card (create or update).'),
     style: AppCardStyleSchema.optional().describe('Styling for the app card.'),
     position: z.object({
         x: z.number().describe('X-axis coordinate.'),
@@ -68,8 +79,12 @@ const AppCardItemSchema = z.object({
         height: z.number().optional().describe('Height in pixels.'),
         rotation: z.number().optional().describe('Rotation angle in degrees.'),
     }).optional().describe('Dimensions and rotation.'),
-    parent: z.object({ id: z.string().optional() }).optional().describe('Parent frame ID.')
-}).passthrough();
+    parent: z.object({ id: z.string().optional() }).optional().describe('Parent frame ID.'),
+    board_id: BoardIdSchema
+}).passthrough().refine(
+    data => !(['get', 'update', 'delete'].includes(data.action)) || data.item_id,
+    { message: 'item_id is required for get, update, and delete actions', path: ['item_id'] }
+);
 
 type AppCardItemParams = z.infer<typeof AppCardItemSchema>;
 
@@ -80,6 +95,7 @@ export const collaborationOperationsTool: ToolDefinition<CollaborationOperations
     parameters: CollaborationOperationsSchema,
     execute: async (args) => {
         const { action, user_email, user_id, role, cursor, limit } = args;
+        const boardId = resolveBoardId(args.board_id);
         let url = '';
         let method = '';
         const queryParams: Record<string, string> = {};
@@ -88,13 +104,13 @@ export const collaborationOperationsTool: ToolDefinition<CollaborationOperations
         // Construct the URL based on action
         switch (action) {
             case 'get_board_members':
-                url = `/v2/boards/${miroBoardId}/members`;
+                url = `/v2/boards/${boardId}/members`;
                 method = 'get';
                 if (cursor) queryParams.cursor = cursor;
                 if (limit) queryParams.limit = limit;
                 break;
             case 'share_board':
-                url = `/v2/boards/${miroBoardId}/members`;
+                url = `/v2/boards/${boardId}/members`;
                 method = 'post';
                 body = { 
                     emails: [user_email],
@@ -102,12 +118,12 @@ export const collaborationOperationsTool: ToolDefinition<CollaborationOperations
                 };
                 break;
             case 'update_member':
-                url = `/v2/boards/${miroBoardId}/members/${user_id}`;
+                url = `/v2/boards/${boardId}/members/${user_id}`;
                 method = 'patch';
                 body = { role };
                 break;
             case 'remove_member':
-                url = `/v2/boards/${miroBoardId}/members/${user_id}`;
+                url = `/v2/boards/${boardId}/members/${user_id}`;
                 method = 'delete';
                 break;
             case 'get_organization_members':
@@ -151,107 +167,151 @@ export const collaborationOperationsTool: ToolDefinition<CollaborationOperations
     }
 };
 
-// App card creation tool
+
+/**
+ * Builds the request body for creating or updating an app card, translating parent-relative positions
+ */
+async function buildAppCardBody(args: AppCardItemParams, boardId: string): Promise<Record<string, unknown>> {
+    // Normalize style, geometry, and position values
+    const normalizedStyle = normalizeStyleValues(args.style);
+    const normalizedGeometry = normalizeGeometryValues(args.geometry);
+    const normalizedPosition = normalizePositionValues(args.position);
+    
+    // If we have parent-relative positioning, we need to translate coordinates
+    if (normalizedPosition && args.parent?.id) {
+        try {
+            // Get parent item to retrieve its dimensions
+            const parentResponse = await miroClient.get(`/v2/boards/${boardId}/items/${args.parent.id}`);
+            const parentGeometry = parentResponse.data.geometry;
+            
+            if (parentGeometry) {
+                // Get reference system that was stored during normalization
+                const refSystem = normalizedPosition.__refSystem as string || 'parent_top_left';
+                
+                // Get parent dimensions
+                const parentWidth = parentGeometry.width || 0;
+                const parentHeight = parentGeometry.height || 0;
+                
+                console.log(`Translating app card coordinates from ${refSystem} to parent_top_left`);
+                console.log(`Parent dimensions: ${parentWidth}x${parentHeight}`);
+                
+                // Original coordinates
+                const x = normalizedPosition.x as number;
+                const y = normalizedPosition.y as number;
+                
+                // Transform coordinates based on reference system
+                if (refSystem === 'parent_center') {
+                    normalizedPosition.x = x + (parentWidth / 2);
+                    normalizedPosition.y = y + (parentHeight / 2);
+                } 
+                else if (refSystem === 'parent_bottom_right') {
+                    normalizedPosition.x = parentWidth - x;
+                    normalizedPosition.y = parentHeight - y;
+                } 
+                else if (refSystem === 'parent_percentage') {
+                    normalizedPosition.x = (x / 100) * parentWidth;
+                    normalizedPosition.y = (y / 100) * parentHeight;
+                }
+            }
+        } catch (error) {
+            console.error(`Error translating app card parent-relative coordinates: ${error}`);
+        }
+    }
+    
+    // Create clean body object without using spread operators
+    const body: Record<string, unknown> = {};
+    
+    // Add data if available
+    if (args.data) {
+        body.data = args.data;
+    }
+    
+    // Clean up position metadata and add to body if available
+    if (normalizedPosition) {
+        // Create a clean position object without metadata
+        body.position = {
+            x: normalizedPosition.x,
+            y: normalizedPosition.y,
+            origin: normalizedPosition.origin || 'center'
+        };
+    }
+    
+    // Add style if available
+    if (normalizedStyle) {
+        body.style = normalizedStyle;
+    }
+    
+    // Add geometry if available
+    if (normalizedGeometry) {
+        body.geometry = normalizedGeometry;
+    }
+    
+    // Add parent if available and has id
+    if (args.parent && typeof args.parent === 'object' && 'id' in args.parent) {
+        body.parent = args.parent;
+    }
+    
+    return body;
+}
+
+// App card operations tool
 export const appCardOperationsTool: ToolDefinition<AppCardItemParams> = {
     name: 'mcp_miro_app_card_operations',
-    description: 'Creates interactive app cards that represent external data sources or applications on the board. App cards are specialized containers that visually represent connected applications with rich formatting and custom fields. Use this tool when you need to display structured data like status updates, metrics, or external content. Each app card can include: (1) title and description text, (2) custom fields with icons, tooltips, and color formatting, (3) connection status indicators, and (4) styled containers with custom colors. Cards support customizable fields shown as icon+text pairs with individual styling. App cards can be positioned anywhere on the board or nested inside frames, and their dimensions can be specified. They are ideal for integrating external system information in a visually consistent format.',
+    description: 'Creates and maintains interactive app cards that represent external data sources or applications on the board. App cards are specialized containers that visually represent connected applications with rich formatting and custom fields. Use this tool to: (1) create - add a new app card (the default action), (2) get - retrieve an app card\'s details, (3) get_all - list every app card on the board, (4) update - change an app card\'s title, description, fields, status, style, position or size, (5) delete - remove an app card. Use this tool when you need to display structured data like status updates, metrics, or external content. Each app card can include: (1) title and description text, (2) custom fields with icons, tooltips, and color formatting, (3) connection status indicators, and (4) styled containers with custom colors. When external data changes, update the existing card rather than creating a new one: find it with get_all, then update it by item_id. Updating fields replaces the whole field list, so send every field the card should show. App cards can be positioned anywhere on the board or nested inside frames, and their dimensions can be specified. They are ideal for integrating external system information in a visually consistent format.',
     parameters: AppCardItemSchema,
     execute: async (args) => {
-        const url = `/v2/boards/${miroBoardId}/app_cards`;
-        console.log(`Executing app_card_operations: POST ${url}`);
-        
-        // Normalize style, geometry, and position values
-        const normalizedStyle = normalizeStyleValues(args.style);
-        const normalizedGeometry = normalizeGeometryValues(args.geometry);
-        const normalizedPosition = normalizePositionValues(args.position);
+        const { action, item_id } = args;
+        const boardId = resolveBoardId(args.board_id);
+        const url = `/v2/boards/${boardId}/app_cards`;
+        console.log(`Executing app_card_operations (${action})${item_id ? ` for app card ${item_id}` : ''}`);
         
-        // If we have parent-relative positioning, we need to translate coordinates
-        if (normalizedPosition && args.parent?.id) {
-            try {
-                // Get parent item to retrieve its dimensions
-                const parentResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${args.parent.id}`);
-                const parentGeometry = parentResponse.data.geometry;
-                
-                if (parentGeometry) {
-                    // Get reference system that was stored during normalization
-                    const refSystem = normalizedPosition.__refSystem as string || 'parent_top_left';
-                    
-                    // Get parent dimensions
-                    const parentWidth = parentGeometry.width || 0;
-                    const parentHeight = parentGeometry.height || 0;
+        try {
+            switch (action) {
+                case 'create': {
+                    const body = await buildAppCardBody({ ...args, data: { ...APP_CARD_DEFAULTS, ...args.data } }, boardId);
+                    console.log(`With body: ${JSON.stringify(body)}`);
+                    const response = await miroClient.post(url, body);
+                    console.log(`API Call Successful: ${response.status}`);
                     
-                    console.log(`Translating app card coordinates from ${refSystem} to parent_top_left`);
-                    console.log(`Parent dimensions: ${parentWidth}x${parentHeight}`);
+                    // Track creation in history
+                    if (response.data) {
+                        modificationHistory.trackCreation(response.data);
+                    }
                     
-                    // Original coordinates
-                    const x = normalizedPosition.x as number;
-                    const y = normalizedPosition.y as number;
+                    return formatApiResponse(response.data);
+                }
+                case 'get': {
+                    const response = await miroClient.get(`${url}/${item_id}`);
+                    return formatApiResponse(response.data);
+                }
+                case 'get_all': {
+                    const appCards = await collectAll(paginateBoardItems(boardId, { type: 'app_card' }));
+                    return formatApiResponse({ data: appCards, total: appCards.length });
+                }
+                case 'update': {
+                    const body = await buildAppCardBody(args, boardId);
+                    if (Object.keys(body).length === 0) {
+                        throw new Error('Nothing to update: provide data, style, position, geometry or parent.');
+                    }
+                    console.log(`With body: ${JSON.stringify(body)}`);
+                    const response = await miroClient.patch(`${url}/${item_id}`, body);
                     
-                    // Transform coordinates based on reference system
-                    if (refSystem === 'parent_center') {
-                        normalizedPosition.x = x + (parentWidth / 2);
-                        normalizedPosition.y = y + (parentHeight / 2);
-                    } 
-                    else if (refSystem === 'parent_bottom_right') {
-                        normalizedPosition.x = parentWidth - x;
-                        normalizedPosition.y = parentHeight - y;
-                    } 
-                    else if (refSystem === 'parent_percentage') {
-                        normalizedPosition.x = (x / 100) * parentWidth;
-                        normalizedPosition.y = (y / 100) * parentHeight;
+                    // Track modification in history
+                    if (response.data) {
+                        modificationHistory.trackModification(response.data);
                     }
+                    
+                    return formatApiResponse(response.data);
+                }
+                case 'delete': {
+                    const response = await miroClient.delete(`${url}/${item_id}`);
+                    return `App card ${item_id} deleted successfully (Status: ${response.status}).`;
                 }
-            } catch (error) {
-                console.error(`Error translating app card parent-relative coordinates: ${error}`);
-            }
-        }
-        
-        // Create clean body object without using spread operators
-        const body: Record<string, unknown> = {};
-        
-        // Add data if available
-        if (args.data) {
-            body.data = args.data;
-        }
-        
-        // Clean up position metadata and add to body if available
-        if (normalizedPosition) {
-            // Create a clean position object without metadata
-            body.position = {
-                x: normalizedPosition.x,
-                y: normalizedPosition.y,
-                origin: normalizedPosition.origin || 'center'
-            };
-        }
-        
-        // Add style if available
-        if (normalizedStyle) {
-            body.style = normalizedStyle;
-        }
-        
-        // Add geometry if available
-        if (normalizedGeometry) {
-            body.geometry = normalizedGeometry;
-        }
-        
-        // Add parent if available and has id
-        if (args.parent && typeof args.parent === 'object' && 'id' in args.parent) {
-            body.parent = args.parent;
-        }
-        
-        console.log(`With body: ${JSON.stringify(body)}`);
-        try {
-            const response = await miroClient.post(url, body);
-            console.log(`API Call Successful: ${response.status}`);
-            
-            // Track creation in history
-            if (response.data) {
-                modificationHistory.trackCreation(response.data);
             }
             
-            return formatApiResponse(response.data);
+            throw new Error(`Invalid action: ${action}`);
         } catch (error) {
             return formatApiError(error);
         }
     }
-}; 
\ No newline at end of file
+};
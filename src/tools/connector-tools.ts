@@ -1,10 +1,12 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { modificationHistory } from '../utils/data-utils';
 import { MCP_POSITIONING_GUIDE } from '../schemas/position-schema';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { StrokeCapSchema } from '../schemas/item-schema';
 
 // Schema definitions for connector operations
 const ConnectorOperationsSchema = z.object({
@@ -38,14 +40,15 @@ const ConnectorOperationsSchema = z.object({
         strokeColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional().describe('Connector line color.'),
         strokeStyle: z.enum(['normal', 'dotted', 'dashed']).optional().describe('Line style.'),
         strokeWidth: z.string().optional().describe('Line thickness.'),
-        startStrokeCap: z.enum(['none', 'stealth', 'rounded_stealth', 'diamond', 'filled_diamond', 'oval', 'filled_oval', 'arrow', 'triangle', 'filled_triangle', 'erd_one', 'erd_many', 'erd_only_one', 'erd_zero_or_one', 'erd_one_or_many', 'erd_zero_or_many', 'unknown']).optional().describe('Start decoration.'),
-        endStrokeCap: z.enum(['none', 'stealth', 'rounded_stealth', 'diamond', 'filled_diamond', 'oval', 'filled_oval', 'arrow', 'triangle', 'filled_triangle', 'erd_one', 'erd_many', 'erd_only_one', 'erd_zero_or_one', 'erd_one_or_many', 'erd_zero_or_many', 'unknown']).optional().describe('End decoration.'),
+        startStrokeCap: StrokeCapSchema.optional().describe('Start decoration.'),
+        endStrokeCap: StrokeCapSchema.optional().describe('End decoration.'),
         fontSize: z.string().optional().describe('Caption font size.'),
         textOrientation: z.enum(['horizontal', 'aligned']).optional().describe('Caption orientation.'),
     }).optional().describe('Connector styling.'),
     // List options
     cursor: z.string().optional().describe('Pagination cursor (for get_all action).'),
     limit: z.string().optional().describe('Maximum results per call (10-50, for get_all action).'),
+    board_id: BoardIdSchema,
 })
 .refine(
     data => !(['get', 'update', 'delete'].includes(data.action)) || data.connector_id, 
@@ -84,7 +87,8 @@ CONNECTOR-SPECIFIC POSITIONING:
 Connectors can be styled with different line types (straight, curved, elbowed), colors, stroke styles (solid, dashed, dotted), endpoints (arrows, diamonds, etc.), and can include up to 20 text captions along their path. When creating connections, you must specify both startItem and endItem with their unique IDs. Ideal for creating flowcharts, relationship diagrams, mind maps, or any visualization that shows connections between concepts.`,
     parameters: ConnectorOperationsSchema,
     execute: async (args) => {
-        const { action, connector_id, ...otherArgs } = args;
+        const { action, connector_id, board_id, ...otherArgs } = args;
+        const boardId = resolveBoardId(board_id);
         let url = '';
         let method = '';
         const queryParams: Record<string, string> = {};
@@ -93,27 +97,27 @@ Connectors can be styled with different line types (straight, curved, elbowed),
         // Construct the URL based on action
         switch (action) {
             case 'create':
-                url = `/v2/boards/${miroBoardId}/connectors`;
+                url = `/v2/boards/${boardId}/connectors`;
                 method = 'post';
                 body = otherArgs;
                 break;
             case 'get':
-                url = `/v2/boards/${miroBoardId}/connectors/${connector_id}`;
+                url = `/v2/boards/${boardId}/connectors/${connector_id}`;
                 method = 'get';
                 break;
             case 'get_all':
-                url = `/v2/boards/${miroBoardId}/connectors`;
+                url = `/v2/boards/${boardId}/connectors`;
                 method = 'get';
                 if ('cursor' in otherArgs && otherArgs.cursor) queryParams.cursor = otherArgs.cursor;
                 if ('limit' in otherArgs && otherArgs.limit) queryParams.limit = otherArgs.limit;
                 break;
             case 'update':
-                url = `/v2/boards/${miroBoardId}/connectors/${connector_id}`;
+                url = `/v2/boards/${boardId}/connectors/${connector_id}`;
                 method = 'patch';
                 body = otherArgs;
                 break;
             case 'delete':
-                url = `/v2/boards/${miroBoardId}/connectors/${connector_id}`;
+                url = `/v2/boards/${boardId}/connectors/${connector_id}`;
                 method = 'delete';
                 break;
         }
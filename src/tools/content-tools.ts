@@ -3,7 +3,11 @@ import miroClient from '../client/miro-client';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { normalizeStyleValues, normalizeGeometryValues, normalizePositionValues, modificationHistory } from '../utils/data-utils';
 import { ToolDefinition } from '../types/tool-types';
-import { miroBoardId } from '../config';
+import { resolveBoardId } from '../client/board-access';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { ShapeTypeSchema, SHAPE_ALIASES } from '../schemas/item-schema';
+import { PlacementSchema } from '../schemas/position-schema';
+import { placeInFreeSpace } from '../utils/placement-utils';
 
 // Define a simplified positioning guide that's easier for LLMs to understand and use
 export const SIMPLIFIED_POSITIONING_GUIDE = `
@@ -281,17 +285,7 @@ const ContentItemSchema = z.object({
         // Generic content properties
         content: z.string().optional().describe('Text content. Miro text elements support these HTML tags: <p>, <a>, <strong>, <b>, <em>, <i>, <u>, <s>, <span>, <ol>, <ul>, <li>, <br>. Example: "<p>This is a <strong>bold</strong> statement.</p>"'),
         // Shape-specific properties
-        shape: z.enum(['square', 'rectangle', 'round_rectangle', 'circle', 'triangle', 'rhombus', 
-                     'diamond',
-                     'oval', 'ellipse',
-                     'pill', 'capsule',
-                     'arrow',
-                     'callout',
-                     'cylinder',
-                     'parallelogram', 'trapezoid', 'pentagon', 'hexagon', 'octagon', 
-                     'wedge_round_rectangle_callout', 'star', 'flow_chart_predefined_process', 
-                     'cloud', 'cross', 'can', 'right_arrow', 'left_arrow', 'left_right_arrow', 
-                     'left_brace', 'right_brace']).optional().describe('Shape type (for shapes only).'),
+        shape: ShapeTypeSchema.optional().describe('Shape type (for shapes only).'),
     }).optional().describe('Content data based on type.'),
     style: z.object({
         // Generic style properties
@@ -340,7 +334,9 @@ const ContentItemSchema = z.object({
         height: z.number().optional().describe('Height in dp. Example: 100. For text items, height is calculated automatically.'),
         rotation: z.number().optional().describe('Rotation angle in degrees. Example: 45 for a 45-degree rotation. Default: 0.'),
     }).optional().describe('Dimensions and rotation. If omitted, default sizing is applied.'),
-    parent: z.object({ id: z.string() }).optional().describe('Parent frame ID to place this item inside a frame.')
+    parent: z.object({ id: z.string() }).optional().describe('Parent frame ID to place this item inside a frame.'),
+    placement: PlacementSchema,
+    board_id: BoardIdSchema
 }).refine(
     data => !(['get', 'update', 'delete'].includes(data.action)) || data.item_id, 
     { message: 'item_id is required for get, update, and delete actions', path: ['item_id'] }
@@ -383,6 +379,7 @@ ACTIONS:
    - Text: Supports HTML formatting with specific tags (see HTML formatting section below)
    - Shapes: 25+ types (rectangle, circle, arrow, etc.) with customizable borders, fill colors
    - Sticky notes: Simple colored notes (limited to named colors like "yellow", "blue", "green")
+   - Set placement to "free_space" to move the new item to the nearest spot that does not cover existing items
 
 (2) GET - Retrieve a specific item's details
 (3) GET_ALL - List all items of a specific type
@@ -454,6 +451,7 @@ Position guide for items in frames:
         }
         
         const { action, item_id, type, geometry, parent } = args;
+        const boardId = resolveBoardId(args.board_id);
         let { data } = args;
         const style = args.style;
         let url = '';
@@ -487,7 +485,7 @@ Position guide for items in frames:
             if (parent && parent.id && action === 'create') {
                 try {
                     // Check if the parent is a frame
-                    const frameCheckUrl = `/v2/boards/${miroBoardId}/items/${parent.id}`;
+                    const frameCheckUrl = `/v2/boards/${boardId}/items/${parent.id}`;
                     const frameResponse = await miroClient.get(frameCheckUrl);
                     const frameData = frameResponse.data;
                     
@@ -500,7 +498,7 @@ Position guide for items in frames:
             } else if (action === 'update' && item_id) {
                 try {
                     // Check if we're trying to update a frame with HTML content
-                    const itemCheckUrl = `/v2/boards/${miroBoardId}/items/${item_id}`;
+                    const itemCheckUrl = `/v2/boards/${boardId}/items/${item_id}`;
                     const itemResponse = await miroClient.get(itemCheckUrl);
                     const itemData = itemResponse.data;
                     
@@ -584,7 +582,7 @@ Position guide for items in frames:
             if (parent && parent.id) {
                 try {
                     console.log(`Verifying parent frame exists: ${parent.id}`);
-                    const frameCheckUrl = `/v2/boards/${miroBoardId}/frames/${parent.id}`;
+                    const frameCheckUrl = `/v2/boards/${boardId}/frames/${parent.id}`;
                     try {
                         await miroClient.get(frameCheckUrl);
                         console.log(`Parent frame exists: ${parent.id}`);
@@ -1070,19 +1068,9 @@ Position guide for items in frames:
             
         // Map common shape names to Miro API shape names if needed
         if (type === 'shape' && data && data.shape) {
-            const shapeMap: Record<string, string> = {
-                'diamond': 'rhombus',
-                'oval': 'circle',
-                'ellipse': 'circle',
-                'pill': 'round_rectangle',
-                'capsule': 'round_rectangle',
-                'arrow': 'right_arrow',
-                'callout': 'wedge_round_rectangle_callout',
-                'cylinder': 'can'
-            };
-            
-            if (shapeMap[data.shape]) {
-                data.shape = shapeMap[data.shape] as typeof data.shape;
+            const alias = SHAPE_ALIASES[data.shape];
+            if (alias) {
+                data.shape = alias;
             }
         }
         
@@ -1329,7 +1317,7 @@ Position guide for items in frames:
             
             try {
                 // First, get the parent frame dimensions
-                const frameCheckUrl = `/v2/boards/${miroBoardId}/frames/${parent.id}`;
+                const frameCheckUrl = `/v2/boards/${boardId}/frames/${parent.id}`;
                 const frameResponse = await miroClient.get(frameCheckUrl);
                 const frameData = frameResponse.data;
                 
@@ -1527,24 +1515,24 @@ Position guide for items in frames:
                     }
                 }
                 
-                url = `/v2/boards/${miroBoardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}`;
+                url = `/v2/boards/${boardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}`;
                 method = 'post';
                 break;
             case 'get_all':
-                url = `/v2/boards/${miroBoardId}/items`;
+                url = `/v2/boards/${boardId}/items`;
                 method = 'get';
                 queryParams = { type };
                 break;
             case 'get':
-                url = `/v2/boards/${miroBoardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
+                url = `/v2/boards/${boardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
                 method = 'get';
                 break;
             case 'update':
-                url = `/v2/boards/${miroBoardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
+                url = `/v2/boards/${boardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
                 method = 'patch';
                 break;
             case 'delete':
-                url = `/v2/boards/${miroBoardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
+                url = `/v2/boards/${boardId}/${type === 'sticky_note' ? 'sticky_notes' : `${type}s`}/${item_id}`;
                 method = 'delete';
                 break;
         }
@@ -1578,6 +1566,11 @@ Position guide for items in frames:
                     }
                 }
                 
+                if (args.placement === 'free_space') {
+                    const placementError = await placeInFreeSpace(boardId, type, body);
+                    if (placementError) return placementError;
+                }
+
                 response = await miroClient.post(url, body);
                 // Track creation in history
                 if (response.data) {
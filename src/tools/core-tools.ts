@@ -1,10 +1,12 @@
 import { z } from 'zod';
-import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import miroClient, { getRateLimitStatus } from '../client/miro-client';
+import { resolveBoardId, permitBoardId, forgetBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { normalizePositionValues, validateChildPosition } from '../utils/data-utils';
+import { OccupiedArea, placeInFreeSpace } from '../utils/placement-utils';
 import { ToolDefinition } from '../types/tool-types';
-import { PositionSchema, MCP_POSITIONING_GUIDE } from '../schemas/position-schema';
+import { PositionSchema, PlacementSchema, MCP_POSITIONING_GUIDE } from '../schemas/position-schema';
+import { BoardIdSchema } from '../schemas/board-schema';
 import { SIMPLIFIED_POSITIONING_GUIDE } from './content-tools';
 
 // Use the centralized position schema
@@ -27,7 +29,9 @@ const BulkItemsSchema = z.object({
             geometry: GeometrySchema.optional().describe('Contains geometrical information about the item.'),
             parent: z.object({ id: z.string().optional() }).optional().describe('Parent frame this item must be attached to.')
         })
-    ).max(20).describe('Array of items to create (max 20)')
+    ).max(20).describe('Array of items to create (max 20)'),
+    placement: PlacementSchema,
+    board_id: BoardIdSchema
 });
 
 type BulkItemCreationParams = z.infer<typeof BulkItemsSchema>;
@@ -35,13 +39,14 @@ type BulkItemCreationParams = z.infer<typeof BulkItemsSchema>;
 // Bulk creation tool
 export const bulkItemCreationTool: ToolDefinition<BulkItemCreationParams> = {
     name: 'mcp_miro_bulk_item_creation',
-    description: `Creates multiple items on a Miro board simultaneously in a single API call (up to 20 items maximum). This is ideal for efficiently building complex diagrams, charts, or layouts with many related elements. All item types are supported including shapes, sticky notes, text, images, and more. Each item in the batch can have its own type, data properties, styling, position, and dimensions. Items can be positioned relative to the canvas center or within parent frames. This tool uses atomic operations - if any single item fails validation, the entire batch will fail and no items will be created, ensuring visual consistency. Use this when you need to create multiple related items at once, such as flowchart nodes, dashboard elements, or diagram components that form a cohesive visual.
+    description: `Creates multiple items on a Miro board simultaneously in a single API call (up to 20 items maximum). This is ideal for efficiently building complex diagrams, charts, or layouts with many related elements. All item types are supported including shapes, sticky notes, text, images, and more. Each item in the batch can have its own type, data properties, styling, position, and dimensions. Items can be positioned relative to the canvas center or within parent frames. This tool uses atomic operations - if any single item fails validation, the entire batch will fail and no items will be created, ensuring visual consistency. Use this when you need to create multiple related items at once, such as flowchart nodes, dashboard elements, or diagram components that form a cohesive visual. Set placement to "free_space" to have each item moved to the nearest spot that overlaps neither existing items nor the other new items.
 
 ${SIMPLIFIED_POSITIONING_GUIDE}`,
     parameters: BulkItemsSchema,
     execute: async (args) => {
-        const { items } = args;
-        const url = `/v2/boards/${miroBoardId}/items/bulk`;
+        const { items, placement, board_id } = args;
+        const boardId = resolveBoardId(board_id);
+        const url = `/v2/boards/${boardId}/items/bulk`;
         console.log(`Executing mcp_miro_bulk_item_creation: POST ${url}`);
         console.log(`Creating ${items.length} items in bulk`);
         
@@ -136,8 +141,21 @@ ${SIMPLIFIED_POSITIONING_GUIDE}`,
         });
         
         try {
+            if (placement === 'free_space') {
+                // Share the occupied areas so the new items keep clear of each other too
+                const areas = new Map<string, OccupiedArea>();
+                for (const item of normalizedItems) {
+                    const placementError = await placeInFreeSpace(boardId, item.type, item as Record<string, unknown>, areas);
+                    if (placementError) return placementError;
+                }
+            }
+
             const response = await miroClient.post(url, normalizedItems);
             console.log(`API Call Successful: ${response.status}`);
+            const rateLimit = getRateLimitStatus();
+            if (rateLimit) {
+                console.log(`Remaining Miro API credits: ${rateLimit.remaining}/${rateLimit.limit}`);
+            }
             return formatApiResponse(response.data);
         } catch (error) {
             // Enhanced error handling for parent positioning issues
@@ -169,9 +187,10 @@ POSITIONING RECOMMENDATIONS:
 // Core tools for board and general item operations
 
 // Tool: Board Operations
-const updateBoardSchema = z.object({
-    name: z.string().min(1).max(60).optional().describe('Name for the board.'),
-    description: z.string().min(0).max(300).optional().describe('Description of the board.'),
+const boardOperationsSchema = z.object({
+    action: z.enum(['update', 'list', 'create', 'copy', 'delete']).optional().default('update').describe('The action to perform. Defaults to update.'),
+    name: z.string().min(1).max(60).optional().describe('Name for the board (update, create, copy).'),
+    description: z.string().min(0).max(300).optional().describe('Description of the board (update, create, copy).'),
     policy: z.object({
         permissionsPolicy: z.object({
             collaborationToolsStartAccess: z.enum(['all_editors', 'board_owners_and_coowners']).optional().describe('Defines who can start/stop collaboration tools.'),
@@ -184,21 +203,114 @@ const updateBoardSchema = z.object({
             organizationAccess: z.enum(['private', 'view', 'comment', 'edit']).optional().describe('Defines the organization-level access.'),
             teamAccess: z.enum(['private', 'view', 'comment', 'edit']).optional().describe('Defines the team-level access.')
         }).optional()
-    }).optional().describe('Board policy settings.'),
-});
+    }).optional().describe('Board policy settings (update, create, copy).'),
+    team_id: z.string().optional().describe('Team ID. Filters boards for list; team that owns the new board for create and copy.'),
+    owner: z.string().optional().describe('Owner user ID to filter boards by (list only).'),
+    query: z.string().max(500).optional().describe('Text to search board names and descriptions (list only).'),
+    sort: z.enum(['default', 'last_modified', 'last_opened', 'last_created', 'alphabetically']).optional().describe('Sort order for listed boards (list only).'),
+    limit: z.number().min(1).max(50).optional().describe('Maximum number of boards to return (list only, 1-50).'),
+    offset: z.number().min(0).optional().describe('Number of boards to skip for pagination (list only).'),
+    board_id: BoardIdSchema.describe('Board to update, copy from or delete. Omit to use the default board for update and copy; required for delete.'),
+}).refine(
+    data => data.action !== 'delete' || data.board_id,
+    { message: 'board_id is required for delete action', path: ['board_id'] }
+);
 
-type UpdateBoardParams = z.infer<typeof updateBoardSchema>;
+type BoardOperationsParams = z.infer<typeof boardOperationsSchema>;
 
-export const boardOperationsTool: ToolDefinition<UpdateBoardParams> = {
+export const boardOperationsTool: ToolDefinition<BoardOperationsParams> = {
     name: 'mcp_miro_board_operations',
-    description: 'Configures global board settings including name, description, and access permissions. Use this tool to: (1) update board identity - change the name (up to 60 chars) or description (up to 300 chars) to better reflect board purpose, (2) manage permission policies - control who can use collaboration tools, copy content, or share the board with others, (3) set sharing policies - configure board access at organization, team, and public levels. Permissions can be set for different user types from view-only to full editing rights. Changes affect the entire board and all its content. This tool is essential when preparing boards for different audiences, transitioning from draft to final state, or adjusting access as project requirements change.',
-    parameters: updateBoardSchema,
+    description: 'Manages Miro boards themselves rather than their content with the following actions: (1) update - configure board settings including name (up to 60 chars), description (up to 300 chars), permission policies and sharing policies at organization, team, and public levels, (2) list - find boards visible to the token, filtered by team, owner or a text query, with limit/offset pagination, (3) create - start a new empty board with an optional name, description, policy and team, (4) copy - duplicate an existing board including its content, optionally overriding name, description, policy and team, (5) delete - permanently remove a board. Boards created or copied through this tool can be targeted with board_id by other tools for the rest of the session, which makes it easy to spin up scratch boards for workshops without touching the shared default board. The default board itself cannot be deleted with this tool. Updates affect the entire board and all its content.',
+    parameters: boardOperationsSchema,
     execute: async (args) => {
-        const url = `/v2/boards/${miroBoardId}`;
-        console.log(`Executing mcp_miro_board_operations: PATCH ${url}`);
-        console.log(`With body: ${JSON.stringify(args)}`);
+        const { action, board_id, name, description, policy, team_id, owner, query, sort, limit, offset } = args;
+        let url = '';
+        let method = '';
+        let body: Record<string, unknown> | undefined;
+        let queryParams: Record<string, unknown> | undefined;
+
+        switch (action) {
+            case 'list':
+                url = '/v2/boards';
+                method = 'get';
+                queryParams = { team_id, owner, query, sort, limit, offset };
+                break;
+            case 'create':
+                url = '/v2/boards';
+                method = 'post';
+                body = { name, description, policy, teamId: team_id };
+                break;
+            case 'copy':
+                url = '/v2/boards';
+                method = 'put';
+                queryParams = { copy_from: resolveBoardId(board_id) };
+                body = { name, description, policy, teamId: team_id };
+                break;
+            case 'delete': {
+                const boardId = resolveBoardId(board_id);
+                if (boardId === resolveBoardId()) {
+                    return {
+                        error: 'The default board cannot be deleted. Only boards other than MIRO_BOARD_ID can be removed.',
+                        status: 400,
+                        details: JSON.stringify({ board_id: boardId })
+                    };
+                }
+                url = `/v2/boards/${boardId}`;
+                method = 'delete';
+                break;
+            }
+            case 'update':
+            default:
+                url = `/v2/boards/${resolveBoardId(board_id)}`;
+                method = 'patch';
+                body = { name, description, policy };
+                break;
+        }
+
+        // Drop unset fields so they are not sent to the API
+        if (body) {
+            body = Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+        }
+        if (queryParams) {
+            queryParams = Object.fromEntries(Object.entries(queryParams).filter(([, value]) => value !== undefined));
+        }
+
+        console.log(`Executing mcp_miro_board_operations (${action}): ${method.toUpperCase()} ${url}`);
+        if (body) {
+            console.log(`With body: ${JSON.stringify(body)}`);
+        }
+        if (queryParams) {
+            console.log(`With query params: ${JSON.stringify(queryParams)}`);
+        }
+
         try {
-            const response = await miroClient.patch(url, args);
+            let response;
+
+            if (method === 'get') {
+                response = await miroClient.get(url, { params: queryParams });
+            } else if (method === 'post') {
+                response = await miroClient.post(url, body);
+            } else if (method === 'put') {
+                response = await miroClient.put(url, body, { params: queryParams });
+            } else if (method === 'patch') {
+                response = await miroClient.patch(url, body);
+            } else if (method === 'delete') {
+                response = await miroClient.delete(url);
+                if (response.status === 204) {
+                    forgetBoardId(board_id as string);
+                    return `Board ${board_id} deleted successfully (Status: ${response.status}).`;
+                }
+            }
+
+            if (!response) {
+                throw new Error(`Invalid method: ${method}`);
+            }
+
+            // Boards created during this session may be targeted by other tools
+            if ((action === 'create' || action === 'copy') && response.data?.id) {
+                permitBoardId(response.data.id);
+            }
+
             console.log(`API Call Successful: ${response.status}`);
             return formatApiResponse(response.data);
         } catch (error) {
@@ -212,6 +324,7 @@ const listBoardItemsSchema = z.object({
     limit: z.string().optional().describe('Maximum number of results per call (10-50). Default: 10.'),
     type: z.enum(['shape', 'text', 'sticky_note', 'image', 'document', 'card', 'app_card', 'preview', 'frame', 'embed']).optional().describe('Filter items by type.'),
     cursor: z.string().optional().describe('Pagination cursor for the next set of results.'),
+    board_id: BoardIdSchema,
 });
 
 type ListBoardItemsParams = z.infer<typeof listBoardItemsSchema>;
@@ -221,11 +334,12 @@ export const itemListOperationsTool: ToolDefinition<ListBoardItemsParams> = {
     description: 'Retrieves information about all items on a Miro board as a paginated flat collection. This tool is essential for understanding existing board content before making changes. Use it to: (1) get an inventory of all board elements with their properties, positions, and content, (2) filter results by specific item types like shapes, sticky notes, frames, etc., (3) retrieve items in manageable batches with pagination support (10-50 items per call). The response includes item IDs, coordinates, content, and their relationships to other elements. This is typically the first tool to use before modifying an existing board to discover what elements exist and understand the board structure. Results are returned as JSON that can be used to plan further operations.',
     parameters: listBoardItemsSchema,
     execute: async (args) => {
-        const url = `/v2/boards/${miroBoardId}/items`;
+        const { board_id, ...queryParams } = args;
+        const url = `/v2/boards/${resolveBoardId(board_id)}/items`;
         console.log(`Executing mcp_miro_item_list_operations: GET ${url}`);
-        console.log(`With query params: ${JSON.stringify(args)}`);
+        console.log(`With query params: ${JSON.stringify(queryParams)}`);
         try {
-            const response = await miroClient.get(url, { params: args });
+            const response = await miroClient.get(url, { params: queryParams });
             console.log(`API Call Successful: ${response.status}`);
             return formatApiResponse(response.data);
         } catch (error) {
@@ -239,7 +353,8 @@ const updateItemPositionOrParentSchema = z.object({
     item_id: z.string().describe('Unique identifier (ID) of the item to update.'),
     position: PositionChangeSchema.optional().describe('Updated position.'),
     parent: z.object({ id: z.string().optional() }).optional().describe('Updated parent frame ID.'),
-    data: z.record(z.unknown()).optional().describe('Contains data information applicable for each item type.')
+    data: z.record(z.unknown()).optional().describe('Contains data information applicable for each item type.'),
+    board_id: BoardIdSchema
 }).passthrough();
 
 type UpdateItemPositionOrParentParams = z.infer<typeof updateItemPositionOrParentSchema>;
@@ -253,13 +368,14 @@ ${MCP_POSITIONING_GUIDE}
 LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be nested inside other frames via API.`,
     parameters: updateItemPositionOrParentSchema,
     execute: async (args) => {
-        const { item_id, ...requestBody } = args;
+        const { item_id, board_id, ...requestBody } = args;
+        const boardId = resolveBoardId(board_id);
         
         // First, check if this is a parent assignment and get the item type
         if (requestBody.parent && requestBody.parent.id) {
             try {
                 // Get the item type
-                const itemResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${item_id}`);
+                const itemResponse = await miroClient.get(`/v2/boards/${boardId}/items/${item_id}`);
                 const itemType = itemResponse.data.type;
                 
                 // Check if we need to handle this item specially
@@ -272,7 +388,7 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
                 if (itemType === 'frame') {
                     try {
                         // Get parent type to confirm it's a frame
-                        const parentResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${requestBody.parent.id}`);
+                        const parentResponse = await miroClient.get(`/v2/boards/${boardId}/items/${requestBody.parent.id}`);
                         const parentType = parentResponse.data.type;
                         
                         if (parentType === 'frame') {
@@ -289,7 +405,7 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
             }
         }
         
-        const url = `/v2/boards/${miroBoardId}/items/${item_id}`;
+        const url = `/v2/boards/${boardId}/items/${item_id}`;
         console.log(`Executing mcp_miro_update_item_position_or_parent: PATCH ${url}`);
         
         // Check if we need parent geometry for position validation
@@ -299,7 +415,7 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
         if (requestBody.position && requestBody.parent?.id) {
             try {
                 // Get parent item to retrieve its dimensions
-                const parentResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${requestBody.parent.id}`);
+                const parentResponse = await miroClient.get(`/v2/boards/${boardId}/items/${requestBody.parent.id}`);
                 parentGeometry = parentResponse.data.geometry;
                 
                 // Check for reference system in the position
@@ -366,14 +482,16 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
                 console.log(`Translated from parent_percentage: (${x}%,${y}%) -> (${normalizedPosition.x},${normalizedPosition.y})`);
             }
             
-            // Remove all internal tracking properties before API call
+            // parent_top_left is already in the format Miro expects, no translation needed
+        }
+        
+        // Remove all internal tracking properties before API call
+        if (normalizedPosition) {
             delete normalizedPosition.__refSystem;
             delete normalizedPosition.__isPercentageX;
             delete normalizedPosition.__isPercentageY;
             delete normalizedPosition.__originalX;
             delete normalizedPosition.__originalY;
-            
-            // parent_top_left is already in the format Miro expects, no translation needed
         }
         
         // Handle data conversion if necessary
@@ -386,7 +504,7 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
         if (requestBody.data) {
             try {
                 // Get the item type to check if it's a frame
-                const itemResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${item_id}`);
+                const itemResponse = await miroClient.get(`/v2/boards/${boardId}/items/${item_id}`);
                 const itemType = itemResponse.data.type;
                 
                 if (itemType === 'frame' && requestBody.data.content && !requestBody.data.title) {
@@ -423,7 +541,8 @@ LIMITATIONS: Connectors cannot be assigned to parent frames. Frames cannot be ne
 
 // Tool: Item Deletion Operations
 const deleteItemSchema = z.object({
-    item_id: z.string().describe('Unique identifier (ID) of the item to delete.')
+    item_id: z.string().describe('Unique identifier (ID) of the item to delete.'),
+    board_id: BoardIdSchema
 });
 
 type DeleteItemParams = z.infer<typeof deleteItemSchema>;
@@ -433,7 +552,7 @@ export const itemDeletionOperationsTool: ToolDefinition<DeleteItemParams> = {
     description: 'Permanently removes any item from a Miro board using its unique identifier. This operation is immediate and irreversible - deleted items cannot be recovered. Use this tool when you need to clean up a board by removing outdated, incorrect, or unnecessary elements. It works with all item types including shapes, sticky notes, frames, connectors, and media. When an item is deleted, all connections to it (like connector lines) may become orphaned or are automatically removed depending on the item type. For frames, deleting the frame does not delete the items inside it - they will remain on the board but will no longer be contained within the frame. Always verify the item ID before deletion to avoid removing critical content.',
     parameters: deleteItemSchema,
     execute: async (args) => {
-        const url = `/v2/boards/${miroBoardId}/items/${args.item_id}`;
+        const url = `/v2/boards/${resolveBoardId(args.board_id)}/items/${args.item_id}`;
         console.log(`Executing mcp_miro_item_deletion_operations: DELETE ${url}`);
         try {
             const response = await miroClient.delete(url);
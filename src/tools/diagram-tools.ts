@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../types/tool-types';
+import { resolveBoardId } from '../client/board-access';
+import { formatApiResponse, formatApiError, ErrorResponse } from '../utils/api-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { DiagramParseError } from '../diagrams/diagram-graph';
+import { parseMermaid, toMermaid } from '../diagrams/mermaid';
+import { parseDot, toDot } from '../diagrams/dot';
+import { readDiagram, renderDiagram } from '../diagrams/board-diagram';
+
+// Diagram Operation schemas
+const DiagramOperationsSchema = z.object({
+    action: z.enum(['import_mermaid', 'export_mermaid', 'import_dot', 'export_dot']).describe('The action to perform.'),
+    source: z.string().optional().describe('Diagram source text (required for import actions), e.g. "flowchart LR\\n  A[Start] --> B{Ok?}" or "digraph { api -> db }".'),
+    position: z.object({
+        x: z.number().describe('X-axis coordinate in dp.'),
+        y: z.number().describe('Y-axis coordinate in dp.')
+    }).optional().describe('Canvas position of the imported diagram\'s center. Default: 0, 0.'),
+    connector_shape: z.enum(['straight', 'elbowed', 'curved']).optional().describe('Path of the connectors drawn for links. Default: elbowed.'),
+    frame_id: z.string().optional().describe('For export actions: only export the contents of this frame. Default: the whole board.'),
+    direction: z.enum(['TB', 'BT', 'LR', 'RL']).optional().describe('For export actions: direction written into the diagram. Default: LR when connectors mostly run sideways, TB otherwise.'),
+    board_id: BoardIdSchema
+}).refine(
+    data => !data.action.startsWith('import_') || data.source,
+    { message: 'source is required for import actions', path: ['source'] }
+);
+
+type DiagramOperationsParams = z.infer<typeof DiagramOperationsSchema>;
+
+// Diagram operations tool
+export const diagramOperationsTool: ToolDefinition<DiagramOperationsParams, string | ErrorResponse> = {
+    name: 'mcp_miro_diagram_operations',
+    description: 'Converts between Miro boards and diagrams written in text notations. Use this tool to: (1) import_mermaid - draw a Mermaid flowchart ("flowchart" or "graph" syntax) as shapes joined by connectors. Node shapes map to their closest Miro shapes (rectangle, rounded rectangle, rhombus for decisions, circle, hexagon, parallelogram, trapezoid, cylinder and more), link labels become connector captions, dotted and thick links keep their style, and each subgraph becomes a frame holding its nodes. Nodes are laid out automatically in layers along the flowchart\'s direction, so they never overlap. Nested subgraphs are merged into their outermost one, because frames cannot be nested. Styling statements (style, classDef, class, linkStyle) and click handlers are skipped; the result lists everything that was skipped in warnings. The result maps every Mermaid node ID to the ID of the shape drawn for it, and every subgraph ID to its frame. Syntax errors are reported with their line number and nothing is drawn. (2) export_mermaid - write the shapes, sticky notes and connectors of the board, or of one frame with frame_id, as a Mermaid flowchart to paste into pull requests and docs. Node labels are the items\' text, connector captions become link labels, and frames become subgraphs. Items of other types are included when a connector touches them. Node IDs in the source (n1, n2, ...) are numbered in reading order; node_ids and frame_ids map them back to board item IDs. (3) import_dot - draw a Graphviz graph or digraph the same way. Node shape, label, color and fillcolor attributes, default attributes (node [...], edge [...]), rankdir, edge labels, styles (dashed, dotted, bold, invis), arrowheads and dir are supported; subgraphs named "cluster..." become frames titled with their label. Colors must be hex or common names such as red or lightblue. (4) export_dot - write the board or one frame as a Graphviz digraph, with frames as clusters.',
+    parameters: DiagramOperationsSchema,
+    execute: async (args) => {
+        const { action, source, position, connector_shape, frame_id, direction, board_id } = args;
+        const boardId = resolveBoardId(board_id);
+
+        console.log(`Executing diagram_operations (${action}) on board ${boardId}`);
+
+        try {
+            switch (action) {
+                case 'import_mermaid':
+                case 'import_dot': {
+                    const graph = action === 'import_mermaid' ? parseMermaid(source as string) : parseDot(source as string);
+                    const rendered = await renderDiagram(boardId, graph, { center: position, connectorShape: connector_shape });
+                    return formatApiResponse({
+                        message: `Drew ${graph.nodes.length} shapes, ${rendered.connector_ids.length} connectors and ${Object.keys(rendered.frame_ids).length} frames.`,
+                        ...rendered
+                    });
+                }
+                case 'export_mermaid':
+                case 'export_dot': {
+                    const diagram = await readDiagram(boardId, { frameId: frame_id, direction });
+                    return formatApiResponse({
+                        source: action === 'export_mermaid' ? toMermaid(diagram.graph) : toDot(diagram.graph),
+                        node_ids: diagram.node_ids,
+                        frame_ids: diagram.frame_ids,
+                        warnings: diagram.graph.warnings
+                    });
+                }
+            }
+
+            throw new Error(`Invalid action: ${action}`);
+        } catch (error) {
+            if (error instanceof DiagramParseError) {
+                return {
+                    error: error.message,
+                    status: 400,
+                    details: JSON.stringify({ line: error.line })
+                };
+            }
+            return formatApiError(error);
+        }
+    },
+};
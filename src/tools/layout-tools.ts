@@ -0,0 +1,493 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../types/tool-types';
+import miroClient from '../client/miro-client';
+import { getBoardConnectors, getBoardItems } from '../client/board-cache';
+import { resolveBoardId } from '../client/board-access';
+import { formatApiResponse, formatApiError, ErrorResponse } from '../utils/api-utils';
+import { FRAME_PADDING, generateContentSummary, getCanvasCenter, getItemPosition, getItemSize } from '../utils/data-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { layeredLayout, LayoutResult } from '../diagrams/layered-layout';
+import { gridLayout } from '../diagrams/grid-layout';
+import { MiroItem } from '../types/miro-types';
+import { findOverlaps } from '../utils/placement-utils';
+
+
+// Layout Operation schemas
+const LayoutOperationsSchema = z.object({
+    action: z.enum(['layered', 'grid', 'row', 'column', 'align', 'distribute']).describe('The action to perform.'),
+    item_ids: z.array(z.string()).optional().describe('IDs of the items to lay out. Except for align and distribute, they must all be on the canvas or all in the same frame.'),
+    frame_id: z.string().optional().describe('Lay out every item in this frame instead of listing item_ids.'),
+    direction: z.enum(['TB', 'BT', 'LR', 'RL']).optional().describe('For layered: direction the connectors flow in: TB (top to bottom), BT, LR (left to right) or RL. Default: TB.'),
+    layer_spacing: z.number().min(0).optional().describe('For layered: gap between layers in dp. Default: 120.'),
+    node_spacing: z.number().min(0).optional().describe('For layered: gap between neighbouring items within a layer in dp. Default: 60.'),
+    columns: z.number().int().min(1).optional().describe('For grid: number of columns. Default: about as many columns as rows.'),
+    gap: z.number().min(0).optional().describe('For grid, row and column: gap between neighbouring items in dp. Default: 40. For distribute: a fixed gap to use instead of spreading the items between the outermost ones.'),
+    alignment: z.enum(['start', 'center', 'end']).optional().describe('For grid, row and column: where items smaller than their cell sit in it. start is the top or left edge, end the bottom or right edge. Default: center.'),
+    sort_by: z.enum(['text', 'color', 'created_at']).optional().describe('For grid, row and column: order items by their text, fill color or creation time. Default: the order of item_ids, or reading order for frame_id.'),
+    sort_order: z.enum(['asc', 'desc']).optional().describe('Direction of sort_by. Default: asc.'),
+    edge: z.enum(['left', 'center', 'right', 'top', 'middle', 'bottom']).optional().describe('For align (required): the edge or center line to line the items up on. center and middle are the vertical and horizontal center lines.'),
+    reference_item_id: z.string().optional().describe('For align: line the items up on this item instead of on the area they cover together. The reference item does not move.'),
+    axis: z.enum(['horizontal', 'vertical']).optional().describe('For distribute (required): spread the items left to right or top to bottom.'),
+    resize_frame: z.boolean().optional().describe('For layered, grid, row and column: resize the frame holding the items so its contents fit with some padding. Default: false.'),
+    board_id: BoardIdSchema
+}).refine(
+    data => !!data.item_ids?.length !== !!data.frame_id,
+    { message: 'Provide either item_ids or frame_id', path: ['item_ids'] }
+).refine(
+    data => data.action !== 'align' || data.edge,
+    { message: 'edge is required for align', path: ['edge'] }
+).refine(
+    data => data.action !== 'distribute' || data.axis,
+    { message: 'axis is required for distribute', path: ['axis'] }
+);
+
+type LayoutOperationsParams = z.infer<typeof LayoutOperationsSchema>;
+
+type Point = { x: number; y: number };
+
+type SortKey = NonNullable<LayoutOperationsParams['sort_by']>;
+
+type AlignEdge = NonNullable<LayoutOperationsParams['edge']>;
+
+// Canvas center and size of an item
+type Box = Point & { id: string; width: number; height: number };
+
+type Bounds = { left: number; top: number; right: number; bottom: number };
+
+/**
+ * Finds the items to lay out, or explains why they cannot be laid out together
+ */
+function selectItems(
+    boardId: string,
+    itemsById: Map<string, MiroItem>,
+    itemIds: string[] | undefined,
+    frameId: string | undefined,
+    allowMixedParents: boolean
+): MiroItem[] | ErrorResponse {
+    if (frameId) {
+        const frame = itemsById.get(frameId);
+        if (!frame || frame.type !== 'frame') {
+            return {
+                error: `Frame ${frameId} not found on board ${boardId}.`,
+                status: 404,
+                details: 'List the board\'s frames with mcp_miro_frame_operations (action "get_all").'
+            };
+        }
+        return Array.from(itemsById.values()).filter(item => item.parent?.id === frameId);
+    }
+
+    const ids = Array.from(new Set(itemIds));
+    const missing = ids.filter(id => !itemsById.has(id));
+    if (missing.length > 0) {
+        return {
+            error: `${missing.length} item(s) not found on board ${boardId}: ${missing.join(', ')}.`,
+            status: 404,
+            details: JSON.stringify({ missing_item_ids: missing })
+        };
+    }
+
+    const selected = ids.map(id => itemsById.get(id)!);
+    const parents = new Set(selected.map(item => item.parent?.id ?? null));
+    if (!allowMixedParents && parents.size > 1) {
+        return {
+            error: 'The items must all be on the canvas or all in the same frame, because their positions are measured from different origins. Only align and distribute accept items from different frames.',
+            status: 400,
+            details: JSON.stringify({ parent_ids: Array.from(parents) })
+        };
+    }
+    return selected;
+}
+
+/**
+ * Top-left corner of the area the items cover, in the coordinates of their parent
+ */
+function topLeftCorner(items: MiroItem[]): Point {
+    return items.reduce((corner, item) => {
+        const { width, height } = getItemSize(item);
+        return {
+            x: Math.min(corner.x, Number(item.position?.x) - width / 2),
+            y: Math.min(corner.y, Number(item.position?.y) - height / 2)
+        };
+    }, { x: Infinity, y: Infinity });
+}
+
+/**
+ * Resizes a frame while keeping its top-left corner, so the positions of its children stay where they are
+ */
+async function resizeFrame(boardId: string, frame: MiroItem, width: number, height: number): Promise<MiroItem> {
+    const current = getItemSize(frame);
+    const left = Number(frame.position?.x) - current.width / 2;
+    const top = Number(frame.position?.y) - current.height / 2;
+    const response = await miroClient.patch(`/v2/boards/${boardId}/frames/${frame.id}`, {
+        position: { x: left + width / 2, y: top + height / 2, origin: 'center' },
+        geometry: { width, height }
+    });
+    return response.data;
+}
+
+/**
+ * Moves the items to their places in a layout whose top-left corner is at origin, in the coordinates of the items' parent.
+ * When a frame is given, it is resized to fit all of its children.
+ */
+async function placeItems(
+    boardId: string,
+    items: MiroItem[],
+    selected: MiroItem[],
+    layout: LayoutResult,
+    origin: Point,
+    frame: MiroItem | undefined
+): Promise<{ positions: Record<string, Point>; moved: number; frame?: MiroItem }> {
+    const positions: Record<string, Point> = {};
+    for (const [id, position] of layout.positions) {
+        positions[id] = { x: Math.round(origin.x + position.x), y: Math.round(origin.y + position.y) };
+    }
+
+    let resized: MiroItem | undefined;
+    let finalSize: { width: number; height: number } | undefined;
+    if (frame) {
+        // Fit every child, including those that were not laid out
+        let right = 0;
+        let bottom = 0;
+        for (const child of items.filter(item => item.parent?.id === frame.id)) {
+            const { width, height } = getItemSize(child);
+            const center = positions[child.id] ?? { x: Number(child.position?.x), y: Number(child.position?.y) };
+            right = Math.max(right, center.x + width / 2);
+            bottom = Math.max(bottom, center.y + height / 2);
+        }
+        finalSize = { width: Math.round(right + FRAME_PADDING), height: Math.round(bottom + FRAME_PADDING) };
+
+        // Grow the frame before moving items into the new space, and shrink it only once they are in place
+        const current = getItemSize(frame);
+        if (finalSize.width > current.width || finalSize.height > current.height) {
+            resized = await resizeFrame(boardId, frame, Math.max(finalSize.width, current.width), Math.max(finalSize.height, current.height));
+        }
+    }
+
+    let moved = 0;
+    for (const item of selected) {
+        const position = positions[item.id];
+        if (Number(item.position?.x) === position.x && Number(item.position?.y) === position.y) continue;
+        await miroClient.patch(`/v2/boards/${boardId}/items/${item.id}`, { position: { ...position, origin: 'center' } });
+        moved++;
+    }
+
+    if (frame && finalSize) {
+        const current = getItemSize(resized ?? frame);
+        if (current.width !== finalSize.width || current.height !== finalSize.height) {
+            resized = await resizeFrame(boardId, resized ?? frame, finalSize.width, finalSize.height);
+        }
+    }
+
+    return { positions, moved, frame: resized };
+}
+
+/**
+ * Canvas centers that line the boxes up on one edge or center line of the target area
+ */
+function alignBoxes(boxes: Box[], edge: AlignEdge, target: Bounds): Map<string, Point> {
+    const centers = new Map<string, Point>();
+    for (const box of boxes) {
+        let { x, y } = box;
+        switch (edge) {
+            case 'left': x = target.left + box.width / 2; break;
+            case 'center': x = (target.left + target.right) / 2; break;
+            case 'right': x = target.right - box.width / 2; break;
+            case 'top': y = target.top + box.height / 2; break;
+            case 'middle': y = (target.top + target.bottom) / 2; break;
+            case 'bottom': y = target.bottom - box.height / 2; break;
+        }
+        centers.set(box.id, { x, y });
+    }
+    return centers;
+}
+
+/**
+ * Canvas centers that space the boxes evenly along an axis, in their current order.
+ * Without a fixed gap the outermost boxes stay where they are.
+ */
+function distributeBoxes(boxes: Box[], axis: 'horizontal' | 'vertical', gap: number | undefined): { centers: Map<string, Point>; gap: number } {
+    const horizontal = axis === 'horizontal';
+    const start = (box: Box) => horizontal ? box.x - box.width / 2 : box.y - box.height / 2;
+    const size = (box: Box) => horizontal ? box.width : box.height;
+    const sorted = [...boxes].sort((a, b) => (horizontal ? a.x - b.x : a.y - b.y));
+
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const occupied = sorted.reduce((sum, box) => sum + size(box), 0);
+    const spacing = gap ?? (start(last) + size(last) - start(first) - occupied) / (sorted.length - 1);
+
+    const centers = new Map<string, Point>();
+    let offset = start(first);
+    for (const box of sorted) {
+        const center = offset + size(box) / 2;
+        centers.set(box.id, horizontal ? { x: center, y: box.y } : { x: box.x, y: center });
+        offset += size(box) + spacing;
+    }
+    return { centers, gap: spacing };
+}
+
+/**
+ * Moves items so their centers land on the given canvas points, whichever frame they are in.
+ * Frames move first, so their children are placed relative to where the frame ends up.
+ */
+async function moveToCanvasCenters(boardId: string, selected: MiroItem[], centers: Map<string, Point>, itemsById: Map<string, MiroItem>): Promise<number> {
+    const current = new Map(itemsById);
+    const ordered = [...selected].sort((a, b) => Number(b.type === 'frame') - Number(a.type === 'frame'));
+
+    let moved = 0;
+    for (const item of ordered) {
+        const position = getItemPosition(item, centers.get(item.id)!, current);
+        if (Number(item.position?.x) === position.x && Number(item.position?.y) === position.y) continue;
+        await miroClient.patch(`/v2/boards/${boardId}/items/${item.id}`, { position: { ...position, origin: 'center' } });
+        current.set(item.id, { ...item, position: { ...item.position, ...position } });
+        moved++;
+    }
+    return moved;
+}
+
+/**
+ * Orders items top to bottom, then left to right
+ */
+function compareReadingOrder(a: MiroItem, b: MiroItem): number {
+    return (Number(a.position?.y) - Number(b.position?.y)) || (Number(a.position?.x) - Number(b.position?.x));
+}
+
+/**
+ * Sorts items by a property; items without it go last, and ties keep their order
+ */
+function sortItems(items: MiroItem[], sortBy: SortKey, order: 'asc' | 'desc'): MiroItem[] {
+    const keyOf = (item: MiroItem): string | undefined => {
+        switch (sortBy) {
+            case 'text':
+                return generateContentSummary(item)?.toLowerCase();
+            case 'color':
+                return (item.style?.fillColor as string | undefined)?.toLowerCase();
+            case 'created_at':
+                return item.createdAt as string | undefined;
+        }
+    };
+    const keys = new Map(items.map(item => [item.id, keyOf(item)]));
+    return [...items].sort((a, b) => {
+        const keyA = keys.get(a.id);
+        const keyB = keys.get(b.id);
+        if (keyA === undefined || keyB === undefined) return Number(keyA === undefined) - Number(keyB === undefined);
+        const compared = keyA.localeCompare(keyB, undefined, { numeric: true });
+        return order === 'asc' ? compared : -compared;
+    });
+}
+
+/**
+ * Aligns or distributes items in canvas coordinates, so items in different frames can be lined up together
+ */
+async function alignOrDistribute(
+    boardId: string,
+    action: 'align' | 'distribute',
+    selected: MiroItem[],
+    itemsById: Map<string, MiroItem>,
+    options: Pick<LayoutOperationsParams, 'edge' | 'reference_item_id' | 'axis' | 'gap'>
+): Promise<string | ErrorResponse> {
+    const reference = options.reference_item_id ? itemsById.get(options.reference_item_id) : undefined;
+    if (options.reference_item_id && !reference) {
+        return {
+            error: `Reference item ${options.reference_item_id} not found on board ${boardId}.`,
+            status: 404,
+            details: JSON.stringify({ missing_item_ids: [options.reference_item_id] })
+        };
+    }
+
+    const boxes = selected
+        .filter(item => item.id !== reference?.id)
+        .map(item => ({ id: item.id, ...getCanvasCenter(item, itemsById), ...getItemSize(item) }));
+    const needed = action === 'align' && reference ? 1 : 2;
+    if (boxes.length < needed) {
+        return {
+            error: `${action} needs at least ${needed} item(s) to move, but got ${boxes.length}.`,
+            status: 400,
+            details: action === 'align' ? 'Pass at least two items, or one item and a reference_item_id.' : 'Pass at least two items.'
+        };
+    }
+
+    let centers: Map<string, Point>;
+    let message: string;
+    if (action === 'align') {
+        const target = reference ? boundsOf([{ id: reference.id, ...getCanvasCenter(reference, itemsById), ...getItemSize(reference) }]) : boundsOf(boxes);
+        centers = alignBoxes(boxes, options.edge!, target);
+        message = `Aligned ${boxes.length} items on the ${options.edge} ${['center', 'middle'].includes(options.edge!) ? 'line' : 'edge'} of ${reference ? `item ${reference.id}` : 'the area they cover'}`;
+    } else {
+        const distributed = distributeBoxes(boxes, options.axis!, options.gap);
+        centers = distributed.centers;
+        message = `Distributed ${boxes.length} items ${options.axis}ly, ${Math.round(distributed.gap * 100) / 100} dp apart`;
+    }
+
+    const moved = await moveToCanvasCenters(boardId, selected.filter(item => centers.has(item.id)), centers, itemsById);
+    return formatApiResponse({
+        message: `${message}; ${moved} items moved.`,
+        positions: Object.fromEntries(centers),
+        relative_to: 'canvas_center'
+    });
+}
+
+/**
+ * Area covered by a set of boxes
+ */
+function boundsOf(boxes: Box[]): Bounds {
+    return {
+        left: Math.min(...boxes.map(box => box.x - box.width / 2)),
+        top: Math.min(...boxes.map(box => box.y - box.height / 2)),
+        right: Math.max(...boxes.map(box => box.x + box.width / 2)),
+        bottom: Math.max(...boxes.map(box => box.y + box.height / 2))
+    };
+}
+
+// Layout operations tool
+export const layoutOperationsTool: ToolDefinition<LayoutOperationsParams, string | ErrorResponse> = {
+    name: 'mcp_miro_layout_operations',
+    description: 'Rearranges existing items on a Miro board so they no longer overlap. Use this tool to: (1) layered - lay out connected items as a layered graph, like a flowchart. Pass the items with item_ids, or every item in a frame with frame_id; the connectors between them decide the layout. Each item moves to a layer after the items pointing to it, following direction (TB top to bottom, LR left to right), and items within a layer are ordered to keep connectors from crossing. Items without connectors are placed in the first layer. (2) grid - arrange items in a grid of columns, for example to tidy up 30 sticky notes in a frame. (3) row - arrange items side by side. (4) column - stack items top to bottom. Grid, row and column keep the order of item_ids, or take the contents of a frame in reading order, unless sort_by orders them by text, fill color (which groups items of the same color) or creation time. Each column is as wide as its widest item and each row as tall as its tallest, so items of different sizes never overlap; alignment places smaller items within their cells. For these actions, the items keep their sizes and the layout starts at the top-left corner of the area they covered before. Items must all be on the canvas or all in the same frame; set resize_frame to fit that frame around its contents afterwards (with frame_id, the layout then starts just inside the frame). The result lists the new center of every item, measured from the frame\'s top-left corner for items in a frame. (5) align - line items up on the left, center, right, top, middle or bottom of the area they cover together, or of a reference_item_id that stays in place, like the align buttons in the Miro toolbar. (6) distribute - space items evenly left to right or top to bottom between the outermost ones, which stay in place, or with a fixed gap. Align and distribute work across frames: items on the canvas and in different frames can be lined up together, and the result lists their new centers in canvas coordinates.',
+    parameters: LayoutOperationsSchema,
+    execute: async (args) => {
+        const {
+            action, item_ids, frame_id, direction, layer_spacing, node_spacing, columns, gap, alignment, sort_by, sort_order,
+            edge, reference_item_id, axis, resize_frame, board_id
+        } = args;
+        const boardId = resolveBoardId(board_id);
+
+        console.log(`Executing layout_operations (${action}) on board ${boardId}`);
+
+        try {
+            const items = await getBoardItems(boardId);
+            const itemsById = new Map(items.map(item => [item.id, item]));
+            const selected = selectItems(boardId, itemsById, item_ids, frame_id, action === 'align' || action === 'distribute');
+            if (!Array.isArray(selected)) return selected;
+
+            if (action === 'align' || action === 'distribute') {
+                return await alignOrDistribute(boardId, action, selected, itemsById, { edge, reference_item_id, axis, gap });
+            }
+
+            const parentId = frame_id ?? selected[0]?.parent?.id;
+            const frame = parentId ? itemsById.get(parentId) : undefined;
+            if (resize_frame && !frame) {
+                return {
+                    error: 'resize_frame only applies to items inside a frame.',
+                    status: 400,
+                    details: 'Leave resize_frame unset for items on the canvas.'
+                };
+            }
+            if (selected.length === 0) {
+                return formatApiResponse({ message: 'There are no items to lay out.', positions: {} });
+            }
+
+            let layout: LayoutResult;
+            let message: string;
+            if (action === 'layered') {
+                const selectedIds = new Set(selected.map(item => item.id));
+                const edges = (await getBoardConnectors(boardId))
+                    .filter(connector => selectedIds.has(connector.startItem?.id || '') && selectedIds.has(connector.endItem?.id || ''))
+                    .map(connector => ({ from: connector.startItem!.id, to: connector.endItem!.id }));
+                layout = layeredLayout(
+                    selected.map(item => ({ id: item.id, ...getItemSize(item) })),
+                    edges,
+                    { direction: direction ?? 'TB', layerSpacing: layer_spacing, nodeSpacing: node_spacing }
+                );
+                message = `Laid out ${selected.length} items along ${edges.length} connectors`;
+            } else {
+                // Items listed by ID keep the given order, the contents of a frame are taken in reading order
+                const ordered = frame_id ? [...selected].sort(compareReadingOrder) : selected;
+                const sorted = sort_by ? sortItems(ordered, sort_by, sort_order ?? 'asc') : ordered;
+                const columnCount = action === 'row' ? sorted.length
+                    : action === 'column' ? 1
+                    : columns ?? Math.ceil(Math.sqrt(sorted.length));
+                layout = gridLayout(sorted.map(item => ({ id: item.id, ...getItemSize(item) })), { columns: columnCount, gap, alignment });
+                const rowCount = Math.ceil(sorted.length / Math.min(columnCount, sorted.length));
+                message = `Arranged ${sorted.length} items in ${rowCount} row(s) of up to ${Math.min(columnCount, sorted.length)}`;
+            }
+
+            // Start where the items were, or just inside the frame when the frame is fitted around them
+            const origin = resize_frame && frame_id ? { x: FRAME_PADDING, y: FRAME_PADDING } : topLeftCorner(selected);
+            const placed = await placeItems(boardId, items, selected, layout, origin, resize_frame ? frame : undefined);
+
+            return formatApiResponse({
+                message: `${message}; ${placed.moved} items moved.`,
+                positions: placed.positions,
+                relative_to: frame ? 'parent_top_left' : 'canvas_center',
+                bounds: { x: Math.round(origin.x + layout.width / 2), y: Math.round(origin.y + layout.height / 2), width: Math.round(layout.width), height: Math.round(layout.height) },
+                ...(placed.frame && { frame: { id: placed.frame.id, position: placed.frame.position, geometry: placed.frame.geometry } })
+            });
+        } catch (error) {
+            return formatApiError(error);
+        }
+    },
+};
+
+// Overlap Detection schemas
+const OverlapDetectionSchema = z.object({
+    frame_id: z.string().optional().describe('Only check the items in this frame. Default: every item on the board.'),
+    item_types: z.array(z.string()).optional().describe('Only check items of these types, e.g. ["sticky_note", "shape"].'),
+    limit: z.number().int().min(1).max(500).optional().describe('Maximum number of overlapping pairs to list, largest overlaps first. Default: 50.'),
+    board_id: BoardIdSchema
+});
+
+type OverlapDetectionParams = z.infer<typeof OverlapDetectionSchema>;
+
+/**
+ * Whether one item is inside the other, like a sticky note in its frame
+ */
+function isAncestor(ancestor: MiroItem | undefined, item: MiroItem | undefined, itemsById: Map<string, MiroItem>): boolean {
+    const seen = new Set<string>();
+    for (let parentId = item?.parent?.id; parentId && !seen.has(parentId); parentId = itemsById.get(parentId)?.parent?.id) {
+        if (parentId === ancestor?.id) return true;
+        seen.add(parentId);
+    }
+    return false;
+}
+
+// Overlap detection tool
+export const overlapDetectionTool: ToolDefinition<OverlapDetectionParams, string | ErrorResponse> = {
+    name: 'mcp_miro_overlap_detection',
+    description: 'Finds items on a Miro board that cover part of each other. Use this tool to check a board for items dropped on top of one another, for example after creating many items, and then move them apart with mcp_miro_layout_operations. Checks every item on the board, or only the items in frame_id, optionally limited to item_types. Items inside a frame do not count as overlapping that frame, and items that only touch do not count. The result lists the overlapping pairs, largest first, with the width, height and area of the overlap in dp and its ratio: the share of the smaller item that is covered, from 0 to 1.',
+    parameters: OverlapDetectionSchema,
+    execute: async (args) => {
+        const { frame_id, item_types, limit, board_id } = args;
+        const boardId = resolveBoardId(board_id);
+
+        console.log(`Executing overlap_detection on board ${boardId}`);
+
+        try {
+            const items = await getBoardItems(boardId);
+            const itemsById = new Map(items.map(item => [item.id, item]));
+            if (frame_id && itemsById.get(frame_id)?.type !== 'frame') {
+                return {
+                    error: `Frame ${frame_id} not found on board ${boardId}.`,
+                    status: 404,
+                    details: 'List the board\'s frames with mcp_miro_frame_operations (action "get_all").'
+                };
+            }
+
+            const checked = items.filter(item =>
+                (!frame_id || item.parent?.id === frame_id) && (!item_types?.length || item_types.includes(item.type)));
+            const boxes: Box[] = checked.map(item => ({ id: item.id, ...getCanvasCenter(item, itemsById), ...getItemSize(item) }));
+            const overlaps = findOverlaps(boxes, (a, b) =>
+                isAncestor(itemsById.get(a.id), itemsById.get(b.id), itemsById) || isAncestor(itemsById.get(b.id), itemsById.get(a.id), itemsById))
+                .sort((a, b) => b.ratio - a.ratio || b.overlap.area - a.overlap.area);
+            const listed = overlaps.slice(0, limit ?? 50);
+
+            return formatApiResponse({
+                message: overlaps.length === 0
+                    ? `No overlapping items among ${checked.length} items.`
+                    : `Found ${overlaps.length} overlapping pair(s) among ${checked.length} items${listed.length < overlaps.length ? `; listing the first ${listed.length}` : ''}.`,
+                overlap_count: overlaps.length,
+                overlaps: listed.map(overlap => ({
+                    item_ids: overlap.item_ids,
+                    types: overlap.item_ids.map(id => itemsById.get(id)?.type),
+                    overlap: {
+                        width: Math.round(overlap.overlap.width),
+                        height: Math.round(overlap.overlap.height),
+                        area: Math.round(overlap.overlap.area)
+                    },
+                    ratio: overlap.ratio
+                }))
+            });
+        } catch (error) {
+            return formatApiError(error);
+        }
+    },
+};
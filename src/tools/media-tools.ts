@@ -1,10 +1,12 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { normalizeGeometryValues, normalizePositionValues, modificationHistory } from '../utils/data-utils';
-import { MCP_POSITIONING_GUIDE } from '../schemas/position-schema';
+import { MCP_POSITIONING_GUIDE, PlacementSchema } from '../schemas/position-schema';
+import { placeInFreeSpace } from '../utils/placement-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
 
 // Schema definitions for media operations
 const MediaItemSchema = z.object({
@@ -32,7 +34,9 @@ const MediaItemSchema = z.object({
         height: z.number().optional().describe('Height in pixels.'),
         rotation: z.number().optional().describe('Rotation angle in degrees (not available for embeds).'),
     }).optional().describe('Dimensions and rotation (fixed ratio for most media types).'),
-    parent: z.object({ id: z.string() }).optional().describe('Parent frame ID.')
+    parent: z.object({ id: z.string() }).optional().describe('Parent frame ID.'),
+    placement: PlacementSchema,
+    board_id: BoardIdSchema
 }).refine(
     data => !(['get', 'update', 'delete'].includes(data.action)) || data.item_id, 
     { message: 'item_id is required for get, update, and delete actions', path: ['item_id'] }
@@ -63,10 +67,11 @@ MEDIA-SPECIFIC NOTES:
 • Previews display link metadata with thumbnails
 • All media requires a valid URL source
 
-For creation, the data.url parameter is required. Images and documents maintain their aspect ratio automatically, so typically only specify width. Use this tool to add visual elements like screenshots, logos, diagrams, webpage previews, or PDF documentation to enhance board content with rich media.`,
+For creation, the data.url parameter is required. Images and documents maintain their aspect ratio automatically, so typically only specify width. Set placement to "free_space" to keep new media from covering existing items. Use this tool to add visual elements like screenshots, logos, diagrams, webpage previews, or PDF documentation to enhance board content with rich media.`,
     parameters: MediaItemSchema,
     execute: async (args) => {
-        const { action, type, item_id, data, position, geometry, parent } = args;
+        const { action, type, item_id, data, position, geometry, parent, board_id } = args;
+        const boardId = resolveBoardId(board_id);
         let url = '';
         let method = '';
         let body = null;
@@ -99,7 +104,7 @@ For creation, the data.url parameter is required. Images and documents maintain
         if (normalizedPosition && parent?.id) {
             try {
                 // Get parent item to retrieve its dimensions
-                const parentResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items/${parent.id}`);
+                const parentResponse = await miroClient.get(`/v2/boards/${boardId}/items/${parent.id}`);
                 const parentGeometry = parentResponse.data.geometry;
                 
                 if (parentGeometry) {
@@ -196,24 +201,24 @@ For creation, the data.url parameter is required. Images and documents maintain
         // Construct the URL based on action and type
         switch (action) {
             case 'create':
-                url = `/v2/boards/${miroBoardId}/${type}s`;
+                url = `/v2/boards/${boardId}/${type}s`;
                 method = 'post';
                 break;
             case 'get_all':
-                url = `/v2/boards/${miroBoardId}/items`;
+                url = `/v2/boards/${boardId}/items`;
                 method = 'get';
                 queryParams = { type };
                 break;
             case 'get':
-                url = `/v2/boards/${miroBoardId}/${type}s/${item_id}`;
+                url = `/v2/boards/${boardId}/${type}s/${item_id}`;
                 method = 'get';
                 break;
             case 'update':
-                url = `/v2/boards/${miroBoardId}/${type}s/${item_id}`;
+                url = `/v2/boards/${boardId}/${type}s/${item_id}`;
                 method = 'patch';
                 break;
             case 'delete':
-                url = `/v2/boards/${miroBoardId}/${type}s/${item_id}`;
+                url = `/v2/boards/${boardId}/${type}s/${item_id}`;
                 method = 'delete';
                 break;
         }
@@ -236,6 +241,10 @@ For creation, the data.url parameter is required. Images and documents maintain
                     response = await miroClient.get(url);
                 }
             } else if (method === 'post') {
+                if (args.placement === 'free_space') {
+                    const placementError = await placeInFreeSpace(boardId, type, body);
+                    if (placementError) return placementError;
+                }
                 response = await miroClient.post(url, body);
                 // Track creation in history
                 if (response.data) {
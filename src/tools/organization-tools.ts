@@ -1,11 +1,14 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError, ErrorResponse } from '../utils/api-utils';
-import { normalizeGeometryValues, normalizePositionValues, normalizeStyleValues, modificationHistory } from '../utils/data-utils';
+import { FRAME_PADDING, getItemSize, normalizeGeometryValues, normalizePositionValues, normalizeStyleValues, modificationHistory } from '../utils/data-utils';
 import { MCP_POSITIONING_GUIDE } from '../schemas/position-schema';
-import { AxiosError } from 'axios';
+import { BoardIdSchema } from '../schemas/board-schema';
+import { collectAll, paginateFrameChildren, paginateTags, paginateTaggedItems } from '../client/paginate';
+import { MiroItem, MiroTag } from '../types/miro-types';
+
 
 // Frame Operation schemas
 const FrameDataSchema = z.object({
@@ -17,8 +20,8 @@ const FrameStyleSchema = z.object({
 });
 
 const FrameOperationsSchema = z.object({
-    action: z.enum(['create', 'get', 'get_all', 'get_items', 'update', 'delete']).describe('The action to perform on frames.'),
-    item_id: z.string().optional().describe('The frame ID (required for get, get_items, update, delete actions).'),
+    action: z.enum(['create', 'get', 'get_all', 'get_items', 'update', 'delete', 'fit_to_contents']).describe('The action to perform on frames.'),
+    item_id: z.string().optional().describe('The frame ID (required for get, get_items, update, delete, fit_to_contents actions).'),
     data: FrameDataSchema.optional().describe('Frame data for create or update actions.'),
     style: FrameStyleSchema.optional().describe('Frame styling for create or update actions.'),
     position: z.object({
@@ -31,10 +34,12 @@ const FrameOperationsSchema = z.object({
         width: z.number().optional().describe('Width in pixels.'),
         height: z.number().optional().describe('Height in pixels.'),
         rotation: z.number().optional().describe('Rotation angle in degrees.'),
-    }).optional().describe('Dimensions for create or update actions.')
+    }).optional().describe('Dimensions for create or update actions.'),
+    padding: z.number().min(0).optional().describe('For fit_to_contents: space between the frame border and its contents in pixels. Default: 60.'),
+    board_id: BoardIdSchema
 }).refine(
-    data => !(['get', 'get_items', 'update', 'delete'].includes(data.action)) || data.item_id, 
-    { message: 'item_id is required for get, get_items, update, and delete actions', path: ['item_id'] }
+    data => !(['get', 'get_items', 'update', 'delete', 'fit_to_contents'].includes(data.action)) || data.item_id, 
+    { message: 'item_id is required for get, get_items, update, delete, and fit_to_contents actions', path: ['item_id'] }
 );
 
 type FrameOperationsParams = z.infer<typeof FrameOperationsSchema>;
@@ -43,7 +48,8 @@ type FrameOperationsParams = z.infer<typeof FrameOperationsSchema>;
 const GroupOperationsSchema = z.object({
     action: z.enum(['create', 'get_all', 'get', 'get_items', 'update', 'ungroup', 'delete']).describe('The action to perform on groups.'),
     group_id: z.string().optional().describe('The group ID (required for get, get_items, update, ungroup, delete actions).'),
-    item_ids: z.array(z.string()).optional().describe('Array of item IDs (required for create and update actions).')
+    item_ids: z.array(z.string()).optional().describe('Array of item IDs (required for create and update actions).'),
+    board_id: BoardIdSchema
 }).refine(
     data => !(['get', 'get_items', 'update', 'ungroup', 'delete'].includes(data.action)) || data.group_id, 
     { message: 'group_id is required for get, get_items, update, ungroup, and delete actions', path: ['group_id'] }
@@ -55,21 +61,32 @@ const GroupOperationsSchema = z.object({
 type GroupOperationsParams = z.infer<typeof GroupOperationsSchema>;
 
 // Tag Operation schemas
+
+// Item types the Miro API accepts tags on
+export const TAGGABLE_ITEM_TYPES = ['sticky_note', 'card'];
+
+const TagColorSchema = z.enum(['red', 'light_green', 'cyan', 'yellow', 'magenta', 'green', 'blue', 'gray', 'violet', 'dark_green', 'dark_blue', 'black']);
+
 const TagDataSchema = z.object({
-    title: z.string().min(1).max(128).describe('Tag name/title.'),
-    fillColor: z.enum(['red', 'light_green', 'cyan', 'yellow', 'magenta', 'green', 'blue', 'gray', 'violet', 'dark_green', 'dark_blue', 'black']).optional().describe('Background color name. Use named colors only, not hex codes.'),
+    title: z.string().min(1).max(128).optional().describe('Tag name/title (required for create).'),
+    fillColor: TagColorSchema.optional().describe('Background color name. Use named colors only, not hex codes.'),
 });
 
 const TagOperationsSchema = z.object({
     action: z.enum(['create', 'get_all', 'get', 'update', 'delete']).describe('The action to perform on tags.'),
-    tag_id: z.string().optional().describe('The tag ID (required for get, update, and delete actions).'),
+    tag_id: z.string().optional().describe('The tag ID (get, update and delete need tag_id or tag_title).'),
+    tag_title: z.string().min(1).optional().describe('Title of the tag, as an alternative to tag_id. Matched without regard to case.'),
     data: TagDataSchema.optional().describe('Tag data for create or update actions.'),
+    board_id: BoardIdSchema,
 }).refine(
-    data => !(['get', 'update', 'delete'].includes(data.action)) || data.tag_id, 
-    { message: 'tag_id is required for get, update, and delete actions', path: ['tag_id'] }
+    data => !(['get', 'update', 'delete'].includes(data.action)) || data.tag_id || data.tag_title, 
+    { message: 'tag_id or tag_title is required for get, update, and delete actions', path: ['tag_id'] }
+).refine(
+    data => data.action !== 'create' || data.data?.title, 
+    { message: 'data.title is required for the create action', path: ['data'] }
 ).refine(
-    data => !(['create', 'update'].includes(data.action)) || data.data, 
-    { message: 'data is required for create and update actions', path: ['data'] }
+    data => data.action !== 'update' || data.data, 
+    { message: 'data is required for the update action', path: ['data'] }
 );
 
 type TagOperationsParams = z.infer<typeof TagOperationsSchema>;
@@ -77,31 +94,181 @@ type TagOperationsParams = z.infer<typeof TagOperationsSchema>;
 // Tag-Item Operation schemas
 const TagItemOperationsSchema = z.object({
     action: z.enum(['attach', 'detach', 'get_items_with_tag']).describe('The tag operation to perform.'),
-    tag_id: z.string().describe('The tag ID.'),
-    item_id: z.string().optional().describe('The item ID (required for attach and detach actions).'),
+    tag_id: z.string().optional().describe('The tag ID. Provide tag_id or tag_title.'),
+    tag_title: z.string().min(1).max(128).optional().describe('Title of the tag, as an alternative to tag_id. Matched without regard to case. When attaching, a tag with this title is created if the board has none.'),
+    tag_color: TagColorSchema.optional().describe('Color of a tag created by attach with tag_title. Defaults to red.'),
+    item_id: z.string().optional().describe('The item ID (attach and detach need item_id or item_ids).'),
+    item_ids: z.array(z.string()).min(1).max(50).optional().describe('Several item IDs to attach the tag to or detach it from in one call.'),
+    board_id: BoardIdSchema,
 }).refine(
-    data => !(['attach', 'detach'].includes(data.action)) || data.item_id, 
-    { message: 'item_id is required for attach and detach actions', path: ['item_id'] }
+    data => data.tag_id || data.tag_title, 
+    { message: 'tag_id or tag_title is required', path: ['tag_id'] }
+).refine(
+    data => !(['attach', 'detach'].includes(data.action)) || data.item_id || data.item_ids, 
+    { message: 'item_id or item_ids is required for attach and detach actions', path: ['item_id'] }
 );
 
-// Update the TagItemOperationsParams type to include a return type that allows for error objects
 type TagItemOperationsParams = z.infer<typeof TagItemOperationsSchema>;
 
 /**
- * WARNING: Tag functionality is currently disabled due to issues with the Miro API
- * The tag endpoints are returning 404 errors even with correctly formatted requests
- * These tools remain in the codebase for future use once the API issues are resolved
+ * Finds a tag on the board by title, ignoring case and surrounding whitespace
+ */
+async function findTagByTitle(boardId: string, title: string): Promise<MiroTag | undefined> {
+    const wanted = title.trim().toLowerCase();
+    for await (const tag of paginateTags(boardId)) {
+        if (typeof tag.title === 'string' && tag.title.trim().toLowerCase() === wanted) return tag;
+    }
+    return undefined;
+}
+
+/**
+ * Error returned when a tag referred to by title does not exist
+ */
+function tagNotFound(boardId: string, title: string): ErrorResponse {
+    return {
+        error: `No tag titled "${title}" exists on board ${boardId}.`,
+        status: 404,
+        details: 'List the board\'s tags with mcp_miro_tag_operations (action "get_all"), or attach the tag by title to create it.'
+    };
+}
+
+/**
+ * Resizes a frame around its children. Child positions are measured from the frame's top-left corner,
+ * so when that corner moves every child is moved back by the same amount and stays put on the canvas.
+ */
+async function fitFrameToContents(boardId: string, frameId: string, padding: number): Promise<string | ErrorResponse> {
+    const frame: MiroItem = (await miroClient.get(`/v2/boards/${boardId}/frames/${frameId}`)).data;
+    const children = await collectAll(paginateFrameChildren(boardId, frameId));
+    if (children.length === 0) {
+        return {
+            error: `Frame ${frameId} has no items to fit.`,
+            status: 400,
+            details: 'Add items to the frame first, or set its size with the update action.'
+        };
+    }
+
+    // Area the children cover, measured from the frame's current top-left corner
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    for (const child of children) {
+        const { width, height } = getItemSize(child);
+        const x = Number(child.position?.x) || 0;
+        const y = Number(child.position?.y) || 0;
+        left = Math.min(left, x - width / 2);
+        top = Math.min(top, y - height / 2);
+        right = Math.max(right, x + width / 2);
+        bottom = Math.max(bottom, y + height / 2);
+    }
+
+    const width = right - left + 2 * padding;
+    const height = bottom - top + 2 * padding;
+    // How far the frame's top-left corner moves
+    const shiftX = left - padding;
+    const shiftY = top - padding;
+    const current = getItemSize(frame);
+    const frameLeft = Number(frame.position?.x) - current.width / 2 + shiftX;
+    const frameTop = Number(frame.position?.y) - current.height / 2 + shiftY;
+
+    const response = await miroClient.patch(`/v2/boards/${boardId}/frames/${frameId}`, {
+        position: { x: frameLeft + width / 2, y: frameTop + height / 2, origin: 'center' },
+        geometry: { width, height }
+    });
+    modificationHistory.trackModification(response.data);
+
+    if (shiftX !== 0 || shiftY !== 0) {
+        const moved: MiroItem[] = [];
+        for (const child of children) {
+            try {
+                await miroClient.patch(`/v2/boards/${boardId}/items/${child.id}`, {
+                    position: { x: (Number(child.position?.x) || 0) - shiftX, y: (Number(child.position?.y) || 0) - shiftY, origin: 'center' }
+                });
+            } catch (error) {
+                return rollBackFit(boardId, frame, moved, children, child, error);
+            }
+            moved.push(child);
+        }
+    }
+
+    return formatApiResponse({
+        message: `Frame ${frameId} now fits its ${children.length} items with ${padding} px of padding.`,
+        frame: response.data,
+        children_moved: shiftX !== 0 || shiftY !== 0 ? children.length : 0
+    });
+}
+
+/**
+ * Undoes a fit that failed while moving the frame's children back into place: restores the frame's
+ * size and position and the positions of the children already moved. The error lists which children
+ * are left moved and which are where they were before the fit.
  */
+async function rollBackFit(
+    boardId: string,
+    frame: MiroItem,
+    moved: MiroItem[],
+    children: MiroItem[],
+    failed: MiroItem,
+    error: unknown
+): Promise<ErrorResponse> {
+    const { width, height } = getItemSize(frame);
+    let frameRestored = true;
+    try {
+        await miroClient.patch(`/v2/boards/${boardId}/frames/${frame.id}`, {
+            position: { x: Number(frame.position?.x) || 0, y: Number(frame.position?.y) || 0, origin: 'center' },
+            geometry: { width, height }
+        });
+    } catch {
+        frameRestored = false;
+    }
+
+    const stillMoved: string[] = [];
+    for (const child of moved) {
+        try {
+            await miroClient.patch(`/v2/boards/${boardId}/items/${child.id}`, {
+                position: { x: Number(child.position?.x) || 0, y: Number(child.position?.y) || 0, origin: 'center' }
+            });
+        } catch {
+            stillMoved.push(child.id);
+        }
+    }
+
+    const restored = frameRestored && stillMoved.length === 0;
+    const response = formatApiError(error, restored
+        ? `Could not move item ${failed.id} while fitting frame ${frame.id}; the frame and its items were restored.`
+        : `Could not move item ${failed.id} while fitting frame ${frame.id}, and restoring the frame and its items failed too.`, false);
+    return {
+        ...response,
+        details: JSON.stringify({
+            frame_restored: frameRestored,
+            moved_item_ids: stillMoved,
+            unmoved_item_ids: children.filter(child => !stillMoved.includes(child.id)).map(child => child.id),
+            api_error: response.details
+        })
+    };
+}
+
 export const frameOperationsTool: ToolDefinition<FrameOperationsParams, string | ErrorResponse> = {
     name: 'mcp_miro_frame_operations',
-    description: `Creates and manages containment areas (frames) that visually organize content on Miro boards. Use this tool to: (1) create - add new rectangular containers with customizable size, position, and background color, (2) get - retrieve a specific frame's details, (3) get_all - list all frames on the board, (4) get_items - list all items contained within a specific frame, (5) update - modify an existing frame's properties, (6) delete - remove a frame entirely. Frames are rectangular containers that visually group related items and can have titles for labeling sections of your board. When items are placed inside a frame, they become children of that frame and move with it when the frame is repositioned.
+    description: `Creates and manages containment areas (frames) that visually organize content on Miro boards. Use this tool to: (1) create - add new rectangular containers with customizable size, position, and background color, (2) get - retrieve a specific frame's details, (3) get_all - list all frames on the board, (4) get_items - list all items contained within a specific frame, (5) update - modify an existing frame's properties, (6) delete - remove a frame entirely, (7) fit_to_contents - resize and move a frame so it wraps all of its items with some padding, for example after items were added outside its edges. Its items stay exactly where they are on the canvas. Frames are rectangular containers that visually group related items and can have titles for labeling sections of your board. When items are placed inside a frame, they become children of that frame and move with it when the frame is repositioned.
 
 ${MCP_POSITIONING_GUIDE}
 
 FRAME-SPECIFIC NOTES: Frame deletion will not delete its contained items - they will remain on the board but will no longer be contained within the frame. Frames cannot be nested inside other frames via API.`,
     parameters: FrameOperationsSchema,
     execute: async (args) => {
-        const { action, item_id, ...requestBody } = args;
+        const { action, item_id, padding, board_id, ...requestBody } = args;
+        const boardId = resolveBoardId(board_id);
+
+        if (action === 'fit_to_contents') {
+            console.log(`Executing frame_operations (${action}) on frame ${item_id}`);
+            try {
+                return await fitFrameToContents(boardId, item_id as string, padding ?? FRAME_PADDING);
+            } catch (error) {
+                return formatApiError(error);
+            }
+        }
+
         let url = '';
         let method = '';
         let queryParams = {};
@@ -134,7 +301,7 @@ FRAME-SPECIFIC NOTES: Frame deletion will not delete its contained items - they
 
         switch (action) {
             case 'create':
-                url = `/v2/boards/${miroBoardId}/frames`;
+                url = `/v2/boards/${boardId}/frames`;
                 method = 'post';
                 
                 // Clean up position metadata before API call for frames
@@ -162,23 +329,23 @@ FRAME-SPECIFIC NOTES: Frame deletion will not delete its contained items - they
                 break;
             case 'get_all':
                 // Get all frames on the board by using the items endpoint with type=frame
-                url = `/v2/boards/${miroBoardId}/items`;
+                url = `/v2/boards/${boardId}/items`;
                 method = 'get';
                 queryParams = { type: 'frame' };
                 break;
             case 'get':
-                url = `/v2/boards/${miroBoardId}/frames/${item_id}`;
+                url = `/v2/boards/${boardId}/frames/${item_id}`;
                 method = 'get';
                 break;
             case 'get_items':
                 // Use the items endpoint with parent_item_id parameter instead of the nested path
-                url = `/v2/boards/${miroBoardId}/items`;
+                url = `/v2/boards/${boardId}/items`;
                 method = 'get';
                 // Add query parameters
                 queryParams = { parent_item_id: item_id };
                 break;
             case 'update':
-                url = `/v2/boards/${miroBoardId}/frames/${item_id}`;
+                url = `/v2/boards/${boardId}/frames/${item_id}`;
                 method = 'patch';
                 
                 // Clean up position metadata before API call for frames
@@ -205,7 +372,7 @@ FRAME-SPECIFIC NOTES: Frame deletion will not delete its contained items - they
                 }
                 break;
             case 'delete':
-                url = `/v2/boards/${miroBoardId}/frames/${item_id}`;
+                url = `/v2/boards/${boardId}/frames/${item_id}`;
                 method = 'delete';
                 break;
         }
@@ -293,7 +460,8 @@ export const groupOperationsTool: ToolDefinition<GroupOperationsParams, string |
     description: 'Binds multiple items together so they can be moved, copied, or manipulated as a single unit. Use this tool to: (1) create - form a new group from an array of item IDs, (2) get_all - list all groups on the board, (3) get - retrieve a specific group\'s details, (4) get_items - list all items contained in a specific group, (5) update - modify which items belong to a group, (6) ungroup - break a group apart while keeping the individual items, (7) delete - remove both the group and all its items entirely. Groups differ from frames in that they don\'t have visual containers or titles - they\'re invisible logical collections that keep items bound together during manipulation. Items can only belong to one group at a time. Unlike frames, grouped items maintain their absolute positions on the board. Groups are ideal for connecting related elements that need to move together during board reorganization but don\'t require a visual container. The ungroup operation preserves all items while delete removes everything.',
     parameters: GroupOperationsSchema,
     execute: async (args) => {
-        const { action, group_id, item_ids } = args;
+        const { action, group_id, item_ids, board_id } = args;
+        const boardId = resolveBoardId(board_id);
         let url = '';
         let method = '';
         let body = null;
@@ -301,33 +469,33 @@ export const groupOperationsTool: ToolDefinition<GroupOperationsParams, string |
 
         switch (action) {
             case 'create':
-                url = `/v2/boards/${miroBoardId}/groups`;
+                url = `/v2/boards/${boardId}/groups`;
                 method = 'post';
                 body = { data: { items: item_ids } };
                 break;
             case 'get_all':
-                url = `/v2/boards/${miroBoardId}/groups`;
+                url = `/v2/boards/${boardId}/groups`;
                 method = 'get';
                 break;
             case 'get':
-                url = `/v2/boards/${miroBoardId}/groups/${group_id}`;
+                url = `/v2/boards/${boardId}/groups/${group_id}`;
                 method = 'get';
                 break;
             case 'get_items':
-                url = `/v2/boards/${miroBoardId}/groups/${group_id}/items`;
+                url = `/v2/boards/${boardId}/groups/${group_id}/items`;
                 method = 'get';
                 break;
             case 'update':
-                url = `/v2/boards/${miroBoardId}/groups/${group_id}`;
+                url = `/v2/boards/${boardId}/groups/${group_id}`;
                 method = 'put';
                 body = { data: { items: item_ids } };
                 break;
             case 'ungroup':
-                url = `/v2/boards/${miroBoardId}/groups/${group_id}/ungroup`;
+                url = `/v2/boards/${boardId}/groups/${group_id}/ungroup`;
                 method = 'delete';
                 break;
             case 'delete':
-                url = `/v2/boards/${miroBoardId}/groups/${group_id}`;
+                url = `/v2/boards/${boardId}/groups/${group_id}`;
                 method = 'delete';
                 break;
         }
@@ -380,235 +548,142 @@ export const groupOperationsTool: ToolDefinition<GroupOperationsParams, string |
     },
 };
 
-/**
- * WARNING: Tag functionality is currently disabled due to issues with the Miro API
- * The tag endpoints are returning 404 errors even with correctly formatted requests
- * These tools remain in the codebase for future use once the API issues are resolved
- */
+// Tag definitions on the board
 export const tagOperationsTool: ToolDefinition<TagOperationsParams, string | ErrorResponse> = {
     name: 'mcp_miro_tag_operations',
-    description: 'Creates and manages categorization labels (tags) that can be applied to multiple items across a board. Use this tool to: (1) create - define a new tag with a name and color, (2) get_all - list all tags on the board, (3) get - retrieve a specific tag\'s details, (4) update - modify a tag\'s name or color, (5) delete - remove a tag entirely. Tags are visual labels with text and background color that identify related items across a board regardless of position. Unlike groups or frames, tags don\'t affect item positioning - they provide pure categorization and filtering capabilities. Tags support 12 predefined colors (not hex codes): red, light_green, cyan, yellow, magenta, green, blue, gray, violet, dark_green, dark_blue, and black. The maximum tag name length is 128 characters. Creating or updating tags only defines the tag - to attach tags to items, use the tag_item_operations tool. Tags are ideal for implementing cross-cutting categorization, status indicators, or priority levels across diverse board content.',
+    description: 'Creates and manages categorization labels (tags) that can be applied to sticky notes and cards across a board. Use this tool to: (1) create - define a new tag with a name and color, (2) get_all - list all tags on the board, (3) get - retrieve a specific tag\'s details, (4) update - modify a tag\'s name or color, (5) delete - remove a tag entirely, which also removes it from every item carrying it. Tags can be referred to by tag_id or by tag_title. Tags are visual labels with text and background color that identify related items across a board regardless of position. Unlike groups or frames, tags don\'t affect item positioning - they provide pure categorization and filtering capabilities, and the unified search tool can filter on them (tagged_with). Tags support 12 predefined colors (not hex codes): red, light_green, cyan, yellow, magenta, green, blue, gray, violet, dark_green, dark_blue, and black. The maximum tag name length is 128 characters, and titles must be unique on a board. Creating or updating tags only defines the tag - to attach tags to items, use the tag_item_operations tool.',
     parameters: TagOperationsSchema,
     execute: async (args) => {
-        const { action, tag_id, data } = args;
-        let url = '';
-        let method = '';
-        let body = null;
+        const { action, tag_id, tag_title, data, board_id } = args;
+        const boardId = resolveBoardId(board_id);
 
-        switch (action) {
-            case 'create':
-                url = `/v2/boards/${miroBoardId}/tags`;
-                method = 'post';
-                body = data;
-                break;
-            case 'get_all':
-                url = `/v2/boards/${miroBoardId}/tags`;
-                method = 'get';
-                break;
-            case 'get':
-                url = `/v2/boards/${miroBoardId}/tags/${tag_id}`;
-                method = 'get';
-                break;
-            case 'update':
-                url = `/v2/boards/${miroBoardId}/tags/${tag_id}`;
-                method = 'patch';
-                body = data;
-                break;
-            case 'delete':
-                url = `/v2/boards/${miroBoardId}/tags/${tag_id}`;
-                method = 'delete';
-                break;
-        }
-
-        console.log(`Executing tag_operations (${action}): ${method.toUpperCase()} ${url}`);
-        if (body) {
-            console.log(`With body: ${JSON.stringify(body)}`);
-        }
+        console.log(`Executing tag_operations (${action})${tag_id || tag_title ? ` for tag ${tag_id || `"${tag_title}"`}` : ''}`);
 
         try {
-            let response;
+            if (action === 'create') {
+                const response = await miroClient.post(`/v2/boards/${boardId}/tags`, data);
+                modificationHistory.trackCreation(response.data);
+                return formatApiResponse(response.data);
+            }
 
-            if (method === 'get') {
-                response = await miroClient.get(url);
-            } else if (method === 'post') {
-                response = await miroClient.post(url, body);
-                // Track creation in history
-                if (response.data) {
-                    modificationHistory.trackCreation(response.data);
+            if (action === 'get_all') {
+                const tags = await collectAll(paginateTags(boardId));
+                return formatApiResponse({ data: tags, total: tags.length });
+            }
+
+            let tagId = tag_id;
+            if (!tagId) {
+                const tag = await findTagByTitle(boardId, tag_title as string);
+                if (!tag) return tagNotFound(boardId, tag_title as string);
+                tagId = tag.id;
+            }
+            const url = `/v2/boards/${boardId}/tags/${tagId}`;
+
+            switch (action) {
+                case 'get': {
+                    const response = await miroClient.get(url);
+                    return formatApiResponse(response.data);
                 }
-            } else if (method === 'patch') {
-                response = await miroClient.patch(url, body);
-                // Track modification in history
-                if (response.data) {
+                case 'update': {
+                    const response = await miroClient.patch(url, data);
                     modificationHistory.trackModification(response.data);
+                    return formatApiResponse(response.data);
                 }
-            } else if (method === 'delete') {
-                response = await miroClient.delete(url);
-                if (response.status === 204) {
-                    return `Tag ${tag_id} deleted successfully (Status: ${response.status}).`;
+                case 'delete': {
+                    const response = await miroClient.delete(url);
+                    return `Tag ${tagId} deleted successfully (Status: ${response.status}).`;
                 }
             }
 
-            if (!response) {
-                throw new Error(`Invalid method: ${method}`);
-            }
-
-            console.log(`API Call Successful: ${response.status}`);
-            return formatApiResponse(response.data);
+            throw new Error(`Invalid action: ${action}`);
         } catch (error) {
             return formatApiError(error);
         }
     },
 };
 
-/**
- * WARNING: Tag functionality is currently disabled due to issues with the Miro API
- * The tag endpoints are returning 404 errors even with correctly formatted requests
- * These tools remain in the codebase for future use once the API issues are resolved
- */
+// Tags on individual items, attached through the generic item endpoint
 export const tagItemOperationsTool: ToolDefinition<TagItemOperationsParams, string | ErrorResponse> = {
     name: 'mcp_miro_tag_item_operations',
-    description: 'Associates or disassociates tags with specific items on a Miro board. Use this tool to: (1) attach - apply an existing tag to a specific item, making the tag visible on that item, (2) detach - remove a tag from a specific item without deleting the tag itself, (3) get_items_with_tag - retrieve all items currently tagged with a specific tag. Tags must be created first using the tag_operations tool before they can be attached to items. Multiple different tags can be attached to the same item, creating multi-dimensional categorization. When tags are attached to items, they appear visually on those items in the Miro UI with their specified color and name. This tool only manages the relationships between tags and items - it doesn\'t create or modify the tags themselves. Use this for implementing filtering systems, marking status across different board elements, or creating visual categorization schemes that cut across different item types and board sections.',
+    description: `Associates or disassociates tags with specific items on a Miro board. Use this tool to: (1) attach - apply a tag to one or more items, making the tag visible on them, (2) detach - remove a tag from items without deleting the tag itself, (3) get_items_with_tag - retrieve all items currently tagged with a specific tag. Refer to the tag by tag_id or by tag_title; attaching by a title the board does not have yet creates that tag first (colored tag_color, red by default). Pass item_id for one item or item_ids for up to 50. Only ${TAGGABLE_ITEM_TYPES.join(' and ')} items can carry tags: other items passed in are left unchanged and listed under unsupported_items with their type, and the call fails only if none of the items can be tagged. Multiple different tags can be attached to the same item, creating multi-dimensional categorization. When tags are attached to items, they appear visually on those items in the Miro UI with their specified color and name. Use this for implementing filtering systems, marking status, or creating visual categorization schemes that cut across board sections.`,
     parameters: TagItemOperationsSchema,
     execute: async (args) => {
-        const { action, tag_id, item_id } = args;
-        
-        // Validate that required parameters are provided
-        if ((action === 'attach' || action === 'detach') && !item_id) {
-            return {
-                error: `item_id is required for ${action} action`,
-                status: 400,
-                details: "Please provide the ID of the item to attach or detach the tag"
-            };
-        }
-        
+        const { action, tag_id, tag_title, tag_color, item_id, item_ids, board_id } = args;
+        const boardId = resolveBoardId(board_id);
+
+        console.log(`Executing tag_item_operations (${action}) for tag ${tag_id || `"${tag_title}"`}`);
+
         try {
-            // For attach and detach actions, validate the item type
-            let itemType = '';
-            if ((action === 'attach' || action === 'detach') && item_id) {
-                try {
-                    // Get the item to check its type
-                    const itemResponse = await miroClient.get(`/v2/boards/${String(miroBoardId)}/items/${item_id}`);
-                    itemType = itemResponse.data.type;
-                    
-                    // According to Miro documentation, tags can only be used with cards and sticky notes
-                    if (itemType !== 'sticky_note' && itemType !== 'card' && itemType !== 'app_card') {
-                        return {
-                            error: `Tags can only be attached to sticky notes and cards. The item type '${itemType}' is not supported for tagging.`,
-                            status: 400,
-                            details: "According to Miro's API, only sticky notes and cards can have tags attached to them."
-                        };
-                    }
-                } catch (itemError) {
-                    const axiosError = itemError as AxiosError;
-                    return {
-                        error: `Failed to validate item type: ${typeof axiosError.message === 'string' ? axiosError.message : 'Unknown error'}`,
-                        status: axiosError.response?.status || 500,
-                        details: axiosError.response?.data ? JSON.stringify(axiosError.response.data) : ''
-                    };
-                }
+            let tag: MiroTag | undefined;
+            let tagCreated = false;
+            if (tag_id) {
+                tag = (await miroClient.get(`/v2/boards/${boardId}/tags/${tag_id}`)).data;
+            } else {
+                tag = await findTagByTitle(boardId, tag_title as string);
             }
-            
-            // Build the URL and determine the method based on the action
-            let url = '';
-            let method = '';
-            
-            switch (action) {
-                case 'attach':
-                    // Use specific endpoints based on item type instead of generic item endpoint
-                    if (itemType === 'sticky_note') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/sticky_notes/${item_id}/tags/${tag_id}`;
-                    } else if (itemType === 'card') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/cards/${item_id}/tags/${tag_id}`;
-                    } else if (itemType === 'app_card') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/app_cards/${item_id}/tags/${tag_id}`;
-                    }
-                    method = 'post';
-                    break;
-                case 'detach':
-                    // Use specific endpoints based on item type instead of generic item endpoint
-                    if (itemType === 'sticky_note') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/sticky_notes/${item_id}/tags/${tag_id}`;
-                    } else if (itemType === 'card') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/cards/${item_id}/tags/${tag_id}`;
-                    } else if (itemType === 'app_card') {
-                        url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/app_cards/${item_id}/tags/${tag_id}`;
-                    }
-                    method = 'delete';
-                    break;
-                case 'get_items_with_tag':
-                    url = `/v2/boards/${encodeURIComponent(String(miroBoardId))}/tags/${tag_id}/items`;
-                    method = 'get';
-                    break;
+
+            if (action === 'get_items_with_tag') {
+                if (!tag) return tagNotFound(boardId, tag_title as string);
+                const items = await collectAll(paginateTaggedItems(boardId, tag.id));
+                return formatApiResponse({ tag, data: items, total: items.length });
             }
-            
-            console.log(`Executing tag_item_operations (${action}): ${method.toUpperCase()} ${url}`);
-            
-            // Execute the API call based on the determined method
-            let response;
-            
-            try {
-                if (method === 'get') {
-                    response = await miroClient.get(url);
-                    return formatApiResponse(response.data);
-                } else if (method === 'post') {
-                    // For POST, create an empty body as required by Miro API
-                    response = await miroClient.post(url, {}, {
-                        headers: {
-                            'Content-Type': 'application/json'
-                        }
-                    });
-                    
-                    // Track the modification history
-                    if (response.status === 201 || response.status === 200) {
-                        modificationHistory.trackModification({
-                            id: item_id!,
-                            type: 'unknown', // We don't need to specify the exact type here
-                            tags: [tag_id]
-                        });
-                        
-                        return formatApiResponse({ 
-                            success: true, 
-                            message: `Tag ${tag_id} attached to item ${item_id} successfully.`
-                        });
-                    }
-                    
-                    return formatApiResponse(response.data || { message: `Tag ${tag_id} attached to item ${item_id} successfully.` });
-                } else if (method === 'delete') {
-                    response = await miroClient.delete(url);
-                    
-                    // DELETE operations often return 204 No Content
-                    if (response.status === 204) {
-                        return `Tag ${tag_id} detached from item ${item_id} successfully.`;
-                    }
-                    
-                    return formatApiResponse(response.data || `Tag operation completed successfully.`);
+
+            // Check every item's type first, so one unsupported item does not leave the others half done
+            const requestedIds = Array.from(new Set([...(item_id ? [item_id] : []), ...(item_ids || [])]));
+            const taggable: MiroItem[] = [];
+            const unsupported: { id: string; type: string }[] = [];
+            for (const id of requestedIds) {
+                const item: MiroItem = (await miroClient.get(`/v2/boards/${boardId}/items/${id}`)).data;
+                if (TAGGABLE_ITEM_TYPES.includes(item.type)) {
+                    taggable.push(item);
+                } else {
+                    unsupported.push({ id: item.id, type: item.type });
                 }
-                
-                // This should never happen given the switch above
-                throw new Error(`Invalid action: ${action}`);
-            } catch (error) {
-                const axiosError = error as AxiosError;
-                console.error(`Tag operation failed:`, axiosError.message, axiosError.response?.data);
-                
-                // Return a properly structured error with more detailed information
+            }
+
+            if (taggable.length === 0) {
+                const types = Array.from(new Set(unsupported.map(item => item.type)));
                 return {
-                    error: typeof axiosError.message === 'string' ? axiosError.message : 'Unknown error',
-                    status: axiosError.response?.status || 500,
-                    details: axiosError.response?.data ? JSON.stringify(axiosError.response.data) : '',
-                    url: url // Include the URL that failed for debugging
+                    error: `Tags can only be attached to ${TAGGABLE_ITEM_TYPES.join(' and ')} items. ${types.map(type => `The item type '${type}' is not supported for tagging`).join('; ')}.`,
+                    status: 400,
+                    details: JSON.stringify({ unsupported_items: unsupported, supported_item_types: TAGGABLE_ITEM_TYPES })
                 };
             }
-            
+
+            if (!tag) {
+                if (action === 'detach') return tagNotFound(boardId, tag_title as string);
+                const response = await miroClient.post(`/v2/boards/${boardId}/tags`, { title: tag_title, fillColor: tag_color });
+                tag = response.data as MiroTag;
+                tagCreated = true;
+            }
+
+            // The generic item endpoint takes the tag as a query parameter for both attaching and detaching
+            const changed: string[] = [];
+            for (const item of taggable) {
+                const url = `/v2/boards/${boardId}/items/${item.id}`;
+                const config = { params: { tag_id: tag.id } };
+                if (action === 'attach') {
+                    await miroClient.post(url, undefined, config);
+                } else {
+                    await miroClient.delete(url, config);
+                }
+
+                const otherTags = (item.tagIds || []).filter(id => id !== tag.id);
+                modificationHistory.trackModification({ ...item, tagIds: action === 'attach' ? [...otherTags, tag.id] : otherTags });
+                changed.push(item.id);
+            }
+
+            const verb = action === 'attach' ? 'attached to' : 'detached from';
+            return formatApiResponse({
+                message: `Tag "${tag.title}" ${verb} ${changed.length} item(s)${unsupported.length ? `; ${unsupported.length} item(s) skipped because their type cannot be tagged` : ''}.`,
+                tag,
+                tag_created: tagCreated,
+                [action === 'attach' ? 'attached' : 'detached']: changed,
+                unsupported_items: unsupported,
+                supported_item_types: TAGGABLE_ITEM_TYPES
+            });
         } catch (error) {
-            const axiosError = error as AxiosError;
-            
-            // Return a properly structured error
-            return {
-                error: typeof axiosError.message === 'string' ? axiosError.message : 'Unknown error',
-                status: axiosError.response?.status || 500,
-                details: axiosError.response?.data ? JSON.stringify(axiosError.response.data) : ''
-            };
+            return formatApiError(error);
         }
     },
-};
\ No newline at end of file
+};
@@ -1,10 +1,15 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
-import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { paginateTaggedItems } from '../client/paginate';
+import { getBoardItems, getBoardConnectors } from '../client/board-cache';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { filterItemsByContent, checkForSimilarContent } from '../utils/data-utils';
-import { MiroItem } from '../types/miro-types';
+import { Rect, SpatialDirection, SpatialIndex } from '../utils/spatial-index';
+import { matchesText, normalizeText, scoreDocuments } from '../utils/text-search';
+import { evaluateSearchQuery, getQueryTerms, parseSearchQuery, QueryField, SearchQueryParseError } from '../utils/search-query';
+import { MiroItem, MiroConnector } from '../types/miro-types';
+import { BoardIdSchema, UseCacheSchema } from '../schemas/board-schema';
 
 /**
  * Tools for searching, finding and modifying items based on their content
@@ -20,7 +25,9 @@ const searchElementsByContentSchema = z.object({
     fuzzy_match: z.boolean()
         .optional()
         .default(true)
-        .describe('Whether to use fuzzy (partial) matching or exact matching.')
+        .describe('Whether to use fuzzy (partial) matching or exact matching.'),
+    use_cache: UseCacheSchema,
+    board_id: BoardIdSchema
 });
 
 type SearchElementsByContentParams = z.infer<typeof searchElementsByContentSchema>;
@@ -29,27 +36,45 @@ type SearchElementsByContentParams = z.infer<typeof searchElementsByContentSchem
 const checkForSimilarContentSchema = z.object({
     content: z.string().describe('The new content to check for duplicates.'),
     item_type: z.enum(['shape', 'text', 'sticky_note', 'card', 'app_card'])
-        .describe('Type of item containing this content.')
+        .describe('Type of item containing this content.'),
+    use_cache: UseCacheSchema,
+    board_id: BoardIdSchema
 });
 
 type CheckForSimilarContentParams = z.infer<typeof checkForSimilarContentSchema>;
 
+// Item types the unified search can filter on
+const SEARCHABLE_ITEM_TYPES = [
+    'shape', 'text', 'sticky_note', 'image', 'document', 
+    'card', 'app_card', 'preview', 'frame', 'embed', 'connector'
+] as const;
+
+// Where a proximity search measures from: an item, or a point on the canvas
+const spatialAnchorFields = {
+    item_id: z.string().optional().describe('Measure from the edges of this item. The item itself is not returned.'),
+    x: z.number().optional().describe('X canvas coordinate of the point to measure from, when no item_id is given'),
+    y: z.number().optional().describe('Y canvas coordinate of the point to measure from, when no item_id is given')
+};
+
+const hasSpatialAnchor = (anchor: { item_id?: string; x?: number; y?: number }) =>
+    !!anchor.item_id || (anchor.x !== undefined && anchor.y !== undefined);
+
 // New Unified Search Schema
 const searchSchema = z.object({
     // Search behavior
     search_mode: z.enum(['all', 'any']).optional().default('all')
         .describe('How to combine search criteria: "all" (AND logic - items must match all criteria) or "any" (OR logic - items need to match at least one criterion)'),
     
+    // Structured query
+    query: z.string().optional().describe('Query combining criteria with AND, OR, NOT and parentheses, e.g. type:sticky_note AND (color:blue OR text:"risk") AND in:3458764624479188876. Fields: type, color, text, in (frame ID or title), tag (tag ID), connected (item ID). A bare word or "quoted phrase" searches the text.'),
+    
     // Content/text search
     text_query: z.string().optional().describe('Text to search for in item content. Works across all text-based items.'),
     text_match_type: z.enum(['exact', 'contains', 'fuzzy']).optional().default('contains')
-        .describe('How to match text: "exact" (perfect match), "contains" (substring), or "fuzzy" (partial/approximate match)'),
+        .describe('How to match text: "exact" (perfect match), "contains" (substring), or "fuzzy" (every word of the query appears, allowing about one typo per three letters)'),
     
     // Type filters
-    item_types: z.array(z.enum([
-        'shape', 'text', 'sticky_note', 'image', 'document', 
-        'card', 'app_card', 'preview', 'frame', 'embed', 'connector'
-    ])).optional().describe('Only return items of these types. Omit to search all types.'),
+    item_types: z.array(z.enum(SEARCHABLE_ITEM_TYPES)).optional().describe('Only return items of these types. Omit to search all types.'),
     
     // Color search
     color_query: z.string().optional().describe('Search by color - accepts color names ("red", "blue") or hex values ("#FF0000")'),
@@ -62,7 +87,19 @@ const searchSchema = z.object({
         y: z.number().describe('Y coordinate of the top-left corner of the search area'),
         width: z.number().describe('Width of the search area'),
         height: z.number().describe('Height of the search area')
-    }).optional().describe('Search within a specific rectangular area of the board'),
+    }).optional().describe('Search within a specific rectangular area of the board, in canvas coordinates. Items in frames are found by where they appear on the canvas.'),
+    nearest_to: z.object({
+        ...spatialAnchorFields,
+        count: z.number().int().min(1).max(100).optional().default(5).describe('Number of closest items to return. Default: 5.')
+    }).refine(hasSpatialAnchor, { message: 'Provide item_id, or both x and y' }).optional()
+        .describe('Only return the items closest to an item or a canvas point, among the items matching the other criteria. Distance is measured between the items\' edges.'),
+    within_radius: z.object({
+        ...spatialAnchorFields,
+        radius: z.number().min(0).describe('Largest gap, in dp, between an item and the point or item')
+    }).refine(hasSpatialAnchor, { message: 'Provide item_id, or both x and y' }).optional()
+        .describe('Only return items within this distance of an item or a canvas point'),
+    right_of_id: z.string().optional().describe('Only return items entirely to the right of this item and level with it (overlapping its top-to-bottom extent), like the rest of its row'),
+    below_id: z.string().optional().describe('Only return items entirely below this item and in line with it (overlapping its left-to-right extent), like the rest of its column'),
     
     // Parent/container search
     parent_id: z.string().optional().describe('Only return items contained within this parent (frame or group)'),
@@ -85,7 +122,11 @@ const searchSchema = z.object({
     
     // Sorting
     sort_by: z.enum(['position_x', 'position_y', 'created_at', 'updated_at', 'relevance']).optional().default('relevance')
-        .describe('How to sort results')
+        .describe('How to sort results. "relevance" puts the best text matches first, by their score, or the nearest items first for proximity searches.'),
+    
+    // Board selection
+    use_cache: UseCacheSchema,
+    board_id: BoardIdSchema
 });
 
 type SearchParams = z.infer<typeof searchSchema>;
@@ -97,27 +138,13 @@ export const searchElementsByContentTool: ToolDefinition<SearchElementsByContent
     parameters: searchElementsByContentSchema,
     execute: async (args) => {
         const { query, type, fuzzy_match } = args;
+        const boardId = resolveBoardId(args.board_id);
         console.log(`Executing mcp_miro_search_by_content_operations with query: "${query}", type: ${type || 'any'}, fuzzy: ${fuzzy_match}`);
         
         try {
             // First, get all items from the board
-            let cursor: string | null = null;
-            const allItems: MiroItem[] = [];
-            
-            do {
-                const params: Record<string, string> = { limit: '50' };
-                if (cursor) params.cursor = cursor;
-                if (type) params.type = type;
-                
-                const response = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { params });
-                const data = response.data;
-                
-                if (data.data && data.data.length > 0) {
-                    allItems.push(...data.data);
-                }
-                
-                cursor = data.cursor || null;
-            } while (cursor);
+            const boardItems = await getBoardItems(boardId, { useCache: args.use_cache });
+            const allItems = type ? boardItems.filter(item => item.type === type) : boardItems;
             
             // Filter items by content
             const matchingItems = filterItemsByContent(allItems, query, {
@@ -150,29 +177,13 @@ export const checkForSimilarContentTool: ToolDefinition<CheckForSimilarContentPa
     parameters: checkForSimilarContentSchema,
     execute: async (args) => {
         const { content, item_type } = args;
+        const boardId = resolveBoardId(args.board_id);
         console.log(`Executing mcp_miro_duplicate_detection_operations with content: "${content.substring(0, 30)}...", type: ${item_type}`);
         
         try {
             // Get all items of the specified type
-            let cursor: string | null = null;
-            const itemsOfType: MiroItem[] = [];
-            
-            do {
-                const params: Record<string, string> = { 
-                    limit: '50',
-                    type: item_type
-                };
-                if (cursor) params.cursor = cursor;
-                
-                const response = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { params });
-                const data = response.data;
-                
-                if (data.data && data.data.length > 0) {
-                    itemsOfType.push(...data.data);
-                }
-                
-                cursor = data.cursor || null;
-            } while (cursor);
+            const boardItems = await getBoardItems(boardId, { useCache: args.use_cache });
+            const itemsOfType = boardItems.filter(item => item.type === item_type);
             
             // Check for similar content
             const { duplicatesFound, similarItems } = checkForSimilarContent(
@@ -249,67 +260,16 @@ const isColorMatch = (itemColor: string | undefined, searchColor: string | undef
     }
 };
 
-// Helper function to check if an item is within a specified area
-const isInArea = (item: MiroItem, area: { x: number; y: number; width: number; height: number }): boolean => {
-    // Get item position and dimensions
-    let itemX = 0, itemY = 0, itemWidth = 0, itemHeight = 0;
-    
-    if (item.position) {
-        itemX = typeof item.position.x === 'string' 
-            ? parseFloat(item.position.x) 
-            : (item.position.x || 0);
-            
-        itemY = typeof item.position.y === 'string' 
-            ? parseFloat(item.position.y) 
-            : (item.position.y || 0);
-    }
-    
-    if (item.geometry) {
-        itemWidth = typeof item.geometry.width === 'string' 
-            ? parseFloat(item.geometry.width) 
-            : (item.geometry.width || 0);
-            
-        itemHeight = typeof item.geometry.height === 'string' 
-            ? parseFloat(item.geometry.height) 
-            : (item.geometry.height || 0);
-    }
-    
-    // By default, consider position as center of the item
-    const itemLeft = itemX - (itemWidth / 2);
-    const itemRight = itemX + (itemWidth / 2);
-    const itemTop = itemY - (itemHeight / 2);
-    const itemBottom = itemY + (itemHeight / 2);
-    
-    // Area boundaries
-    const areaLeft = area.x;
-    const areaRight = area.x + area.width;
-    const areaTop = area.y;
-    const areaBottom = area.y + area.height;
-    
-    // Check if item overlaps with area
-    // For very small items or points, just check if the center point is in the area
-    if (itemWidth === 0 || itemHeight === 0) {
-        return itemX >= areaLeft && itemX <= areaRight && 
-               itemY >= areaTop && itemY <= areaBottom;
-    }
-    
-    // For items with size, check if any part of the item overlaps with the area
-    return !(itemRight < areaLeft || 
-             itemLeft > areaRight || 
-             itemBottom < areaTop || 
-             itemTop > areaBottom);
-};
-
 // Search Tool implementation
 export const searchTool: ToolDefinition<SearchParams> = {
     name: 'mcp_miro_unified_search',
     description: `Powerful multi-criteria search tool designed specifically for AI agents to efficiently find Miro board elements. This single tool replaces the need for multiple search operations and handles complex search tasks with a single call.
 
 KEY CAPABILITIES:
-1. Content Search: Find items by text content with three matching modes (exact, contains, fuzzy)
+1. Content Search: Find items by text content with three matching modes (exact, contains, fuzzy), ranked by relevance
 2. Type Filtering: Filter by one or multiple item types (shape, text, sticky_note, etc.)
 3. Color Search: Find items by color (fill, border, or text) using color names or hex values
-4. Area Search: Find all items within a specific rectangular region of the board
+4. Spatial Search: Find items within a rectangular region of the board, the items nearest to an item or point, items within a radius, or the items to the right of or below an item
 5. Parent/Container: Find all items inside a specific frame or group
 6. Connectivity: Find items connected to a specific item
 7. Tag Filtering: Find items with a specific tag
@@ -321,13 +281,27 @@ SEARCH MODES:
 
 This flexibility is critical when searching for different characteristics that rarely appear together.
 
+QUERY LANGUAGE:
+For combinations a single mode cannot express, pass a query such as: type:sticky_note AND (color:blue OR text:"risk") AND in:3458764624479188876
+- Terms are field:value; quote values with spaces: text:"next steps", in:"Sprint 1"
+- Fields: type, color, text, in (frame ID or title), tag (tag ID), connected (ID of a connected item)
+- A bare word or "quoted phrase" searches the text
+- Combine terms with AND, OR and NOT (upper case) and parentheses; NOT binds tightest, then AND, then OR; terms next to each other are ANDed
+- color, text and connected terms follow color_target, text_match_type and connection_direction
+- The query counts as one more criterion alongside the other parameters
+- A query that cannot be parsed returns a 400 error naming the column of the problem
+
 EXAMPLES:
 - Find all blue sticky notes: {color_query: "blue", item_types: ["sticky_note"]}
 - Find text containing "Important": {text_query: "Important", item_types: ["text", "sticky_note"]}
 - Find all items in top-left corner: {area: {x: 0, y: 0, width: 500, height: 500}}
+- Find the 3 sticky notes closest to a shape: {nearest_to: {item_id: "3458764624479188999", count: 3}, item_types: ["sticky_note"]}
+- Find items within 200 dp of a point: {within_radius: {x: 0, y: 0, radius: 200}}
+- Find the rest of a row of items: {right_of_id: "3458764624479188999"}
 - Find items inside a frame: {parent_id: "3458764624479188876"}
 - Find items connected to a specific shape: {connected_to_id: "3458764624479188999"}
 - Find items with "status" text OR blue fill: {text_query: "status", color_query: "blue", search_mode: "any"}
+- Find blue sticky notes in a frame mentioning "risk", or any red shape: {query: "(type:sticky_note AND color:blue AND in:3458764624479188876 AND risk) OR (type:shape AND color:red)"}
 
 IMPORTANT: 
 - For narrower results, use search_mode: "all" (default)
@@ -336,44 +310,81 @@ IMPORTANT:
 - Combine multiple parameters strategically
 - When using "any" mode with many criteria, consider increasing the limit parameter
 
+With a text_query, every result carries a relevance score: higher when more query words appear, when they are rare on the board, and when the item's text is short. Misspelled or partial words count for less.
+
+Spatial criteria use canvas coordinates, also for items inside frames. Items found by nearest_to, within_radius, right_of_id or below_id carry their distance in dp and are returned nearest first unless another sort_by is given.
+
 The response includes matched items with their properties, position, and content, along with metadata about the search performed.`,
     parameters: searchSchema,
     execute: async (args) => {
         console.log(`Executing mcp_miro_search with params:`, JSON.stringify(args, null, 2));
+        const boardId = resolveBoardId(args.board_id);
         
         try {
+            // Parse the query first, so syntax errors are reported before anything is fetched
+            const parsedQuery = args.query !== undefined ? parseSearchQuery(args.query, { itemTypes: SEARCHABLE_ITEM_TYPES }) : undefined;
+            
             // 1. First, get all items from the board (possibly with type filter)
-            let cursor: string | null = null;
-            const allItems: MiroItem[] = [];
             const limit = Math.min(Math.max(args.limit || 50, 1), 100);
             const searchMode = args.search_mode || 'all';
             
-            // Construct query params for initial API call
-            const queryParams: Record<string, string | string[]> = { limit: '50' };
+            // A single type narrows the candidate set up front; multiple types are filtered below
+            const boardItems = await getBoardItems(boardId, { useCache: args.use_cache });
+            const allItems = args.item_types && args.item_types.length === 1
+                ? boardItems.filter(item => item.type === args.item_types?.[0])
+                : boardItems;
             
-            // Apply type filter in the API call if possible
-            if (args.item_types && args.item_types.length === 1) {
-                queryParams.type = args.item_types[0];
-            }
+            console.log(`Retrieved ${allItems.length} items from the board`);
             
-            // Fetch items from Miro API
-            do {
-                if (cursor) queryParams.cursor = cursor;
-                
-                const response = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { params: queryParams });
-                const data = response.data;
-                
-                if (data.data && data.data.length > 0) {
-                    allItems.push(...data.data);
-                }
-                
-                cursor = data.cursor || null;
-                
-                // Early break if we have enough items (we'll filter them later)
-                if (allItems.length >= 300) break;
-            } while (cursor);
+            // Connectors are not part of the items collection; fetch them only if a connection filter needs them
+            const getConnectors = (): Promise<MiroConnector[]> => getBoardConnectors(boardId, { useCache: args.use_cache });
             
-            console.log(`Retrieved ${allItems.length} items from the board`);
+            // Spatial criteria are answered by an R-tree over the canvas bounding boxes of every item
+            const needsIndex = args.area || args.nearest_to || args.within_radius || args.right_of_id || args.below_id;
+            const index = needsIndex ? SpatialIndex.fromItems(boardItems) : undefined;
+            const missingIds = [args.nearest_to?.item_id, args.within_radius?.item_id, args.right_of_id, args.below_id]
+                .filter((id): id is string => !!id && !index?.get(id));
+            if (index && missingIds.length > 0) {
+                return {
+                    error: `Item ${missingIds[0]} not found on board ${boardId}.`,
+                    status: 404,
+                    details: 'Spatial criteria measure from an existing item, or from x and y canvas coordinates.'
+                };
+            }
+            // Items matching one term of the query
+            const idsOf = (items: MiroItem[]) => new Set(items.map(item => item.id));
+            const matchQueryTermOnce = async (field: QueryField, value: string): Promise<Set<string>> => {
+                switch (field) {
+                    case 'type':
+                        return idsOf(allItems.filter(item => item.type === value));
+                    case 'color':
+                        return idsOf(filterByColor(allItems, value, args.color_target));
+                    case 'text':
+                        return idsOf(filterByTextContent(allItems, value, args.text_match_type));
+                    case 'in': {
+                        // A frame can be named by its ID or its title
+                        const frameIds = idsOf(boardItems.filter(item => item.id === value ||
+                            (item.type === 'frame' && normalizeText(String(item.data?.title ?? '')) === normalizeText(value))));
+                        return idsOf(allItems.filter(item => !!item.parent?.id && frameIds.has(item.parent.id)));
+                    }
+                    case 'tag':
+                        return getItemsWithTag(boardId, value);
+                    case 'connected':
+                        return idsOf(filterByConnections(allItems, await getConnectors(), value, args.connection_direction));
+                }
+            };
+            // Items matching each term of the query, worked out once per term
+            const queryTermMatches = new Map<string, Promise<Set<string>>>();
+            const matchQueryTerm = (field: QueryField, value: string): Promise<Set<string>> => {
+                const key = `${field}:${value}`;
+                if (!queryTermMatches.has(key)) {
+                    queryTermMatches.set(key, matchQueryTermOnce(field, value));
+                }
+                return queryTermMatches.get(key)!;
+            };
+            // Gap between each item found by a proximity criterion and the item or point it was measured from
+            const distances = new Map<string, number>();
+            const spatialCriteria = index ? getSpatialCriteria(index, args, distances) : [];
             
             // 2. Apply filters based on search mode
             let filteredItems: MiroItem[] = [];
@@ -400,11 +411,6 @@ The response includes matched items with their properties, position, and content
                     filteredItems = filterByColor(filteredItems, args.color_query, args.color_target);
                 }
                 
-                // Area filter
-                if (args.area) {
-                    filteredItems = filteredItems.filter(item => isInArea(item, args.area!));
-                }
-                
                 // Parent ID filter
                 if (args.parent_id) {
                     filteredItems = filteredItems.filter(item => 
@@ -415,14 +421,26 @@ The response includes matched items with their properties, position, and content
                 
                 // Connected to filter
                 if (args.connected_to_id) {
-                    filteredItems = filterByConnections(filteredItems, allItems, args.connected_to_id, args.connection_direction);
+                    filteredItems = filterByConnections(filteredItems, await getConnectors(), args.connected_to_id, args.connection_direction);
                 }
                 
                 // Tagged with filter
                 if (args.tagged_with) {
-                    const taggedItems = await getItemsWithTag(args.tagged_with);
+                    const taggedItems = await getItemsWithTag(boardId, args.tagged_with);
                     filteredItems = filteredItems.filter(item => taggedItems.has(item.id));
                 }
+                
+                // Query filter
+                if (parsedQuery) {
+                    const queryMatches = await evaluateSearchQuery(parsedQuery, idsOf(filteredItems), matchQueryTerm);
+                    filteredItems = filteredItems.filter(item => queryMatches.has(item.id));
+                }
+                
+                // Spatial filters, last so the nearest items are picked among those matching everything else
+                for (const criterion of spatialCriteria) {
+                    const spatialMatches = criterion(filteredItems);
+                    filteredItems = filteredItems.filter(item => spatialMatches.has(item.id));
+                }
             } else {
                 // OR logic - items must match ANY criteria
                 const matchingSets: Set<string>[] = [];
@@ -459,13 +477,15 @@ The response includes matched items with their properties, position, and content
                     if (colorMatches.size > 0) matchingSets.push(colorMatches);
                 }
                 
-                // Area filter
-                if (args.area) {
-                    const areaMatches = new Set<string>();
-                    allItems.filter(item => isInArea(item, args.area!)).forEach(item => {
-                        areaMatches.add(item.id);
-                    });
-                    if (areaMatches.size > 0) matchingSets.push(areaMatches);
+                // Query filter; a query matching nothing still counts, so it does not fall back to every item
+                if (parsedQuery) {
+                    matchingSets.push(await evaluateSearchQuery(parsedQuery, idsOf(allItems), matchQueryTerm));
+                }
+                
+                // Spatial filters
+                for (const criterion of spatialCriteria) {
+                    const spatialMatches = criterion(allItems);
+                    if (spatialMatches.size > 0) matchingSets.push(spatialMatches);
                 }
                 
                 // Parent ID filter
@@ -482,7 +502,7 @@ The response includes matched items with their properties, position, and content
                 
                 // Connected to filter
                 if (args.connected_to_id) {
-                    const connectedItems = filterByConnections(allItems, allItems, args.connected_to_id, args.connection_direction);
+                    const connectedItems = filterByConnections(allItems, await getConnectors(), args.connected_to_id, args.connection_direction);
                     const connectionMatches = new Set<string>();
                     connectedItems.forEach(item => {
                         connectionMatches.add(item.id);
@@ -492,7 +512,7 @@ The response includes matched items with their properties, position, and content
                 
                 // Tagged with filter
                 if (args.tagged_with) {
-                    const taggedItems = await getItemsWithTag(args.tagged_with);
+                    const taggedItems = await getItemsWithTag(boardId, args.tagged_with);
                     if (taggedItems.size > 0) matchingSets.push(taggedItems);
                 }
                 
@@ -513,6 +533,13 @@ The response includes matched items with their properties, position, and content
             
             console.log(`Filtered to ${filteredItems.length} items using mode "${searchMode}"`);
             
+            // Relevance of each item's text to the text query and the query's text terms,
+            // with the whole board as the collection the scores are based on
+            const textQuery = [args.text_query, ...(parsedQuery ? getQueryTerms(parsedQuery, 'text') : [])].filter(Boolean).join(' ');
+            const scores = textQuery
+                ? scoreDocuments(new Map(boardItems.map(item => [item.id, getItemContent(item) || ''])), textQuery, args.text_match_type === 'fuzzy')
+                : undefined;
+            
             // 3. Sort items if needed
             if (args.sort_by) {
                 switch (args.sort_by) {
@@ -549,31 +576,18 @@ The response includes matched items with their properties, position, and content
                         break;
                     case 'relevance':
                     default:
-                        // For relevance, we prioritize exact text matches if text_query was provided
-                        if (args.text_query) {
-                            const query = args.text_query.toLowerCase();
+                        // For relevance, the best scoring text matches come first, then exact and starts-with matches
+                        if (scores) {
+                            const query = normalizeText(textQuery);
+                            const rank = (item: MiroItem) => {
+                                const content = normalizeText(getItemContent(item) || '');
+                                return content === query ? 2 : content.startsWith(query) ? 1 : 0;
+                            };
                             
-                            filteredItems.sort((a, b) => {
-                                const contentA = getItemContent(a)?.toLowerCase() || '';
-                                const contentB = getItemContent(b)?.toLowerCase() || '';
-                                
-                                // Exact matches come first
-                                const aExactMatch = contentA === query;
-                                const bExactMatch = contentB === query;
-                                
-                                if (aExactMatch && !bExactMatch) return -1;
-                                if (!aExactMatch && bExactMatch) return 1;
-                                
-                                // Then starts-with matches
-                                const aStartsWithMatch = contentA.startsWith(query);
-                                const bStartsWithMatch = contentB.startsWith(query);
-                                
-                                if (aStartsWithMatch && !bStartsWithMatch) return -1;
-                                if (!aStartsWithMatch && bStartsWithMatch) return 1;
-                                
-                                // Then contains matches
-                                return 0;
-                            });
+                            filteredItems.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || rank(b) - rank(a));
+                        } else if (distances.size > 0) {
+                            // Nearest first for proximity searches
+                            filteredItems.sort((a, b) => (distances.get(a.id) ?? Infinity) - (distances.get(b.id) ?? Infinity));
                         }
                         break;
                 }
@@ -589,6 +603,14 @@ The response includes matched items with their properties, position, and content
                     type: item.type
                 };
                 
+                if (scores) {
+                    result.score = Math.round((scores.get(item.id) ?? 0) * 1000) / 1000;
+                }
+                
+                if (distances.has(item.id)) {
+                    result.distance = Math.round(distances.get(item.id)!);
+                }
+                
                 // Include position if requested
                 if (args.include_position) {
                     result.position = item.position;
@@ -634,25 +656,73 @@ The response includes matched items with their properties, position, and content
             });
             
         } catch (error) {
+            if (error instanceof SearchQueryParseError) {
+                return {
+                    error: `Invalid query: ${error.message}`,
+                    status: 400,
+                    details: JSON.stringify({ column: error.column, query: args.query })
+                };
+            }
             return formatApiError(error);
         }
     }
 };
 
+// Helper function to build the spatial filters requested, each picking matching item IDs from a set of candidates
+function getSpatialCriteria(
+    index: SpatialIndex,
+    args: SearchParams,
+    distances: Map<string, number>
+): Array<(candidates: MiroItem[]) => Set<string>> {
+    const criteria: Array<(candidates: MiroItem[]) => Set<string>> = [];
+    const anchorRect = (anchor: { item_id?: string; x?: number; y?: number }): Rect =>
+        anchor.item_id ? index.get(anchor.item_id)! : { left: anchor.x!, top: anchor.y!, right: anchor.x!, bottom: anchor.y! };
+    const record = (matches: { entry: { id: string }; distance: number }[]) => {
+        matches.forEach(match => distances.set(match.entry.id, match.distance));
+        return new Set(matches.map(match => match.entry.id));
+    };
+    
+    if (args.area) {
+        const { x, y, width, height } = args.area;
+        const inArea = new Set(index.search({ left: x, top: y, right: x + width, bottom: y + height }).map(entry => entry.id));
+        criteria.push(() => inArea);
+    }
+    
+    const besideCriteria: [string | undefined, SpatialDirection][] = [[args.right_of_id, 'right'], [args.below_id, 'below']];
+    for (const [itemId, direction] of besideCriteria) {
+        if (itemId) {
+            criteria.push(() => record(index.beside(itemId, direction)));
+        }
+    }
+    
+    const { within_radius: withinRadius, nearest_to: nearestTo } = args;
+    if (withinRadius) {
+        criteria.push(candidates => {
+            const candidateIds = new Set(candidates.map(item => item.id));
+            return record(index.nearest(anchorRect(withinRadius), Infinity, {
+                maxDistance: withinRadius.radius,
+                filter: entry => entry.id !== withinRadius.item_id && candidateIds.has(entry.id)
+            }));
+        });
+    }
+    
+    if (nearestTo) {
+        criteria.push(candidates => {
+            const candidateIds = new Set(candidates.map(item => item.id));
+            return record(index.nearest(anchorRect(nearestTo), nearestTo.count, {
+                filter: entry => entry.id !== nearestTo.item_id && candidateIds.has(entry.id)
+            }));
+        });
+    }
+    
+    return criteria;
+}
+
 // Helper function for filtering by text content
 function filterByTextContent(items: MiroItem[], query: string, matchType: 'exact' | 'contains' | 'fuzzy' = 'contains'): MiroItem[] {
     return items.filter(item => {
         const content = getItemContent(item);
-        if (!content) return false;
-        
-        if (matchType === 'exact') {
-            return content.toLowerCase() === query.toLowerCase();
-        } else if (matchType === 'contains') {
-            return content.toLowerCase().includes(query.toLowerCase());
-        } else { // fuzzy
-            return content.toLowerCase().includes(query.toLowerCase()) || 
-                    query.toLowerCase().includes(content.toLowerCase());
-        }
+        return !!content && matchesText(content, query, matchType);
     });
 }
 
@@ -688,25 +758,16 @@ function filterByColor(items: MiroItem[], colorQuery: string, colorTarget: 'fill
 // Helper function for filtering by connections
 function filterByConnections(
     items: MiroItem[], 
-    allItems: MiroItem[], 
+    connectors: MiroConnector[], 
     connectedToId: string, 
     direction: 'from' | 'to' | 'any' = 'any'
 ): MiroItem[] {
-    // First find all connectors
-    const connectors = allItems.filter(item => item.type === 'connector');
-    
     // Find all connected item IDs based on direction
     const connectedItemIds = new Set<string>();
     
     for (const connector of connectors) {
-        if (!connector.data) continue;
-        
-        const connectorData = connector.data as Record<string, unknown>;
-        const startItem = connectorData.startItem as { id?: string } | undefined;
-        const endItem = connectorData.endItem as { id?: string } | undefined;
-        
-        const startItemId = startItem?.id;
-        const endItemId = endItem?.id;
+        const startItemId = connector.startItem?.id;
+        const endItemId = connector.endItem?.id;
         
         if (!startItemId || !endItemId) continue;
         
@@ -730,16 +791,12 @@ function filterByConnections(
 }
 
 // Helper function to get items with a specific tag
-async function getItemsWithTag(tagId: string): Promise<Set<string>> {
+async function getItemsWithTag(boardId: string, tagId: string): Promise<Set<string>> {
     const taggedItemIds = new Set<string>();
     
     try {
-        // Get items with this tag
-        const tagItemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/tags/${tagId}/items`);
-        const taggedItems = tagItemsResponse.data.data || [];
-        
         // Build a set of tagged item IDs for faster lookup
-        for (const taggedItem of taggedItems) {
+        for await (const taggedItem of paginateTaggedItems(boardId, tagId)) {
             taggedItemIds.add(taggedItem.id);
         }
     } catch (error) {
@@ -1,10 +1,12 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../types/tool-types';
 import miroClient from '../client/miro-client';
-import { miroBoardId } from '../config';
+import { paginate, collectAll, paginateBoardItems, paginateConnectors, paginateFrameChildren, paginateTags, paginateTaggedItems } from '../client/paginate';
+import { resolveBoardId } from '../client/board-access';
 import { formatApiResponse, formatApiError } from '../utils/api-utils';
 import { MiroItem, MiroFrame, MiroGroup, MiroTag, MiroConnector, HierarchyItem, BoardState } from '../types/miro-types';
 import { generateContentSummary, modificationHistory } from '../utils/data-utils';
+import { BoardIdSchema } from '../schemas/board-schema';
 
 // Define schemas
 const completeBoardSchema = z.object({
@@ -17,7 +19,8 @@ const completeBoardSchema = z.object({
     item_types: z.array(z.string()).optional().describe('Filter to specific item types (e.g., ["text", "sticky_note"]).'),
     frame_id: z.string().optional().describe('ID of a specific frame to analyze. Only returns items within this frame.'),
     search_term: z.string().optional().describe('Search term to filter items by content or attributes.'),
-    connection_analysis: z.boolean().optional().default(false).describe('Perform detailed analysis of connections to detect potential duplicates or orphaned connectors.')
+    connection_analysis: z.boolean().optional().default(false).describe('Perform detailed analysis of connections to detect potential duplicates or orphaned connectors.'),
+    board_id: BoardIdSchema
 });
 
 const itemTreeSchema = z.object({
@@ -27,6 +30,7 @@ const itemTreeSchema = z.object({
     include_connectors: z.boolean().optional().default(true).describe('Whether to include connector information for items.'),
     include_tags: z.boolean().optional().default(true).describe('Whether to include tags associated with items.'),
     include_content_summaries: z.boolean().optional().default(true).describe('Whether to include content summaries for text items.'),
+    board_id: BoardIdSchema,
 }).refine(
     data => data.item_id !== undefined || data.type !== undefined, 
     { message: 'Either item_id or type must be provided', path: ['item_id'] }
@@ -90,17 +94,18 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
             search_term,
             connection_analysis
         } = args;
+        const boardId = resolveBoardId(args.board_id);
 
         try {
             // Step 1: Get board info
-            const boardResponse = await miroClient.get(`/v2/boards/${miroBoardId}`);
+            const boardResponse = await miroClient.get(`/v2/boards/${boardId}`);
             const boardInfo = boardResponse.data;
             
             // Step 2: If frame_id is provided, first verify it exists
             let frameInfo = null;
             if (frame_id) {
                 try {
-                    const frameResponse = await miroClient.get(`/v2/boards/${miroBoardId}/frames/${frame_id}`);
+                    const frameResponse = await miroClient.get(`/v2/boards/${boardId}/frames/${frame_id}`);
                     frameInfo = frameResponse.data;
                     console.log(`Found frame: ${frameInfo.id}`);
                 } catch (error) {
@@ -109,81 +114,48 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
             }
 
             // Step 3: Get all items (paginate if needed)
-            let allItems: MiroItem[] = [];
-            let cursor: string | null = null;
-            let itemCount = 0;
-            const hasItemLimit = max_items > 0;
-            
-            // Build query parameters with all available filters
-            const queryParams: Record<string, string | string[]> = { limit: '50' };
-            if (item_types && item_types.length > 0) queryParams.type = item_types;
+            const searchLower = search_term && search_term.trim() !== '' ? search_term.toLowerCase() : null;
             
-            // If frame_id is specified, we'll filter items after retrieval
-            // (Miro API doesn't support direct filtering by parent frame)
-
-            do {
-                if (cursor) queryParams.cursor = cursor;
+            // Apply search term filtering if provided
+            const matchesSearchTerm = (item: MiroItem): boolean => {
+                if (!searchLower) return true;
                 
-                const itemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { params: queryParams });
-                const itemsData = itemsResponse.data;
+                // Search in item ID
+                if (item.id.toLowerCase().includes(searchLower)) return true;
                 
-                if (itemsData.data && itemsData.data.length > 0) {
-                    let newItems = itemsData.data;
-                    
-                    // Apply frame filtering if frame_id is provided
-                    if (frame_id) {
-                        newItems = newItems.filter((item: MiroItem) => 
-                            item.parent && 
-                            typeof item.parent === 'object' && 
-                            'id' in item.parent && 
-                            item.parent.id === frame_id
-                        );
-                    }
-                    
-                    // Apply search term filtering if provided
-                    if (search_term && search_term.trim() !== '') {
-                        const searchLower = search_term.toLowerCase();
-                        newItems = newItems.filter((item: MiroItem) => {
-                            // Search in item ID
-                            if (item.id.toLowerCase().includes(searchLower)) return true;
-                            
-                            // Search in item type
-                            if (item.type.toLowerCase().includes(searchLower)) return true;
-                            
-                            // Search in data content if available
-                            if (item.data && typeof item.data === 'object') {
-                                if ('content' in item.data && 
-                                    typeof item.data.content === 'string' && 
-                                    item.data.content.toLowerCase().includes(searchLower)) {
-                                    return true;
-                                }
-                                
-                                // Search in title if available
-                                if ('title' in item.data && 
-                                    typeof item.data.title === 'string' && 
-                                    item.data.title.toLowerCase().includes(searchLower)) {
-                                    return true;
-                                }
-                            }
-                            
-                            return false;
-                        });
+                // Search in item type
+                if (item.type.toLowerCase().includes(searchLower)) return true;
+                
+                // Search in data content if available
+                if (item.data && typeof item.data === 'object') {
+                    if ('content' in item.data && 
+                        typeof item.data.content === 'string' && 
+                        item.data.content.toLowerCase().includes(searchLower)) {
+                        return true;
                     }
                     
-                    // Apply item limit if set
-                    if (hasItemLimit && itemCount + newItems.length > max_items) {
-                        // Add only up to the max items limit
-                        allItems = [...allItems, ...newItems.slice(0, max_items - itemCount)];
-                        itemCount = max_items;
-                        break;
-                    } else {
-                        allItems = [...allItems, ...newItems];
-                        itemCount += newItems.length;
+                    // Search in title if available
+                    if ('title' in item.data && 
+                        typeof item.data.title === 'string' && 
+                        item.data.title.toLowerCase().includes(searchLower)) {
+                        return true;
                     }
                 }
                 
-                cursor = itemsData.cursor || null;
-            } while (cursor && (!hasItemLimit || itemCount < max_items));
+                return false;
+            };
+            
+            const hasItemLimit = max_items > 0;
+            const itemOptions = {
+                type: item_types && item_types.length > 0 ? item_types : undefined,
+                filter: matchesSearchTerm,
+                maxItems: hasItemLimit ? max_items : undefined
+            };
+            
+            // If frame_id is specified, only the frame's children are retrieved
+            const allItems = await collectAll(frame_id
+                ? paginateFrameChildren(boardId, frame_id, itemOptions)
+                : paginateBoardItems(boardId, itemOptions));
 
             // Step 4: Get full content only for text-containing items if requested
             if (include_item_content) {
@@ -210,7 +182,7 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
                                     break;
                             }
                             
-                            const itemResponse = await miroClient.get(`/v2/boards/${miroBoardId}/${itemEndpoint}/${item.id}`);
+                            const itemResponse = await miroClient.get(`/v2/boards/${boardId}/${itemEndpoint}/${item.id}`);
                             
                             // Merge the detailed data with the item instead of adding a separate property
                             allItems[i] = {
@@ -264,15 +236,14 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
             // Step 6: Get groups (summarized version)
             const boardGroups: MiroGroup[] = [];
             try {
-                const groupsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/groups`);
-                if (groupsResponse.data.data && groupsResponse.data.data.length > 0) {
-                    const groupsData = groupsResponse.data.data;
+                const groupsData = await collectAll(paginate<MiroGroup>(`/v2/boards/${boardId}/groups`));
+                if (groupsData.length > 0) {
                     
                     for (const group of groupsData) {
                         try {
-                            const groupItemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/groups/${group.id}/items`);
+                            const groupItems = await collectAll(paginate<MiroItem>(`/v2/boards/${boardId}/groups/${group.id}/items`));
                             // Store just IDs instead of duplicating the items
-                            const childItemIds = (groupItemsResponse.data.data || []).map((item: MiroItem) => item.id);
+                            const childItemIds = groupItems.map(item => item.id);
                             
                             // Filter groups based on frame_id if specified
                             if (frame_id) {
@@ -319,14 +290,12 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
             
             if (include_tags) {
                 try {
-                    const tagsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/tags`);
-                    const tagsData = tagsResponse.data.data || [];
+                    const tagsData = await collectAll(paginateTags(boardId));
                     
                     for (let i = 0; i < tagsData.length; i++) {
                         const tag = tagsData[i];
                         try {
-                            const tagItemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/tags/${tag.id}/items`);
-                            const taggedItems = tagItemsResponse.data.data || [];
+                            const taggedItems = await collectAll(paginateTaggedItems(boardId, tag.id));
                             
                             // If filtering by frame_id, only include tagged items in this frame
                             let relevantTaggedItems = taggedItems;
@@ -383,7 +352,20 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
             }
 
             // Step 9: Build connectivity maps and analyze connections
-            const boardConnectors = allItems.filter(item => item.type === 'connector') as MiroConnector[];
+            let boardConnectors: MiroConnector[] = [];
+            try {
+                boardConnectors = await collectAll(paginateConnectors(boardId));
+                
+                // When focusing on a frame, keep only connectors attached to its items
+                if (frame_id) {
+                    const frameItemIds = new Set(allItems.map(item => item.id));
+                    boardConnectors = boardConnectors.filter(connector => 
+                        (connector.startItem && frameItemIds.has(connector.startItem.id)) ||
+                        (connector.endItem && frameItemIds.has(connector.endItem.id)));
+                }
+            } catch (error) {
+                console.error(`Error getting connectors: ${error}`);
+            }
             
             const connectivityMap: Record<string, string[]> = {};
             const connectivityDetails: Record<string, {to: string[], from: string[], bidirectional: string[]}> = {};
@@ -582,7 +564,7 @@ export const boardStateOperationsTool: ToolDefinition<CompleteBoardParams> = {
                 tagCount: boardTags.length,
                 hasItemLimit: hasItemLimit,
                 itemLimit: max_items,
-                limitReached: hasItemLimit && itemCount >= max_items,
+                limitReached: hasItemLimit && allItems.length >= max_items,
                 includeItemContent: include_item_content,
                 includeTags: include_tags,
                 includeHistory: include_history,
@@ -646,6 +628,7 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
         }
         
         const { item_id, type, max_depth, include_connectors, include_tags, include_content_summaries } = args;
+        const boardId = resolveBoardId(args.board_id);
         
         try {
             // Step 1: Get initial item(s)
@@ -655,12 +638,8 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
                 // Get a specific item by ID
                 try {
                     // We don't know the type, so we need to first check what type it is
-                    const itemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { 
-                        params: { limit: '50' }
-                    });
-                    
-                    // Find the item in the response
-                    const foundItem = itemsResponse.data.data?.find((item: MiroItem) => item.id === item_id);
+                    const itemResponse = await miroClient.get(`/v2/boards/${boardId}/items/${item_id}`);
+                    const foundItem: MiroItem | undefined = itemResponse.data;
                     
                     if (!foundItem) {
                         return formatApiError(new Error(`Item with ID ${item_id} not found`));
@@ -677,8 +656,8 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
                             break;
                     }
                     
-                    const itemResponse = await miroClient.get(`/v2/boards/${miroBoardId}/${itemEndpoint}/${item_id}`);
-                    rootItems = [{ ...foundItem, details: itemResponse.data }];
+                    const detailsResponse = await miroClient.get(`/v2/boards/${boardId}/${itemEndpoint}/${item_id}`);
+                    rootItems = [{ ...foundItem, details: detailsResponse.data }];
                     
                     // Add content summary if requested
                     if (include_content_summaries) {
@@ -693,11 +672,7 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
             } else if (type) {
                 // Get items of a specific type
                 try {
-                    const itemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { 
-                        params: { type, limit: '50' }
-                    });
-                    
-                    rootItems = itemsResponse.data.data || [];
+                    rootItems = await collectAll(paginateBoardItems(boardId, { type }));
                     
                     // Get detailed information for each item
                     let itemEndpoint;
@@ -712,7 +687,7 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
                     
                     for (let i = 0; i < rootItems.length; i++) {
                         try {
-                            const itemResponse = await miroClient.get(`/v2/boards/${miroBoardId}/${itemEndpoint}/${rootItems[i].id}`);
+                            const itemResponse = await miroClient.get(`/v2/boards/${boardId}/${itemEndpoint}/${rootItems[i].id}`);
                             rootItems[i] = { ...rootItems[i], details: itemResponse.data };
                             
                             // Add content summary if requested
@@ -733,54 +708,33 @@ export const hierarchyOperationsTool: ToolDefinition<ItemTreeParams> = {
             
             // Step 2: Get all items on the board to determine parent-child relationships
             const allItems: MiroItem[] = [];
-            let cursor: string | null = null;
             
-            do {
-                const params: Record<string, string> = { limit: '50' };
-                if (cursor) params.cursor = cursor;
-                
-                const itemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/items`, { params });
-                const itemsData = itemsResponse.data;
-                
-                if (itemsData.data && itemsData.data.length > 0) {
-                    const newItems = itemsData.data;
-                    
-                    // Add content summaries if requested
-                    if (include_content_summaries) {
-                        for (const item of newItems) {
-                            const summary = generateContentSummary(item);
-                            if (summary) {
-                                item.content_summary = summary;
-                            }
-                        }
+            for await (const item of paginateBoardItems(boardId)) {
+                // Add content summaries if requested
+                if (include_content_summaries) {
+                    const summary = generateContentSummary(item);
+                    if (summary) {
+                        item.content_summary = summary;
                     }
-                    
-                    allItems.push(...newItems);
                 }
                 
-                cursor = itemsData.cursor || null;
-            } while (cursor);
+                allItems.push(item);
+            }
             
             // Get all connectors for relationship mapping if requested
             let connectors: MiroConnector[] = [];
             if (include_connectors) {
-                connectors = allItems.filter(item => item.type === 'connector') as MiroConnector[];
+                connectors = await collectAll(paginateConnectors(boardId));
             }
             
             // Get all tags if requested
             const itemTags: Record<string, MiroTag[]> = {};
             if (include_tags) {
                 try {
-                    const tagsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/tags`);
-                    const tagsData = tagsResponse.data.data || [];
-                    
-                    for (const tag of tagsData) {
+                    for await (const tag of paginateTags(boardId)) {
                         try {
-                            const tagItemsResponse = await miroClient.get(`/v2/boards/${miroBoardId}/tags/${tag.id}/items`);
-                            const taggedItems = tagItemsResponse.data.data || [];
-                            
                             // Map tags to items
-                            for (const taggedItem of taggedItems) {
+                            for await (const taggedItem of paginateTaggedItems(boardId, tag.id)) {
                                 if (!itemTags[taggedItem.id]) {
                                     itemTags[taggedItem.id] = [];
                                 }
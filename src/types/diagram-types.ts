@@ -0,0 +1,43 @@
+/**
+ * Format-neutral diagram model shared by the diagram parsers, layout and board rendering.
+ * Shapes, stroke styles and stroke caps use Miro's names, so rendering needs no further mapping.
+ */
+export type DiagramDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+export type DiagramNode = {
+    id: string;
+    label: string;
+    // Miro shape name, e.g. rectangle, round_rectangle, rhombus, circle
+    shape: string;
+    fillColor?: string;
+    borderColor?: string;
+    // Subgraph or cluster the node belongs to
+    clusterId?: string;
+};
+
+export type DiagramEdge = {
+    from: string;
+    to: string;
+    label?: string;
+    strokeStyle: 'normal' | 'dotted' | 'dashed';
+    thick?: boolean;
+    startCap: string;
+    endCap: string;
+    // Only used for layout, never drawn
+    hidden?: boolean;
+};
+
+export type DiagramCluster = {
+    id: string;
+    title: string;
+    parentId?: string;
+};
+
+export type DiagramGraph = {
+    direction: DiagramDirection;
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+    clusters: DiagramCluster[];
+    // Parts of the source that were skipped or approximated
+    warnings: string[];
+};
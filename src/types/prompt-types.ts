@@ -0,0 +1,10 @@
+/**
+ * Prompt definition type, the counterpart of ToolDefinition for MCP prompts.
+ * Arguments arrive as strings; optional ones may be undefined.
+ */
+export type PromptDefinition = {
+    name: string;
+    description: string;
+    arguments: { name: string; description: string; required?: boolean }[];
+    load: (args: Record<string, string | undefined>) => Promise<string>;
+};
@@ -0,0 +1,14 @@
+import { ErrorResponse } from '../utils/api-utils';
+
+/**
+ * Resource template definition type, the counterpart of ToolDefinition for MCP resources.
+ * The URI template's placeholders are passed to load as string arguments.
+ */
+export type ResourceTemplateDefinition = {
+    name: string;
+    description: string;
+    uriTemplate: string;
+    mimeType: string;
+    arguments: { name: string; description: string }[];
+    load: (args: Record<string, string>) => Promise<string | ErrorResponse>;
+};
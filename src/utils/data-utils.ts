@@ -1,4 +1,12 @@
 import { MiroItem } from '../types/miro-types';
+import { matchesText, scoreDocuments } from './text-search';
+
+// Side length assumed for items that report no size
+const DEFAULT_ITEM_SIZE = 100;
+
+// Space between a frame's border and its contents when a frame is sized around items.
+// Miro draws the frame title above the frame, so the title needs no room inside it.
+export const FRAME_PADDING = 60;
 
 /**
  * Helper function to convert style string values to appropriate types
@@ -250,6 +258,40 @@ export function translatePosition(
     return {x: resultX, y: resultY};
 }
 
+/**
+ * Canvas position of an item's center; child positions are relative to the parent's top-left corner
+ */
+export function getCanvasCenter(item: MiroItem, itemsById: Map<string, MiroItem>): { x: number; y: number } {
+    const position = { x: Number(item.position?.x) || 0, y: Number(item.position?.y) || 0 };
+    const parent = item.parent && itemsById.get(item.parent.id);
+    if (!parent?.position || !parent.geometry) return position;
+
+    const translated = translatePosition(position, 'parent_top_left', 'canvas_center', parent.geometry,
+        { x: Number(parent.position.x) || 0, y: Number(parent.position.y) || 0 });
+    return { x: Number(translated.x), y: Number(translated.y) };
+}
+
+/**
+ * Position to give an item so its center lands on a canvas point; the inverse of getCanvasCenter
+ */
+export function getItemPosition(item: MiroItem, canvasCenter: { x: number; y: number }, itemsById: Map<string, MiroItem>): { x: number; y: number } {
+    const parent = item.parent && itemsById.get(item.parent.id);
+    if (!parent?.position || !parent.geometry) return canvasCenter;
+
+    const translated = translatePosition(canvasCenter, 'canvas_center', 'parent_top_left', parent.geometry,
+        { x: Number(parent.position.x) || 0, y: Number(parent.position.y) || 0 });
+    return { x: Number(translated.x), y: Number(translated.y) };
+}
+
+/**
+ * Returns an item's width and height, falling back to a square for items that report only one side
+ */
+export function getItemSize(item: MiroItem): { width: number; height: number } {
+    const width = Number(item.geometry?.width) || Number(item.geometry?.height) || DEFAULT_ITEM_SIZE;
+    const height = Number(item.geometry?.height) || width;
+    return { width, height };
+}
+
 /**
  * Validates if position is valid for parent-child relationship
  * Enhanced to support all reference points
@@ -481,7 +523,7 @@ class ModificationHistory {
 export const modificationHistory = ModificationHistory.getInstance();
 
 /**
- * Filter items by text content (for content-based search)
+ * Filter items by text content (for content-based search), best matches first
  */
 export function filterItemsByContent(items: MiroItem[], query: string, options?: { 
     fuzzyMatch?: boolean, 
@@ -489,25 +531,21 @@ export function filterItemsByContent(items: MiroItem[], query: string, options?:
 }): MiroItem[] {
     if (!items || !items.length || !query) return [];
     
-    const normalizedQuery = query.toLowerCase();
-    
-    return items.filter(item => {
+    const matchType = options?.fuzzyMatch ? 'fuzzy' : 'contains';
+    const matchingItems = items.filter(item => {
         // Filter by type if specified
         if (options?.itemType && item.type !== options.itemType) {
             return false;
         }
         
         const content = generateContentSummary(item);
-        if (!content) return false;
-        
-        if (options?.fuzzyMatch) {
-            // Simple fuzzy matching (contains any part of the query)
-            return content.toLowerCase().includes(normalizedQuery);
-        } else {
-            // Exact matching (contains the whole query)
-            return content.toLowerCase().includes(normalizedQuery);
-        }
+        // Fuzzy matching also accepts the query's words in any order and with typos; otherwise the whole query must appear
+        return !!content && matchesText(content, query, matchType);
     });
+    
+    // Best matches first
+    const scores = scoreDocuments(new Map(items.map(item => [item.id, generateContentSummary(item) || ''])), query, !!options?.fuzzyMatch);
+    return matchingItems.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
 }
 
 /**
@@ -0,0 +1,26 @@
+import diagnosticsChannel from 'diagnostics_channel';
+import http from 'http';
+
+/**
+ * Wraps the request handler of the HTTP server listening on the given port, before it dispatches its first request.
+ * FastMCP neither exposes the HTTP server it starts nor passes hooks through to it, so the server is picked up from
+ * Node's http.server.request.start diagnostics channel, which reports each request before it is dispatched.
+ * No other server is touched; wrappers registered for the same port apply in order, the last one outermost.
+ * This relies on Node 18.7 or later for the channel and on FastMCP 1.27 serving each transport from one plain
+ * http.Server with a single request listener, which is why package.json pins both.
+ */
+export function wrapRequestHandler(port: number, wrap: (handler: http.RequestListener) => http.RequestListener): void {
+    const requestStart = diagnosticsChannel.channel('http.server.request.start');
+    const onRequestStart = (message: unknown) => {
+        const { server } = message as { server: http.Server };
+        const address = server.address();
+        if (!address || typeof address === 'string' || address.port !== port) return;
+
+        requestStart.unsubscribe(onRequestStart);
+        for (const handler of server.listeners('request') as http.RequestListener[]) {
+            server.removeListener('request', handler);
+            server.on('request', wrap(handler));
+        }
+    };
+    requestStart.subscribe(onRequestStart);
+}
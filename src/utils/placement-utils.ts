@@ -0,0 +1,188 @@
+import { getBoardItems } from '../client/board-cache';
+import { MiroItem } from '../types/miro-types';
+import { ErrorResponse } from './api-utils';
+import { getCanvasCenter, getItemSize } from './data-utils';
+
+// Space kept free around items placed in free space
+const FREE_SPACE_GAP = 20;
+// Number of nearby items whose edges are tried as resting places for a new item
+const MAX_ANCHORS = 40;
+
+// Sizes Miro gives new items that are created without geometry
+const DEFAULT_SIZES: Record<string, { width: number; height: number }> = {
+    sticky_note: { width: 199, height: 228 },
+    shape: { width: 100, height: 100 },
+    text: { width: 105, height: 50 },
+    frame: { width: 1000, height: 600 },
+    card: { width: 320, height: 94 },
+    app_card: { width: 320, height: 94 },
+    image: { width: 400, height: 300 },
+    document: { width: 400, height: 560 },
+    embed: { width: 400, height: 300 },
+    preview: { width: 400, height: 300 }
+};
+
+/**
+ * Center and size of an item
+ */
+export interface ItemBox {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Items already taking up space on the canvas or in a frame.
+ * Inside a frame, coordinates are measured from its top-left corner and bounds holds its size.
+ */
+export interface OccupiedArea {
+    boxes: ItemBox[];
+    bounds?: { width: number; height: number };
+}
+
+/**
+ * A pair of items covering part of each other
+ */
+export interface ItemOverlap {
+    item_ids: [string, string];
+    overlap: { width: number; height: number; area: number };
+    // Share of the smaller item that is covered
+    ratio: number;
+}
+
+/**
+ * Size a new item will have: its geometry, completed with the default aspect ratio of its type when only one side is given
+ */
+export function estimateNewItemSize(type: string, geometry?: { width?: number; height?: number }): { width: number; height: number } {
+    const defaults = DEFAULT_SIZES[type] ?? DEFAULT_SIZES.shape;
+    const width = Number(geometry?.width) || 0;
+    const height = Number(geometry?.height) || 0;
+    if (width && height) return { width, height };
+    if (width) return { width, height: width * defaults.height / defaults.width };
+    if (height) return { width: height * defaults.width / defaults.height, height };
+    return { ...defaults };
+}
+
+/**
+ * Reads the items already on the canvas, or in one frame, from the board cache
+ */
+export async function loadOccupiedArea(boardId: string, parentId?: string): Promise<OccupiedArea> {
+    const items = await getBoardItems(boardId);
+    if (!parentId) {
+        const itemsById = new Map(items.map(item => [item.id, item]));
+        return { boxes: items.map(item => toBox(item, getCanvasCenter(item, itemsById))) };
+    }
+
+    const parent = items.find(item => item.id === parentId);
+    if (!parent) {
+        throw new Error(`Parent frame ${parentId} not found on board ${boardId}`);
+    }
+    return {
+        boxes: items
+            .filter(item => item.parent?.id === parentId)
+            .map(item => toBox(item, { x: Number(item.position?.x) || 0, y: Number(item.position?.y) || 0 })),
+        bounds: getItemSize(parent)
+    };
+}
+
+/**
+ * Finds the position closest to the desired one where an item of the given size overlaps nothing in the area,
+ * keeping a small gap around other items. Returns undefined when a frame has no room left for the item.
+ */
+export function findFreePosition(area: OccupiedArea, desired: { x: number; y: number }, size: { width: number; height: number }): { x: number; y: number } | undefined {
+    const halfWidth = size.width / 2;
+    const halfHeight = size.height / 2;
+    const fits = (x: number, y: number) => {
+        if (area.bounds && (x - halfWidth < 0 || y - halfHeight < 0 || x + halfWidth > area.bounds.width || y + halfHeight > area.bounds.height)) {
+            return false;
+        }
+        return !area.boxes.some(box =>
+            Math.abs(box.x - x) < box.width / 2 + halfWidth + FREE_SPACE_GAP && Math.abs(box.y - y) < box.height / 2 + halfHeight + FREE_SPACE_GAP);
+    };
+    if (fits(desired.x, desired.y)) return { x: desired.x, y: desired.y };
+
+    // Try resting the item against the sides of nearby items, and against the frame's edges
+    const distance = (x: number, y: number) => (x - desired.x) ** 2 + (y - desired.y) ** 2;
+    const anchors = [...area.boxes].sort((a, b) => distance(a.x, a.y) - distance(b.x, b.y)).slice(0, MAX_ANCHORS);
+    const xs = [desired.x, ...anchors.flatMap(box => [box.x - box.width / 2 - FREE_SPACE_GAP - halfWidth, box.x + box.width / 2 + FREE_SPACE_GAP + halfWidth])];
+    const ys = [desired.y, ...anchors.flatMap(box => [box.y - box.height / 2 - FREE_SPACE_GAP - halfHeight, box.y + box.height / 2 + FREE_SPACE_GAP + halfHeight])];
+    if (area.bounds) {
+        xs.push(halfWidth, area.bounds.width - halfWidth);
+        ys.push(halfHeight, area.bounds.height - halfHeight);
+    }
+
+    const candidates = xs.flatMap(x => ys.map(y => ({ x, y }))).sort((a, b) => distance(a.x, a.y) - distance(b.x, b.y));
+    const free = candidates.find(candidate => fits(candidate.x, candidate.y));
+    if (free || area.bounds) return free;
+
+    // The canvas always has room to the right of everything
+    const right = Math.max(...area.boxes.map(box => box.x + box.width / 2));
+    return { x: right + FREE_SPACE_GAP + halfWidth, y: desired.y };
+}
+
+/**
+ * Moves the position of a create request body to the nearest free spot, on the canvas or in the body's parent frame.
+ * Pass the same areas map for every item of a batch, so the items also keep clear of each other.
+ */
+export async function placeInFreeSpace(
+    boardId: string,
+    type: string,
+    body: Record<string, unknown>,
+    areas: Map<string, OccupiedArea> = new Map()
+): Promise<ErrorResponse | undefined> {
+    const parentId = (body.parent as { id?: string } | undefined)?.id;
+    let area = areas.get(parentId ?? '');
+    if (!area) {
+        area = await loadOccupiedArea(boardId, parentId);
+        areas.set(parentId ?? '', area);
+    }
+
+    const position = body.position as { x?: number; y?: number } | undefined;
+    const size = estimateNewItemSize(type, body.geometry as { width?: number; height?: number } | undefined);
+    const free = findFreePosition(area, { x: Number(position?.x) || 0, y: Number(position?.y) || 0 }, size);
+    if (!free) {
+        return {
+            error: `Frame ${parentId} has no free space left for a ${Math.round(size.width)} x ${Math.round(size.height)} ${type}.`,
+            status: 400,
+            details: 'Enlarge the frame with mcp_miro_frame_operations (update or fit_to_contents), or place the item with placement "exact".'
+        };
+    }
+
+    body.position = { x: free.x, y: free.y, origin: 'center' };
+    area.boxes.push({ id: '', ...free, ...size });
+    return undefined;
+}
+
+/**
+ * Lists every pair of boxes that cover part of each other; boxes that only touch do not count
+ */
+export function findOverlaps(boxes: ItemBox[], ignore?: (a: ItemBox, b: ItemBox) => boolean): ItemOverlap[] {
+    const sorted = [...boxes].sort((a, b) => (a.x - a.width / 2) - (b.x - b.width / 2));
+    const overlaps: ItemOverlap[] = [];
+
+    // Sweep from left to right, comparing each box only with those starting before it ends
+    sorted.forEach((first, index) => {
+        const firstRight = first.x + first.width / 2;
+        for (let next = index + 1; next < sorted.length && sorted[next].x - sorted[next].width / 2 < firstRight; next++) {
+            const second = sorted[next];
+            const width = Math.min(firstRight, second.x + second.width / 2) - Math.max(first.x - first.width / 2, second.x - second.width / 2);
+            const height = Math.min(first.y + first.height / 2, second.y + second.height / 2) - Math.max(first.y - first.height / 2, second.y - second.height / 2);
+            if (width <= 0 || height <= 0 || ignore?.(first, second)) continue;
+
+            const area = width * height;
+            const smaller = Math.min(first.width * first.height, second.width * second.height);
+            overlaps.push({
+                item_ids: [first.id, second.id],
+                overlap: { width, height, area },
+                ratio: smaller > 0 ? Math.round(area / smaller * 100) / 100 : 0
+            });
+        }
+    });
+    return overlaps;
+}
+
+function toBox(item: MiroItem, center: { x: number; y: number }): ItemBox {
+    return { id: item.id, ...center, ...getItemSize(item) };
+}
@@ -0,0 +1,235 @@
+/**
+ * A small query language for board search, e.g. type:sticky_note AND (color:blue OR text:"risk") AND in:frame123
+ */
+
+/**
+ * Criteria a query term can filter on
+ */
+export const QUERY_FIELDS = ['type', 'color', 'text', 'in', 'tag', 'connected'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+/**
+ * Parsed query: terms combined with AND, OR and NOT
+ */
+export type QueryNode =
+    | { kind: 'and'; children: QueryNode[] }
+    | { kind: 'or'; children: QueryNode[] }
+    | { kind: 'not'; child: QueryNode }
+    | { kind: 'term'; field: QueryField; value: string };
+
+/**
+ * Error thrown when a search query cannot be parsed. column is 1-based.
+ */
+export class SearchQueryParseError extends Error {
+    constructor(message: string, public readonly column: number) {
+        super(`Column ${column}: ${message}`);
+        this.name = 'SearchQueryParseError';
+    }
+}
+
+type Token =
+    | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'end'; column: number; text: string }
+    | { kind: 'term'; column: number; text: string; field: QueryField; value: string };
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+// Characters that end a bare word
+const WORD_BREAK = /[\s()"]/;
+
+/**
+ * Reads a quoted string starting at the opening quote; backslash escapes the next character
+ */
+function readQuoted(query: string, start: number): { value: string; end: number } {
+    let value = '';
+    for (let index = start + 1; index < query.length; index++) {
+        if (query[index] === '\\' && index + 1 < query.length) {
+            value += query[++index];
+        } else if (query[index] === '"') {
+            return { value, end: index + 1 };
+        } else {
+            value += query[index];
+        }
+    }
+    throw new SearchQueryParseError('Missing closing quote for the string starting here', start + 1);
+}
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+    while (index < query.length) {
+        const char = query[index];
+        const column = index + 1;
+        if (/\s/.test(char)) {
+            index++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', column, text: char });
+            index++;
+        } else if (char === '"') {
+            // A quoted phrase on its own searches the text
+            const quoted = readQuoted(query, index);
+            tokens.push({ kind: 'term', column, text: query.slice(index, quoted.end), field: 'text', value: quoted.value });
+            index = quoted.end;
+        } else {
+            let end = index;
+            while (end < query.length && !WORD_BREAK.test(query[end])) end++;
+            const word = query.slice(index, end);
+
+            if (KEYWORDS[word]) {
+                tokens.push({ kind: KEYWORDS[word], column, text: word });
+                index = end;
+                continue;
+            }
+
+            const separator = word.indexOf(':');
+            if (separator <= 0) {
+                // A bare word searches the text
+                tokens.push({ kind: 'term', column, text: word, field: 'text', value: word });
+                index = end;
+                continue;
+            }
+
+            const field = word.slice(0, separator).toLowerCase();
+            if (!(QUERY_FIELDS as readonly string[]).includes(field)) {
+                throw new SearchQueryParseError(`Unknown field "${word.slice(0, separator)}". Use one of: ${QUERY_FIELDS.join(', ')}`, column);
+            }
+            let value = word.slice(separator + 1);
+            if (!value && query[end] === '"') {
+                const quoted = readQuoted(query, end);
+                value = quoted.value;
+                end = quoted.end;
+            }
+            if (!value) {
+                throw new SearchQueryParseError(`Missing a value after "${field}:"`, column);
+            }
+            tokens.push({ kind: 'term', column, text: query.slice(index, end), field: field as QueryField, value });
+            index = end;
+        }
+    }
+    tokens.push({ kind: 'end', column: query.length + 1, text: 'end of query' });
+    return tokens;
+}
+
+/**
+ * Parses a search query. Terms are field:value pairs, with values in double quotes when they contain spaces or
+ * parentheses; a bare word or quoted phrase searches the text. Terms combine with AND, OR and NOT (upper case),
+ * grouped with parentheses; NOT binds tightest, then AND, then OR, and terms next to each other are ANDed.
+ * Item types are checked against itemTypes when given.
+ */
+export function parseSearchQuery(query: string, options: { itemTypes?: readonly string[] } = {}): QueryNode {
+    const tokens = tokenize(query);
+    let position = 0;
+    const peek = () => tokens[position];
+    const describe = (token: Token) => token.kind === 'end' ? 'the end of the query' : `"${token.text}"`;
+
+    const parseOr = (): QueryNode => {
+        const children = [parseAnd()];
+        while (peek().kind === 'or') {
+            position++;
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { kind: 'or', children };
+    };
+
+    const parseAnd = (): QueryNode => {
+        const children = [parseUnary()];
+        for (let token = peek(); token.kind === 'and' || token.kind === 'not' || token.kind === 'term' || token.kind === 'lparen'; token = peek()) {
+            if (token.kind === 'and') position++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { kind: 'and', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+        const token = peek();
+        if (token.kind === 'not') {
+            position++;
+            return { kind: 'not', child: parseUnary() };
+        }
+        if (token.kind === 'lparen') {
+            position++;
+            const inner = parseOr();
+            if (peek().kind !== 'rparen') {
+                throw new SearchQueryParseError(`Missing ")" to close the "(" at column ${token.column}; found ${describe(peek())}`, peek().column);
+            }
+            position++;
+            return inner;
+        }
+        if (token.kind === 'term') {
+            position++;
+            if (token.field === 'type' && options.itemTypes && !options.itemTypes.includes(token.value)) {
+                throw new SearchQueryParseError(`Unknown item type "${token.value}". Use one of: ${options.itemTypes.join(', ')}`, token.column);
+            }
+            return { kind: 'term', field: token.field, value: token.value };
+        }
+
+        const previous = tokens[position - 1];
+        const after = previous && previous.kind !== 'lparen' ? ` after ${describe(previous)}` : '';
+        throw new SearchQueryParseError(
+            token.kind === 'rparen' && !previous
+                ? 'Unexpected ")" with no matching "("'
+                : `Expected a search term${after}, found ${describe(token)}`,
+            token.column
+        );
+    };
+
+    if (peek().kind === 'end') {
+        throw new SearchQueryParseError('The query is empty', 1);
+    }
+    const root = parseOr();
+    if (peek().kind !== 'end') {
+        const token = peek();
+        throw new SearchQueryParseError(
+            token.kind === 'rparen' ? 'Unexpected ")" with no matching "("' : `Unexpected ${describe(token)}`,
+            token.column
+        );
+    }
+    return root;
+}
+
+/**
+ * Values of the terms for one field that items must match, leaving out negated terms
+ */
+export function getQueryTerms(node: QueryNode, field: QueryField): string[] {
+    switch (node.kind) {
+        case 'term':
+            return node.field === field ? [node.value] : [];
+        case 'not':
+            return [];
+        default:
+            return node.children.flatMap(child => getQueryTerms(child, field));
+    }
+}
+
+/**
+ * Evaluates a parsed query over a set of items, given the IDs of the items each term matches.
+ * NOT keeps the items the negated part does not match.
+ */
+export async function evaluateSearchQuery(
+    node: QueryNode,
+    itemIds: Set<string>,
+    matchTerm: (field: QueryField, value: string) => Promise<Set<string>>
+): Promise<Set<string>> {
+    switch (node.kind) {
+        case 'term':
+            return new Set(Array.from(await matchTerm(node.field, node.value)).filter(id => itemIds.has(id)));
+        case 'not': {
+            const excluded = await evaluateSearchQuery(node.child, itemIds, matchTerm);
+            return new Set(Array.from(itemIds).filter(id => !excluded.has(id)));
+        }
+        case 'and': {
+            let matches = itemIds;
+            for (const child of node.children) {
+                matches = await evaluateSearchQuery(child, matches, matchTerm);
+            }
+            return matches;
+        }
+        case 'or': {
+            const matches = new Set<string>();
+            for (const child of node.children) {
+                (await evaluateSearchQuery(child, itemIds, matchTerm)).forEach(id => matches.add(id));
+            }
+            return matches;
+        }
+    }
+}
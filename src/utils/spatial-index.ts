@@ -0,0 +1,231 @@
+import { MiroItem } from '../types/miro-types';
+import { getCanvasCenter, getItemSize } from './data-utils';
+
+// Most children a node of the tree holds
+const NODE_CAPACITY = 16;
+
+/**
+ * Rectangle in canvas coordinates
+ */
+export interface Rect {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * Bounding box of one item in canvas coordinates
+ */
+export interface SpatialEntry extends Rect {
+    id: string;
+}
+
+/**
+ * An entry found by a proximity query, with the gap between it and the queried point or item
+ */
+export interface SpatialMatch {
+    entry: SpatialEntry;
+    distance: number;
+}
+
+/**
+ * Side of an item to look on for its neighbours
+ */
+export type SpatialDirection = 'right' | 'below' | 'left' | 'above';
+
+// Leaves hold entries, the other nodes hold child nodes
+interface TreeNode {
+    bounds: Rect;
+    children: TreeNode[];
+    entries: SpatialEntry[];
+}
+
+/**
+ * Gap between two rectangles; 0 when they touch or overlap
+ */
+export function rectDistance(a: Rect, b: Rect): number {
+    const dx = Math.max(0, b.left - a.right, a.left - b.right);
+    const dy = Math.max(0, b.top - a.bottom, a.top - b.bottom);
+    return Math.hypot(dx, dy);
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+    return a.left <= b.right && b.left <= a.right && a.top <= b.bottom && b.top <= a.bottom;
+}
+
+function enclose(rects: Rect[]): Rect {
+    return {
+        left: Math.min(...rects.map(rect => rect.left)),
+        top: Math.min(...rects.map(rect => rect.top)),
+        right: Math.max(...rects.map(rect => rect.right)),
+        bottom: Math.max(...rects.map(rect => rect.bottom))
+    };
+}
+
+/**
+ * Groups rectangles into nodes with sort-tile-recursive packing: vertical slices by center x, then runs by center y,
+ * so each node covers a compact patch of the board
+ */
+function pack<T>(rects: T[], boundsOf: (rect: T) => Rect): T[][] {
+    const centerX = (rect: T) => boundsOf(rect).left + boundsOf(rect).right;
+    const centerY = (rect: T) => boundsOf(rect).top + boundsOf(rect).bottom;
+    const sliceSize = NODE_CAPACITY * Math.ceil(Math.sqrt(Math.ceil(rects.length / NODE_CAPACITY)));
+    const byX = [...rects].sort((a, b) => centerX(a) - centerX(b));
+
+    const groups: T[][] = [];
+    for (let sliceStart = 0; sliceStart < byX.length; sliceStart += sliceSize) {
+        const slice = byX.slice(sliceStart, sliceStart + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+        for (let start = 0; start < slice.length; start += NODE_CAPACITY) {
+            groups.push(slice.slice(start, start + NODE_CAPACITY));
+        }
+    }
+    return groups;
+}
+
+/**
+ * Minimal binary heap ordered by distance, for best-first search
+ */
+function heapPush<T extends { distance: number }>(heap: T[], value: T): void {
+    heap.push(value);
+    for (let index = heap.length - 1; index > 0;) {
+        const parent = (index - 1) >> 1;
+        if (heap[parent].distance <= heap[index].distance) break;
+        [heap[parent], heap[index]] = [heap[index], heap[parent]];
+        index = parent;
+    }
+}
+
+function heapPop<T extends { distance: number }>(heap: T[]): T | undefined {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length === 0 || !last) return top;
+
+    heap[0] = last;
+    for (let index = 0; ;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < heap.length && heap[left].distance < heap[smallest].distance) smallest = left;
+        if (right < heap.length && heap[right].distance < heap[smallest].distance) smallest = right;
+        if (smallest === index) break;
+        [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+        index = smallest;
+    }
+    return top;
+}
+
+/**
+ * R-tree over the bounding boxes of board items, bulk-loaded once and then only queried.
+ * Answers rectangle, nearest-neighbour, radius and direction queries without scanning every item.
+ */
+export class SpatialIndex {
+    private readonly root: TreeNode;
+    private readonly entriesById: Map<string, SpatialEntry>;
+
+    constructor(entries: SpatialEntry[]) {
+        this.entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+        let level: TreeNode[] = pack(entries, entry => entry)
+            .map(group => ({ bounds: enclose(group), children: [], entries: group }));
+        while (level.length > 1) {
+            level = pack(level, node => node.bounds)
+                .map(group => ({ bounds: enclose(group.map(node => node.bounds)), children: group, entries: [] }));
+        }
+        this.root = level[0] ?? { bounds: { left: 0, top: 0, right: 0, bottom: 0 }, children: [], entries: [] };
+    }
+
+    /**
+     * Indexes items by their canvas bounding boxes, resolving the positions of frame children
+     */
+    static fromItems(items: MiroItem[]): SpatialIndex {
+        const itemsById = new Map(items.map(item => [item.id, item]));
+        return new SpatialIndex(items.map(item => {
+            const { x, y } = getCanvasCenter(item, itemsById);
+            const { width, height } = getItemSize(item);
+            return { id: item.id, left: x - width / 2, top: y - height / 2, right: x + width / 2, bottom: y + height / 2 };
+        }));
+    }
+
+    get size(): number {
+        return this.entriesById.size;
+    }
+
+    get(id: string): SpatialEntry | undefined {
+        return this.entriesById.get(id);
+    }
+
+    /**
+     * Entries that overlap or touch the area
+     */
+    search(area: Rect): SpatialEntry[] {
+        const found: SpatialEntry[] = [];
+        if (this.size === 0) return found;
+
+        const pending = [this.root];
+        for (let node = pending.pop(); node; node = pending.pop()) {
+            if (!intersects(node.bounds, area)) continue;
+            found.push(...node.entries.filter(entry => intersects(entry, area)));
+            pending.push(...node.children);
+        }
+        return found;
+    }
+
+    /**
+     * Up to count entries closest to the target, nearest first, optionally no further away than maxDistance.
+     * Entries rejected by the filter are skipped without counting towards count.
+     */
+    nearest(target: Rect, count: number, options: { maxDistance?: number; filter?: (entry: SpatialEntry) => boolean } = {}): SpatialMatch[] {
+        const maxDistance = options.maxDistance ?? Infinity;
+        const found: SpatialMatch[] = [];
+        if (this.size === 0 || count <= 0) return found;
+
+        // Nodes and entries still to visit, closest first; an entry popped from here is closer than anything left
+        const queue: { distance: number; node?: TreeNode; entry?: SpatialEntry }[] = [];
+        heapPush(queue, { distance: rectDistance(this.root.bounds, target), node: this.root });
+        for (let next = heapPop(queue); next && next.distance <= maxDistance; next = heapPop(queue)) {
+            if (next.entry) {
+                found.push({ entry: next.entry, distance: next.distance });
+                if (found.length >= count) break;
+                continue;
+            }
+            for (const entry of next.node!.entries) {
+                if (!options.filter || options.filter(entry)) heapPush(queue, { distance: rectDistance(entry, target), entry });
+            }
+            for (const child of next.node!.children) {
+                heapPush(queue, { distance: rectDistance(child.bounds, target), node: child });
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Entries entirely on one side of an entry and overlapping its band, like the items in the same row to its right,
+     * nearest first
+     */
+    beside(id: string, direction: SpatialDirection): SpatialMatch[] {
+        const origin = this.entriesById.get(id);
+        if (!origin) return [];
+
+        const horizontal = direction === 'right' || direction === 'left';
+        const area: Rect = {
+            left: direction === 'right' ? origin.right : horizontal ? -Infinity : origin.left,
+            right: direction === 'left' ? origin.left : horizontal ? Infinity : origin.right,
+            top: direction === 'below' ? origin.bottom : horizontal ? origin.top : -Infinity,
+            bottom: direction === 'above' ? origin.top : horizontal ? origin.bottom : Infinity
+        };
+        const gap = (entry: SpatialEntry) => direction === 'right' ? entry.left - origin.right
+            : direction === 'left' ? origin.left - entry.right
+            : direction === 'below' ? entry.top - origin.bottom
+            : origin.top - entry.bottom;
+        // Entries that only touch the band's edges are not in it
+        const inBand = (entry: SpatialEntry) => horizontal
+            ? entry.top < origin.bottom && entry.bottom > origin.top
+            : entry.left < origin.right && entry.right > origin.left;
+
+        return this.search(area)
+            .filter(entry => entry.id !== id && gap(entry) >= 0 && inBand(entry))
+            .map(entry => ({ entry, distance: gap(entry) }))
+            .sort((a, b) => a.distance - b.distance);
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * Text matching and relevance scoring for board search
+ */
+
+// Lowest similarity, from 0 to 1, at which a misspelled word still matches: about one typo per three letters
+export const FUZZY_SIMILARITY_THRESHOLD = 0.7;
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// How much a partial word match counts compared to the exact word
+const PREFIX_WEIGHT = 0.8;
+const SUBSTRING_WEIGHT = 0.5;
+const FUZZY_WEIGHT = 0.8;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': '\'', '&nbsp;': ' '
+};
+
+/**
+ * Text content as a reader sees it: without HTML tags and entities, lowercase, with single spaces
+ */
+export function normalizeText(text: string): string {
+    return text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity])
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Splits text into lowercase words of letters and digits
+ */
+export function tokenize(text: string): string[] {
+    return normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Levenshtein distance between two strings. Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+        if (rowMinimum > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * How well a word of the text matches a word of the query, from 0 (not at all) to 1 (the same word).
+ * Words starting with or containing the query word count partly; with fuzzy, so do words within a few typos of it.
+ */
+export function termWeight(queryWord: string, word: string, fuzzy: boolean): number {
+    if (word === queryWord) return 1;
+    if (word.startsWith(queryWord)) return PREFIX_WEIGHT;
+    if (word.includes(queryWord)) return SUBSTRING_WEIGHT;
+    if (!fuzzy) return 0;
+
+    const length = Math.max(word.length, queryWord.length);
+    const maxEdits = Math.floor(length * (1 - FUZZY_SIMILARITY_THRESHOLD));
+    const similarity = 1 - editDistance(queryWord, word, maxEdits) / length;
+    return similarity >= FUZZY_SIMILARITY_THRESHOLD ? FUZZY_WEIGHT * similarity : 0;
+}
+
+/**
+ * Whether text matches a query: exact compares the whole text, contains looks for the query in it,
+ * and fuzzy also accepts text in which every word of the query appears, possibly misspelled
+ */
+export function matchesText(text: string, query: string, matchType: 'exact' | 'contains' | 'fuzzy'): boolean {
+    const normalizedText = normalizeText(text);
+    const normalizedQuery = normalizeText(query);
+    if (matchType === 'exact') return normalizedText === normalizedQuery;
+    if (normalizedText.includes(normalizedQuery)) return true;
+    if (matchType === 'contains') return false;
+
+    const queryWords = tokenize(query);
+    const words = new Set(tokenize(text));
+    return queryWords.length > 0 && queryWords.every(queryWord => Array.from(words).some(word => termWeight(queryWord, word, true) > 0));
+}
+
+/**
+ * Scores documents against a query with BM25: words that are rare across the documents weigh more,
+ * repeated words add less and less, and long documents are scored down. Partial and, with fuzzy, misspelled
+ * words count for part of a match. Returns the score of every document matching at least one query word.
+ */
+export function scoreDocuments(documents: Map<string, string>, query: string, fuzzy: boolean = false): Map<string, number> {
+    const scores = new Map<string, number>();
+    const queryWords = Array.from(new Set(tokenize(query)));
+    if (queryWords.length === 0 || documents.size === 0) return scores;
+
+    const documentWords = Array.from(documents, ([id, text]) => ({ id, words: tokenize(text) }));
+    const averageLength = documentWords.reduce((sum, document) => sum + document.words.length, 0) / documentWords.length || 1;
+
+    for (const queryWord of queryWords) {
+        // Weight of every distinct word on the board against this query word, worked out once
+        const weights = new Map<string, number>();
+        const weightOf = (word: string) => {
+            let weight = weights.get(word);
+            if (weight === undefined) {
+                weight = termWeight(queryWord, word, fuzzy);
+                weights.set(word, weight);
+            }
+            return weight;
+        };
+
+        const frequencies = documentWords
+            .map(document => ({ ...document, frequency: document.words.reduce((sum, word) => sum + weightOf(word), 0) }))
+            .filter(document => document.frequency > 0);
+        const idf = Math.log(1 + (documentWords.length - frequencies.length + 0.5) / (frequencies.length + 0.5));
+
+        for (const { id, words, frequency } of frequencies) {
+            const lengthFactor = 1 - BM25_B + BM25_B * words.length / averageLength;
+            const termScore = idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * lengthFactor);
+            scores.set(id, (scores.get(id) ?? 0) + termScore);
+        }
+    }
+    return scores;
+}
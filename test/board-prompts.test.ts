@@ -0,0 +1,85 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro } from './support/setup';
+
+describe('board prompts', () => {
+    let server: MockMiroServer;
+    let prompts: typeof import('../src/prompts/board-prompts');
+    let registeredToolNames: Set<string>;
+
+    before(async () => {
+        server = await startMockMiro();
+        prompts = await import('../src/prompts/board-prompts');
+
+        // The tools index.ts registers with the server
+        const core = await import('../src/tools/core-tools');
+        const content = await import('../src/tools/content-tools');
+        const cards = await import('../src/tools/card-tools');
+        const media = await import('../src/tools/media-tools');
+        const organization = await import('../src/tools/organization-tools');
+        const connectors = await import('../src/tools/connector-tools');
+        const diagrams = await import('../src/tools/diagram-tools');
+        const layout = await import('../src/tools/layout-tools');
+        const collaboration = await import('../src/tools/collaboration-tools');
+        const state = await import('../src/tools/state-tools');
+        const search = await import('../src/tools/search-tools');
+        registeredToolNames = new Set([
+            core.boardOperationsTool, core.bulkItemCreationTool, core.itemPositionOperationsTool, core.itemDeletionOperationsTool,
+            content.contentItemOperationsTool, cards.cardOperationsTool, media.mediaItemOperationsTool,
+            organization.frameOperationsTool, organization.groupOperationsTool, organization.tagOperationsTool, organization.tagItemOperationsTool,
+            connectors.connectorOperationsTool, diagrams.diagramOperationsTool, layout.layoutOperationsTool, layout.overlapDetectionTool,
+            collaboration.collaborationOperationsTool, collaboration.appCardOperationsTool,
+            state.hierarchyOperationsTool, search.searchTool, search.checkForSimilarContentTool
+        ].map(tool => tool.name));
+    });
+
+    after(() => server.stop());
+
+    it('only mentions tools the server exposes', async () => {
+        for (const prompt of prompts.boardPrompts) {
+            const args = Object.fromEntries(prompt.arguments.map(arg => [arg.name, arg.name === 'format' ? undefined : 'value']));
+            const text = await prompt.load(args);
+            const mentioned = text.match(/mcp_miro_\w+/g) || [];
+
+            assert.ok(mentioned.length > 0, `${prompt.name} mentions no tools`);
+            for (const name of mentioned) {
+                assert.ok(registeredToolNames.has(name), `${prompt.name} mentions unregistered tool ${name}`);
+            }
+        }
+    });
+
+    it('lays out the chosen retrospective format', async () => {
+        const text = await prompts.retrospectivePrompt.load({ topic: 'Sprint 14', format: 'mad_sad_glad' });
+
+        assert.match(text, /"Mad"[\s\S]*"Sad"[\s\S]*"Glad"/);
+        assert.match(text, /Retrospective: Sprint 14/);
+        await assert.rejects(prompts.retrospectivePrompt.load({ topic: 'x', format: 'plus_delta' }), /Unknown retrospective format/);
+    });
+
+    it('reuses a given frame instead of creating one', async () => {
+        const text = await prompts.retrospectivePrompt.load({ topic: 'Sprint 14', frame_id: 'frame-1' });
+
+        assert.match(text, /Use the existing frame frame-1/);
+        assert.doesNotMatch(text, /action "create", geometry/);
+    });
+
+    it('points frame summaries at the frame resource of the right board', async () => {
+        const onDefault = await prompts.summarizeFramePrompt.load({ frame_id: 'f1' });
+        assert.match(onDefault, new RegExp(`miro://board/${server.defaultBoardId}/frame/f1`));
+        assert.match(onDefault, /leave board_id out/);
+
+        const onOther = await prompts.summarizeFramePrompt.load({ frame_id: 'f1', board_id: 'other' });
+        assert.match(onOther, /miro:\/\/board\/other\/frame\/f1/);
+        assert.match(onOther, /Pass board_id "other"/);
+    });
+
+    it('limits clustering to a frame when one is given', async () => {
+        const inFrame = await prompts.clusterStickyNotesPrompt.load({ frame_id: 'f1', cluster_count: '4' });
+        assert.match(inFrame, /parent_id "f1"/);
+        assert.match(inFrame, /exactly 4 themes/);
+
+        const wholeBoard = await prompts.clusterStickyNotesPrompt.load({});
+        assert.doesNotMatch(wholeBoard, /parent_id/);
+    });
+});
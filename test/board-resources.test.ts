@@ -0,0 +1,204 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncomingMessage } from 'http';
+import { FastMCPSession } from 'fastmcp';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runToolJson } from './support/setup';
+
+describe('board resources', () => {
+    let server: MockMiroServer;
+    let resources: typeof import('../src/resources/board-resources');
+    let contentTools: typeof import('../src/tools/content-tools');
+    let connectorTools: typeof import('../src/tools/connector-tools');
+    let sessions: typeof import('../src/resources/resource-sessions');
+    let client: typeof import('../src/client/miro-client');
+    let updates: string[][];
+
+    before(async () => {
+        server = await startMockMiro();
+        resources = await import('../src/resources/board-resources');
+        contentTools = await import('../src/tools/content-tools');
+        connectorTools = await import('../src/tools/connector-tools');
+        sessions = await import('../src/resources/resource-sessions');
+        client = await import('../src/client/miro-client');
+        resources.onResourcesUpdated(uris => updates.push(uris));
+        resources.onResourcesUpdated(sessions.notifyResourceSessions);
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => {
+        server.reset();
+        updates = [];
+    });
+
+    const read = async (resource: { load: (args: Record<string, string>) => Promise<unknown> }, args: Record<string, string>) =>
+        JSON.parse(String(await resource.load(args)));
+
+    describe('reading', () => {
+        it('summarises the board with frames, items and connectors', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Sprint' } });
+            const note = server.addItem('sticky_note', { data: { content: '<p>Ship it</p>' }, parent: { id: frame.id } });
+            const shape = server.addItem('shape', { data: { content: 'Goal' } });
+            server.addConnector(note.id, shape.id);
+
+            const board = await read(resources.boardResource, { board_id: server.defaultBoardId });
+
+            assert.equal(board.board.name, 'Mock board');
+            assert.equal(board.item_count, 3);
+            assert.deepEqual(board.items_by_type, { frame: 1, sticky_note: 1, shape: 1 });
+            assert.equal(board.frames[0].child_count, 1);
+            assert.equal(board.frames[0].uri, `miro://board/${server.defaultBoardId}/frame/${frame.id}`);
+            assert.equal(board.items.find((item: { id: string }) => item.id === note.id).content_summary, 'Ship it');
+            assert.deepEqual(board.connectors.map((c: { from: string; to: string }) => [c.from, c.to]), [[note.id, shape.id]]);
+        });
+
+        it('lists the contents of a frame', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Backlog' } });
+            const inside = server.addItem('sticky_note', { parent: { id: frame.id } });
+            server.addItem('sticky_note');
+
+            const result = await read(resources.frameResource, { board_id: server.defaultBoardId, frame_id: frame.id });
+
+            assert.equal(result.frame.content_summary, 'Backlog');
+            assert.deepEqual(result.items.map((item: { id: string }) => item.id), [inside.id]);
+        });
+
+        it('describes an item with its connections', async () => {
+            const source = server.addItem('shape', { data: { content: 'Start' } });
+            const target = server.addItem('shape');
+            server.addConnector(source.id, target.id);
+
+            const item = await read(resources.itemResource, { board_id: server.defaultBoardId, item_id: source.id });
+
+            assert.equal(item.content_summary, 'Start');
+            assert.deepEqual(item.connections.outgoing.map((c: { to: string }) => c.to), [target.id]);
+            assert.deepEqual(item.connections.incoming, []);
+        });
+
+        it('returns errors for boards outside the allowlist and unknown frames', async () => {
+            const otherBoard = await resources.boardResource.load({ board_id: 'other-board' });
+            const missingFrame = await resources.frameResource.load({ board_id: server.defaultBoardId, frame_id: 'missing' });
+
+            assert.match(String((otherBoard as { error: string }).error), /not in the list of permitted boards/);
+            assert.match(String((missingFrame as { error: string }).error), /Frame missing not found/);
+            assert.equal(server.requestsMatching('GET', /other-board/).length, 0);
+        });
+    });
+
+    describe('change notifications', () => {
+        it('reports the board, the new item and its frame', async () => {
+            const frame = server.addItem('frame');
+
+            const note = await runToolJson(contentTools.contentItemOperationsTool, {
+                action: 'create',
+                type: 'sticky_note',
+                data: { content: 'New' },
+                parent: { id: frame.id },
+                position: { x: 10, y: 10, relativeTo: 'parent_top_left' }
+            });
+
+            const board = `miro://board/${server.defaultBoardId}`;
+            assert.deepEqual(updates.at(-1)?.sort(), [board, `${board}/frame/${frame.id}`, `${board}/item/${note.id}`].sort());
+        });
+
+        it('reports both ends of a new connector', async () => {
+            const start = server.addItem('shape');
+            const end = server.addItem('shape');
+
+            await runToolJson(connectorTools.connectorOperationsTool, { action: 'create', startItem: { id: start.id }, endItem: { id: end.id } });
+
+            const board = `miro://board/${server.defaultBoardId}`;
+            assert.deepEqual(updates.at(-1)?.sort(), [board, `${board}/item/${start.id}`, `${board}/item/${end.id}`].sort());
+        });
+
+        it('stays quiet for reads', async () => {
+            await read(resources.boardResource, { board_id: server.defaultBoardId });
+
+            assert.deepEqual(updates, []);
+        });
+    });
+
+    describe('session notifications', () => {
+        // Stands in for a connected session's MCP server, recording the updates sent to it
+        function connectSession(miroToken?: string, sessionId?: string) {
+            const handlers = new Map<string, (request: unknown) => Promise<unknown>>();
+            const sent: string[] = [];
+            const sessionServer = {
+                transport: { sessionId },
+                setRequestHandler: (schema: { shape: { method: { value: string } } }, handler: (request: unknown) => Promise<unknown>) => {
+                    handlers.set(schema.shape.method.value, handler);
+                },
+                sendResourceUpdated: async ({ uri }: { uri: string }) => {
+                    sent.push(uri);
+                }
+            } as unknown as FastMCPSession['server'];
+            sessions.trackResourceSession(sessionServer, miroToken);
+
+            const request = (method: string, uri: string) => handlers.get(method)?.({ method, params: { uri } });
+            return {
+                sent,
+                subscribe: (uri: string) => request('resources/subscribe', uri),
+                unsubscribe: (uri: string) => request('resources/unsubscribe', uri),
+                disconnect: () => sessions.untrackResourceSession(sessionServer)
+            };
+        }
+
+        const createNote = () => runToolJson(contentTools.contentItemOperationsTool, {
+            action: 'create',
+            type: 'sticky_note',
+            data: { content: 'New' }
+        });
+
+        it('notifies only the sessions of the user who made the change', async () => {
+            server.tokens.add('other-token');
+            const own = connectSession();
+            const sameUser = connectSession(server.token);
+            const otherUser = connectSession('other-token');
+
+            try {
+                const board = `miro://board/${server.defaultBoardId}`;
+                const note = await createNote();
+                const otherNote = await client.runWithMiroToken('other-token', createNote);
+
+                assert.deepEqual(own.sent.sort(), [board, `${board}/item/${note.id}`]);
+                assert.deepEqual(sameUser.sent.sort(), own.sent);
+                assert.deepEqual(otherUser.sent.sort(), [board, `${board}/item/${otherNote.id}`]);
+            } finally {
+                [own, sameUser, otherUser].forEach(session => session.disconnect());
+            }
+        });
+
+        it('finds the session a request belongs to by its MCP session ID', () => {
+            const own = connectSession(undefined, 'sse-session');
+            const other = connectSession('other-token', 'stream-session');
+            const request = (url: string, headers: Record<string, string> = {}) => ({ url, headers } as unknown as IncomingMessage);
+
+            try {
+                assert.deepEqual(sessions.findRequestSession(request('/messages?sessionId=sse-session')), { miroToken: undefined });
+                assert.deepEqual(sessions.findRequestSession(request('/mcp', { 'mcp-session-id': 'stream-session' })), { miroToken: 'other-token' });
+                assert.equal(sessions.findRequestSession(request('/mcp', { 'mcp-session-id': 'unknown' })), undefined);
+                assert.equal(sessions.findRequestSession(request('/mcp')), undefined);
+            } finally {
+                own.disconnect();
+                other.disconnect();
+            }
+        });
+
+        it('limits subscribed sessions to the resources they subscribed to', async () => {
+            const board = `miro://board/${server.defaultBoardId}`;
+            const subscriber = connectSession();
+
+            try {
+                await subscriber.subscribe(board);
+                await createNote();
+                await subscriber.unsubscribe(board);
+                await createNote();
+
+                assert.deepEqual(subscriber.sent, [board]);
+            } finally {
+                subscriber.disconnect();
+            }
+        });
+    });
+});
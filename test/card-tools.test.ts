@@ -0,0 +1,112 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('card tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/card-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/card-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('creates a card with content, theme and tags', async () => {
+        const tag = server.addTag('Urgent');
+
+        const card = await runToolJson(tools.cardOperationsTool, {
+            action: 'create',
+            data: { title: 'Fix login', description: 'Users are logged out', dueDate: '2025-06-30', assigneeId: 'user-1' },
+            style: { cardTheme: '#ff0000' },
+            tag_ids: [tag.id]
+        });
+
+        assert.equal(card.type, 'card');
+        assert.deepEqual(card.data, { title: 'Fix login', description: 'Users are logged out', dueDate: '2025-06-30T00:00:00.000Z', assigneeId: 'user-1' });
+        assert.deepEqual(card.style, { cardTheme: '#ff0000' });
+        assert.deepEqual(card.tagIds, [tag.id]);
+    });
+
+    it('translates parent-relative positions before sending the request', async () => {
+        const frame = server.addItem('frame', { position: { x: 1000, y: 500 }, geometry: { width: 600, height: 400 } });
+
+        await runToolJson(tools.cardOperationsTool, {
+            action: 'create',
+            data: { title: 'Centered' },
+            parent: { id: frame.id },
+            position: { x: 0, y: 0, relativeTo: 'parent_center' }
+        });
+        await runToolJson(tools.cardOperationsTool, {
+            action: 'create',
+            data: { title: 'On canvas' },
+            parent: { id: frame.id },
+            position: { x: 800, y: 400, relativeTo: 'canvas_center' }
+        });
+
+        const positions = server.requestsMatching('POST', /\/cards$/).map(request => (request.body as Record<string, unknown>).position);
+        assert.deepEqual(positions, [{ x: 300, y: 200, origin: 'center' }, { x: 100, y: 100, origin: 'center' }]);
+    });
+
+    it('places updated positions relative to the frame the card is in', async () => {
+        const frame = server.addItem('frame', { geometry: { width: 600, height: 400 } });
+        const card = server.addItem('card', { parent: { id: frame.id } });
+
+        await runToolJson(tools.cardOperationsTool, {
+            action: 'update',
+            item_id: card.id,
+            position: { x: 50, y: 50, relativeTo: 'parent_percentage' }
+        });
+
+        const request = server.requestsMatching('PATCH', /\/cards\//)[0];
+        assert.deepEqual((request.body as Record<string, unknown>).position, { x: 300, y: 200, origin: 'center' });
+        assert.equal((request.body as Record<string, unknown>).parent, undefined);
+    });
+
+    it('replaces the card\'s tags on update', async () => {
+        const keep = server.addTag('Keep');
+        const drop = server.addTag('Drop');
+        const add = server.addTag('Add');
+        const card = server.addItem('card');
+        server.attachTag(card.id, keep.id);
+        server.attachTag(card.id, drop.id);
+
+        const updated = await runToolJson(tools.cardOperationsTool, { action: 'update', item_id: card.id, tag_ids: [keep.id, add.id] });
+
+        assert.deepEqual(updated.tagIds, [keep.id, add.id]);
+    });
+
+    it('leaves the card untouched when a tag to set does not exist', async () => {
+        const keep = server.addTag('Keep');
+        const card = server.addItem('card', { data: { title: 'Before' } });
+        server.attachTag(card.id, keep.id);
+
+        const result = await runTool(tools.cardOperationsTool, {
+            action: 'update',
+            item_id: card.id,
+            data: { title: 'After' },
+            tag_ids: [keep.id, 'missing-tag']
+        }) as { error: string; status: number };
+
+        assert.equal(result.status, 404);
+        assert.match(result.error, /missing-tag/);
+        assert.equal(server.requestsMatching('PATCH', /.*/).length, 0);
+        assert.equal(server.requestsMatching('POST', /.*/).length, 0);
+        assert.equal(server.requestsMatching('DELETE', /.*/).length, 0);
+    });
+
+    it('gets and deletes cards', async () => {
+        const card = server.addItem('card', { data: { title: 'Done' } });
+
+        const fetched = await runToolJson(tools.cardOperationsTool, { action: 'get', item_id: card.id });
+        assert.equal((fetched.data as Record<string, unknown>).title, 'Done');
+
+        const message = await runTool(tools.cardOperationsTool, { action: 'delete', item_id: card.id });
+        assert.match(String(message), /deleted successfully/);
+        assert.equal(server.getBoard().items.size, 0);
+    });
+});
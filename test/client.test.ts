@@ -0,0 +1,199 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro } from './support/setup';
+
+describe('Miro client', () => {
+    let server: MockMiroServer;
+    let client: typeof import('../src/client/miro-client');
+    let pagination: typeof import('../src/client/paginate');
+    let cache: typeof import('../src/client/board-cache');
+    let credentials: typeof import('../src/client/credentials');
+
+    before(async () => {
+        server = await startMockMiro({ MIRO_CACHE_TTL_MS: '60000' });
+        client = await import('../src/client/miro-client');
+        pagination = await import('../src/client/paginate');
+        cache = await import('../src/client/board-cache');
+        credentials = await import('../src/client/credentials');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => {
+        server.reset();
+        cache.invalidateBoardCache();
+    });
+
+    describe('retries', () => {
+        it('retries rate-limited requests after Retry-After', async () => {
+            server.failNext(429, { headers: { 'Retry-After': '0' } });
+
+            const response = await client.default.get(`/v2/boards/${server.defaultBoardId}`);
+
+            assert.equal(response.status, 200);
+            assert.equal(server.requests.length, 2);
+        });
+
+        it('retries server errors for idempotent requests only', async () => {
+            server.failNext(503);
+            const response = await client.default.get(`/v2/boards/${server.defaultBoardId}`);
+            assert.equal(response.status, 200);
+
+            server.requests.length = 0;
+            server.failNext(503);
+            await assert.rejects(
+                client.default.post(`/v2/boards/${server.defaultBoardId}/sticky_notes`, { data: { content: 'x' } }),
+                (error: { response?: { status: number } }) => error.response?.status === 503
+            );
+            assert.equal(server.requests.length, 1);
+        });
+
+        it('gives up after the configured number of retries', async () => {
+            server.failNext(429, { headers: { 'Retry-After': '0' }, times: 5 });
+
+            await assert.rejects(
+                client.default.get(`/v2/boards/${server.defaultBoardId}`),
+                (error: { response?: { status: number } }) => error.response?.status === 429
+            );
+            // The first attempt plus MIRO_MAX_RETRIES=2
+            assert.equal(server.requests.length, 3);
+        });
+
+        it('records the rate-limit headers', async () => {
+            await client.default.get(`/v2/boards/${server.defaultBoardId}`);
+
+            const status = client.getRateLimitStatus();
+            assert.ok(status);
+            assert.ok(status.remaining < status.limit);
+        });
+    });
+
+    describe('pagination', () => {
+        it('follows cursors until the collection is exhausted', async () => {
+            for (let i = 0; i < 120; i++) {
+                server.addItem(i % 2 ? 'shape' : 'sticky_note');
+            }
+
+            const items = await pagination.collectAll(pagination.paginateBoardItems(server.defaultBoardId));
+
+            assert.equal(items.length, 120);
+            assert.equal(new Set(items.map(item => item.id)).size, 120);
+            assert.equal(server.requests.length, 3);
+        });
+
+        it('filters types and stops early at maxItems', async () => {
+            for (let i = 0; i < 120; i++) {
+                server.addItem(i % 3 === 0 ? 'text' : i % 3 === 1 ? 'shape' : 'frame');
+            }
+
+            const single = await pagination.collectAll(pagination.paginateBoardItems(server.defaultBoardId, { type: 'text', maxItems: 30 }));
+            assert.equal(single.length, 30);
+            assert.ok(single.every(item => item.type === 'text'));
+            assert.equal(server.requests[0].query.type, 'text');
+
+            const multiple = await pagination.collectAll(pagination.paginateBoardItems(server.defaultBoardId, { type: ['text', 'shape'] }));
+            assert.equal(multiple.length, 80);
+        });
+
+        it('follows offsets on offset-paginated collections', async () => {
+            for (let i = 0; i < 55; i++) {
+                server.addTag(`Tag ${i}`);
+            }
+
+            const tags = await pagination.collectAll(pagination.paginateTags(server.defaultBoardId, { pageSize: 20 }));
+
+            assert.equal(tags.length, 55);
+            assert.deepEqual(server.requests.map(r => r.query.offset), [undefined, '20', '40']);
+        });
+    });
+
+    describe('board cache', () => {
+        it('serves repeated reads from the cache', async () => {
+            server.addItem('sticky_note');
+
+            await cache.getBoardItems(server.defaultBoardId);
+            const items = await cache.getBoardItems(server.defaultBoardId);
+
+            assert.equal(items.length, 1);
+            assert.equal(server.requests.length, 1);
+        });
+
+        it('keeps the cache in step with changes made through the client', async () => {
+            const kept = server.addItem('sticky_note', { data: { content: 'Before' } });
+            const removed = server.addItem('sticky_note');
+            await cache.getBoardItems(server.defaultBoardId);
+
+            await client.default.patch(`/v2/boards/${server.defaultBoardId}/sticky_notes/${kept.id}`, { data: { content: 'After' } });
+            await client.default.delete(`/v2/boards/${server.defaultBoardId}/items/${removed.id}`);
+            await client.default.post(`/v2/boards/${server.defaultBoardId}/texts`, { data: { content: 'New' } });
+
+            const requestsBefore = server.requests.length;
+            const items = await cache.getBoardItems(server.defaultBoardId);
+
+            assert.equal(server.requests.length, requestsBefore);
+            assert.equal(items.length, 2);
+            assert.equal((items.find(item => item.id === kept.id)?.data as Record<string, unknown>).content, 'After');
+        });
+
+        it('does not mistake detaching a tag for deleting the item', async () => {
+            const note = server.addItem('sticky_note');
+            const tag = server.addTag('Urgent');
+            server.attachTag(note.id, tag.id);
+            await cache.getBoardItems(server.defaultBoardId);
+
+            await client.default.delete(`/v2/boards/${server.defaultBoardId}/items/${note.id}`, { params: { tag_id: tag.id } });
+            const items = await cache.getBoardItems(server.defaultBoardId);
+
+            assert.deepEqual(items.map(item => [item.id, item.tagIds]), [[note.id, []]]);
+        });
+
+        it('can be bypassed per call', async () => {
+            await cache.getBoardItems(server.defaultBoardId);
+            // Changed behind the server's back, so only a fresh read can see it
+            server.addItem('shape');
+
+            assert.equal((await cache.getBoardItems(server.defaultBoardId)).length, 0);
+            assert.equal((await cache.getBoardItems(server.defaultBoardId, { useCache: false })).length, 1);
+        });
+    });
+
+    describe('per-session tokens', () => {
+        it('sends the session token instead of the server token', async () => {
+            server.tokens.add('session-token');
+
+            await client.runWithMiroToken('session-token', () => client.default.get(`/v2/boards/${server.defaultBoardId}`));
+            await client.default.get(`/v2/boards/${server.defaultBoardId}`);
+
+            assert.deepEqual(server.requests.map(r => r.headers.authorization), ['Bearer session-token', `Bearer ${server.token}`]);
+        });
+
+        it('surfaces authentication failures for unknown tokens', async () => {
+            await assert.rejects(
+                client.runWithMiroToken('revoked-token', () => client.default.get(`/v2/boards/${server.defaultBoardId}`)),
+                (error: { response?: { status: number } }) => error.response?.status === 401
+            );
+        });
+
+        it('keeps cached boards apart per token', async () => {
+            server.tokens.add('session-token');
+            server.addItem('sticky_note');
+
+            await cache.getBoardItems(server.defaultBoardId);
+            await client.runWithMiroToken('session-token', () => cache.getBoardItems(server.defaultBoardId));
+            await client.runWithMiroToken('session-token', () => cache.getBoardItems(server.defaultBoardId));
+
+            assert.equal(server.requests.length, 2);
+        });
+
+        it('reads the token from connection headers or the query string', () => {
+            const request = (url: string, headers: Record<string, string>) =>
+                ({ url, headers } as unknown as import('http').IncomingMessage);
+
+            assert.equal(credentials.extractSessionToken(request('/sse', { 'x-miro-token': 'a' })), 'a');
+            assert.equal(credentials.extractSessionToken(request('/mcp', { authorization: 'Bearer b' })), 'b');
+            assert.equal(credentials.extractSessionToken(request('/sse?miro_token=c', {})), 'c');
+            assert.equal(credentials.extractSessionToken(request('/sse', {})), undefined);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('collaboration tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/collaboration-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/collaboration-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    describe('collaboration operations', () => {
+        it('shares the board, updates and removes the member', async () => {
+            const shared = await runToolJson(tools.collaborationOperationsTool, {
+                action: 'share_board',
+                user_email: 'ada@example.com',
+                role: 'editor'
+            });
+            const memberId = (shared.successful as string[])[0];
+
+            const members = await runToolJson(tools.collaborationOperationsTool, { action: 'get_board_members' });
+            assert.equal((members.data as unknown[]).length, 2);
+
+            const updated = await runToolJson(tools.collaborationOperationsTool, { action: 'update_member', user_id: memberId, role: 'viewer' });
+            assert.equal(updated.role, 'viewer');
+
+            const message = await runTool(tools.collaborationOperationsTool, { action: 'remove_member', user_id: memberId });
+            assert.match(String(message), /removed successfully/);
+            assert.equal(server.getBoard().members.has(memberId), false);
+        });
+
+        it('reports that organization members need an Enterprise plan', async () => {
+            await assert.rejects(
+                runTool(tools.collaborationOperationsTool, { action: 'get_organization_members' }),
+                /403/
+            );
+        });
+    });
+
+    describe('app card operations', () => {
+        it('creates an app card with defaults applied', async () => {
+            const card = await runToolJson(tools.appCardOperationsTool, {
+                data: { fields: [{ value: 'Open', fillColor: '#00ff00' }] },
+                style: { fillColor: '#2d9bf0' },
+                position: { x: 10, y: 20 }
+            });
+
+            assert.equal(card.type, 'app_card');
+            const data = card.data as Record<string, unknown>;
+            assert.equal(data.title, 'sample app card item');
+            assert.equal(data.status, 'disconnected');
+        });
+
+        it('positions app cards relative to a parent frame', async () => {
+            const frame = server.addItem('frame', { geometry: { width: 600, height: 400 } });
+
+            const card = await runToolJson(tools.appCardOperationsTool, {
+                data: { title: 'Ticket' },
+                parent: { id: frame.id },
+                position: { x: 0, y: 0, relativeTo: 'parent_top_left' }
+            });
+
+            assert.deepEqual(card.parent, { id: frame.id });
+        });
+
+        it('updates status and fields without resetting the rest', async () => {
+            const card = server.addItem('app_card', { data: { title: 'Build', status: 'connected', description: 'CI pipeline' } });
+
+            const updated = await runToolJson(tools.appCardOperationsTool, {
+                action: 'update',
+                item_id: card.id,
+                data: { fields: [{ value: 'Failing', fillColor: '#ff0000' }] }
+            });
+
+            const request = server.requestsMatching('PATCH', /\/app_cards\//)[0];
+            assert.deepEqual(Object.keys((request.body as { data: Record<string, unknown> }).data), ['fields']);
+            const data = updated.data as Record<string, unknown>;
+            assert.equal(data.title, 'Build');
+            assert.equal(data.status, 'connected');
+            assert.equal((data.fields as { value: string }[])[0].value, 'Failing');
+        });
+
+        it('lists, reads and deletes app cards', async () => {
+            const card = server.addItem('app_card', { data: { title: 'Deploys' } });
+            server.addItem('card');
+
+            const all = await runToolJson(tools.appCardOperationsTool, { action: 'get_all' });
+            assert.deepEqual((all.data as { id: string }[]).map(item => item.id), [card.id]);
+
+            const fetched = await runToolJson(tools.appCardOperationsTool, { action: 'get', item_id: card.id });
+            assert.equal((fetched.data as Record<string, unknown>).title, 'Deploys');
+
+            const message = await runTool(tools.appCardOperationsTool, { action: 'delete', item_id: card.id });
+            assert.match(String(message), /deleted successfully/);
+            assert.equal(server.getBoard().items.has(card.id), false);
+        });
+
+        it('requires item_id for actions on an existing app card', async () => {
+            await assert.rejects(runTool(tools.appCardOperationsTool, { action: 'update', data: { status: 'disabled' } }), /item_id is required/);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('connector operations', () => {
+    let server: MockMiroServer;
+    let tool: typeof import('../src/tools/connector-tools').connectorOperationsTool;
+
+    before(async () => {
+        server = await startMockMiro();
+        ({ connectorOperationsTool: tool } = await import('../src/tools/connector-tools'));
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('connects two items', async () => {
+        const start = server.addItem('shape');
+        const end = server.addItem('shape');
+
+        const connector = await runToolJson(tool, {
+            action: 'create',
+            startItem: { id: start.id, snapTo: 'right' },
+            endItem: { id: end.id, snapTo: 'left' },
+            captions: [{ content: 'next' }],
+            style: { endStrokeCap: 'arrow' }
+        });
+
+        assert.equal(connector.shape, 'curved');
+        assert.equal((connector.startItem as Record<string, unknown>).id, start.id);
+        assert.equal(server.getBoard().connectors.size, 1);
+    });
+
+    it('rejects connectors between an item and itself', async () => {
+        const item = server.addItem('shape');
+        await assert.rejects(
+            runTool(tool, { action: 'create', startItem: { id: item.id }, endItem: { id: item.id } }),
+            /must be different/
+        );
+    });
+
+    it('pages through connectors with cursor and limit', async () => {
+        const items = [server.addItem('shape'), server.addItem('shape'), server.addItem('shape')];
+        for (let i = 0; i < 12; i++) {
+            server.addConnector(items[i % 3].id, items[(i + 1) % 3].id);
+        }
+
+        const firstPage = await runToolJson(tool, { action: 'get_all', limit: '10' });
+        assert.equal((firstPage.data as unknown[]).length, 10);
+        assert.ok(firstPage.cursor);
+
+        const secondPage = await runToolJson(tool, { action: 'get_all', limit: '10', cursor: firstPage.cursor });
+        assert.equal((secondPage.data as unknown[]).length, 2);
+        assert.equal(secondPage.cursor, undefined);
+    });
+
+    it('gets, updates and deletes a connector', async () => {
+        const start = server.addItem('shape');
+        const end = server.addItem('shape');
+        const connector = server.addConnector(start.id, end.id);
+
+        const fetched = await runToolJson(tool, { action: 'get', connector_id: connector.id });
+        assert.equal(fetched.id, connector.id);
+
+        const updated = await runToolJson(tool, { action: 'update', connector_id: connector.id, shape: 'elbowed' });
+        assert.equal(updated.shape, 'elbowed');
+
+        const message = await runTool(tool, { action: 'delete', connector_id: connector.id });
+        assert.match(String(message), /deleted successfully/);
+        assert.equal(server.getBoard().connectors.size, 0);
+    });
+});
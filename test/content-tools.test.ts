@@ -0,0 +1,118 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('content item operations', () => {
+    let server: MockMiroServer;
+    let tool: typeof import('../src/tools/content-tools').contentItemOperationsTool;
+
+    before(async () => {
+        server = await startMockMiro();
+        ({ contentItemOperationsTool: tool } = await import('../src/tools/content-tools'));
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('creates sticky notes through the typed endpoint', async () => {
+        const note = await runToolJson(tool, {
+            action: 'create',
+            type: 'sticky_note',
+            data: { content: 'Remember the milk' },
+            position: { x: 100, y: 50 }
+        });
+
+        assert.equal(note.type, 'sticky_note');
+        assert.equal(server.requestsMatching('POST', /\/sticky_notes$/).length, 1);
+        assert.equal((server.getBoard().items.get(note.id as string)?.data as Record<string, unknown>).content, 'Remember the milk');
+    });
+
+    it('creates shapes and texts', async () => {
+        const shape = await runToolJson(tool, { action: 'create', type: 'shape', data: { shape: 'circle', content: 'Start' } });
+        const text = await runToolJson(tool, { action: 'create', type: 'text', data: { content: '<p>Title</p>' } });
+
+        assert.equal(shape.type, 'shape');
+        assert.equal(text.type, 'text');
+        assert.equal(server.requestsMatching('POST', /\/shapes$/).length, 1);
+        assert.equal(server.requestsMatching('POST', /\/texts$/).length, 1);
+    });
+
+    it('strips HTML tags Miro does not support', async () => {
+        await runToolJson(tool, { action: 'create', type: 'text', data: { content: '<h1>Heading</h1><p>Body</p>' } });
+
+        const request = server.requestsMatching('POST', /\/texts$/)[0];
+        const content = ((request.body as Record<string, unknown>).data as Record<string, string>).content;
+        assert.doesNotMatch(content, /<h1>/);
+        assert.match(content, /Heading/);
+    });
+
+    it('gets, lists, updates and deletes items', async () => {
+        const first = server.addItem('shape', { data: { content: 'A' } });
+        server.addItem('shape', { data: { content: 'B' } });
+        server.addItem('sticky_note', { data: { content: 'C' } });
+
+        const fetched = await runToolJson(tool, { action: 'get', type: 'shape', item_id: first.id });
+        assert.equal(fetched.id, first.id);
+
+        const listed = await runToolJson(tool, { action: 'get_all', type: 'shape' });
+        assert.equal((listed.data as unknown[]).length, 2);
+
+        const updated = await runToolJson(tool, { action: 'update', type: 'shape', item_id: first.id, data: { content: 'A2' } });
+        assert.equal((updated.data as Record<string, unknown>).content, 'A2');
+
+        const message = await runTool(tool, { action: 'delete', type: 'shape', item_id: first.id });
+        assert.match(String(message), /deleted successfully/);
+        assert.equal(server.getBoard().items.has(first.id), false);
+    });
+
+    it('places items inside a frame', async () => {
+        const frame = server.addItem('frame');
+
+        const note = await runToolJson(tool, {
+            action: 'create',
+            type: 'sticky_note',
+            data: { content: 'Inside' },
+            parent: { id: frame.id },
+            position: { x: 10, y: 10, relativeTo: 'parent_top_left' }
+        });
+
+        assert.deepEqual(note.parent, { id: frame.id });
+    });
+
+    it('moves new items into free space when asked', async () => {
+        server.addItem('shape', { position: { x: 0, y: 0 }, geometry: { width: 100, height: 100 } });
+
+        const note = await runToolJson(tool, { action: 'create', type: 'sticky_note', data: { content: 'Beside' }, placement: 'free_space' });
+
+        // Sticky notes are 199 x 228 by default; the nearest free spot keeps a 20 dp gap to the shape
+        const { x, y } = note.position as { x: number; y: number };
+        assert.deepEqual([x, y], [-169.5, 0]);
+    });
+
+    it('refuses free-space placement in a full frame', async () => {
+        const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 200, height: 200 } });
+
+        const result = await runTool(tool, {
+            action: 'create', type: 'sticky_note', data: { content: 'Too big' }, parent: { id: frame.id }, placement: 'free_space'
+        }) as { status: number; error: string };
+
+        assert.equal(result.status, 400);
+        assert.match(result.error, /has no free space left for a 199 x 228 sticky_note/);
+        assert.equal(server.requestsMatching('POST', /.*/).length, 0);
+    });
+
+    it('surfaces API errors', async () => {
+        await assert.rejects(
+            runTool(tool, { action: 'get', type: 'text', item_id: 'missing' }),
+            /404/
+        );
+    });
+
+    it('validates required arguments before calling the API', async () => {
+        await assert.rejects(runTool(tool, { action: 'update', type: 'text' }), /item_id is required/);
+        await assert.rejects(runTool(tool, { action: 'create', type: 'text' }), /data is required/);
+        assert.equal(server.requests.length, 0);
+    });
+});
@@ -0,0 +1,214 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('core tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/core-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/core-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    describe('board operations', () => {
+        it('updates the default board', async () => {
+            const board = await runToolJson(tools.boardOperationsTool, { name: 'Renamed', description: 'New description' });
+
+            assert.equal(board.name, 'Renamed');
+            assert.equal(server.getBoard().description, 'New description');
+            assert.equal(server.requestsMatching('PATCH', /^\/v2\/boards\/mock-board$/).length, 1);
+        });
+
+        it('lists boards with filters and pagination', async () => {
+            server.createBoard({ name: 'Retro one' });
+            server.createBoard({ name: 'Retro two' });
+            server.createBoard({ name: 'Planning' });
+
+            const result = await runToolJson(tools.boardOperationsTool, { action: 'list', query: 'retro', limit: 1 });
+
+            assert.equal(result.total, 2);
+            assert.equal((result.data as unknown[]).length, 1);
+            assert.deepEqual(server.requests[0].query, { query: 'retro', limit: '1' });
+        });
+
+        it('creates, copies and deletes boards, permitting them for the session', async () => {
+            const created = await runToolJson(tools.boardOperationsTool, { action: 'create', name: 'Workshop' });
+            server.addItem('sticky_note', { data: { content: 'Idea' } }, created.id as string);
+
+            const copy = await runToolJson(tools.boardOperationsTool, { action: 'copy', board_id: created.id, name: 'Workshop copy' });
+            assert.equal(copy.name, 'Workshop copy');
+            assert.equal(server.getBoard(copy.id as string).items.size, 1);
+
+            // The created board can now be targeted by other tools
+            await runTool(tools.bulkItemCreationTool, { items: [{ type: 'text', data: { content: 'Hello' } }], board_id: created.id });
+            assert.equal(server.getBoard(created.id as string).items.size, 2);
+
+            const message = await runTool(tools.boardOperationsTool, { action: 'delete', board_id: created.id });
+            assert.match(String(message), /deleted successfully/);
+            assert.equal(server.boards.has(created.id as string), false);
+
+            // Deleted boards are no longer permitted
+            await assert.rejects(
+                runTool(tools.itemDeletionOperationsTool, { item_id: '1', board_id: created.id }),
+                /not in the list of permitted boards/
+            );
+        });
+
+        it('refuses to delete the default board', async () => {
+            const result = await runTool(tools.boardOperationsTool, { action: 'delete', board_id: server.defaultBoardId }) as { error: string; status: number };
+
+            assert.match(result.error, /default board cannot be deleted/);
+            assert.equal(result.status, 400);
+            assert.equal(server.requests.length, 0);
+        });
+
+        it('rejects boards outside the allowlist', async () => {
+            const other = server.createBoard({ name: 'Other' });
+            await assert.rejects(
+                runTool(tools.boardOperationsTool, { name: 'Hijacked', board_id: other.id }),
+                /not in the list of permitted boards/
+            );
+            assert.equal(other.name, 'Other');
+        });
+
+        it('permits a created board only for the user who created it', async () => {
+            const client = await import('../src/client/miro-client');
+            server.tokens.add('second-user-token');
+
+            const created = await runToolJson(tools.boardOperationsTool, { action: 'create', name: 'Private workshop' });
+
+            await assert.rejects(
+                client.runWithMiroToken('second-user-token', () =>
+                    runTool(tools.bulkItemCreationTool, { items: [{ type: 'text', data: { content: 'Hello' } }], board_id: created.id })),
+                /not in the list of permitted boards/
+            );
+            assert.equal(server.getBoard(created.id as string).items.size, 0);
+
+            // The creator can still reach it
+            await runTool(tools.bulkItemCreationTool, { items: [{ type: 'text', data: { content: 'Hello' } }], board_id: created.id });
+            assert.equal(server.getBoard(created.id as string).items.size, 1);
+        });
+    });
+
+    describe('bulk item creation', () => {
+        it('creates all items in one request with sanitized styles', async () => {
+            const result = await runToolJson(tools.bulkItemCreationTool, {
+                items: [
+                    { type: 'sticky_note', data: { content: 'One' }, position: { x: 10, y: 20 } },
+                    { type: 'shape', data: { shape: 'circle', content: 'Two' }, style: { fillColor: '#ff0000', unsupported: true } }
+                ]
+            });
+
+            assert.equal((result.data as unknown[]).length, 2);
+            assert.equal(server.getBoard().items.size, 2);
+
+            const request = server.requestsMatching('POST', /\/items\/bulk$/)[0];
+            assert.deepEqual((request.body as Record<string, unknown>[])[1].style, { fillColor: '#ff0000' });
+        });
+
+        it('creates nothing when one item is invalid', async () => {
+            await assert.rejects(
+                runTool(tools.bulkItemCreationTool, {
+                    items: [
+                        { type: 'sticky_note', data: { content: 'Valid' } },
+                        { type: 'text', data: { content: 'Orphan' }, parent: { id: 'missing-frame' }, position: { x: 0, y: 0 } }
+                    ]
+                }),
+                /parent frames/
+            );
+            assert.equal(server.getBoard().items.size, 0);
+        });
+
+        it('spreads items placed in free space apart from each other', async () => {
+            server.addItem('shape', { position: { x: 0, y: 0 }, geometry: { width: 100, height: 100 } });
+
+            await runToolJson(tools.bulkItemCreationTool, {
+                items: [
+                    { type: 'shape', data: { shape: 'circle' }, position: { x: 0, y: 0 }, geometry: { width: 100, height: 100 } },
+                    { type: 'shape', data: { shape: 'circle' }, position: { x: 0, y: 0 }, geometry: { width: 100, height: 100 } }
+                ],
+                placement: 'free_space'
+            });
+
+            const request = server.requestsMatching('POST', /\/items\/bulk$/)[0];
+            assert.deepEqual((request.body as Record<string, unknown>[]).map(item => item.position), [
+                { x: 0, y: -120, origin: 'center' },
+                { x: 0, y: 120, origin: 'center' }
+            ]);
+        });
+    });
+
+    describe('item list operations', () => {
+        it('returns a page of items filtered by type', async () => {
+            server.addItem('sticky_note');
+            server.addItem('shape');
+            server.addItem('sticky_note');
+
+            const result = await runToolJson(tools.itemListOperationsTool, { type: 'sticky_note', limit: '10' });
+
+            assert.equal((result.data as unknown[]).length, 2);
+        });
+    });
+
+    describe('item position operations', () => {
+        it('moves an item on the canvas', async () => {
+            const note = server.addItem('sticky_note');
+
+            const result = await runToolJson(tools.itemPositionOperationsTool, { item_id: note.id, position: { x: 150, y: -40 } });
+
+            assert.equal((result.position as Record<string, number>).x, 150);
+            assert.equal((result.position as Record<string, number>).y, -40);
+        });
+
+        it('translates parent_center coordinates into the frame', async () => {
+            const frame = server.addItem('frame', { geometry: { width: 800, height: 400 } });
+            const note = server.addItem('sticky_note');
+
+            const result = await runToolJson(tools.itemPositionOperationsTool, {
+                item_id: note.id,
+                parent: { id: frame.id },
+                position: { x: 0, y: 0, relativeTo: 'parent_center', origin: 'center' }
+            });
+
+            assert.deepEqual(result.parent, { id: frame.id });
+            assert.equal((result.position as Record<string, number>).x, 400);
+            assert.equal((result.position as Record<string, number>).y, 200);
+        });
+
+        it('refuses to nest a frame inside another frame', async () => {
+            const outer = server.addItem('frame');
+            const inner = server.addItem('frame');
+
+            const result = await runTool(tools.itemPositionOperationsTool, { item_id: inner.id, parent: { id: outer.id } });
+
+            assert.match(String(result), /Cannot position a frame within another frame/);
+            assert.equal(server.requestsMatching('PATCH', /./).length, 0);
+        });
+
+        it('renames frames given content instead of title', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Old' } });
+
+            const result = await runToolJson(tools.itemPositionOperationsTool, { item_id: frame.id, data: { content: 'New' } });
+
+            assert.equal((result.data as Record<string, unknown>).title, 'New');
+        });
+    });
+
+    describe('item deletion operations', () => {
+        it('deletes an item and reports missing ones', async () => {
+            const note = server.addItem('sticky_note');
+
+            const message = await runTool(tools.itemDeletionOperationsTool, { item_id: note.id });
+            assert.match(String(message), /deleted successfully/);
+            assert.equal(server.getBoard().items.size, 0);
+
+            await assert.rejects(runTool(tools.itemDeletionOperationsTool, { item_id: note.id }), /Miro API Error \(404\)/);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('diagram tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/diagram-tools');
+    let parse: typeof import('../src/diagrams/mermaid').parseMermaid;
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/diagram-tools');
+        parse = (await import('../src/diagrams/mermaid')).parseMermaid;
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('draws a Mermaid flowchart as frames, shapes and connectors', async () => {
+        const result = await runToolJson(tools.diagramOperationsTool, {
+            action: 'import_mermaid',
+            source: [
+                'flowchart TD',
+                '  subgraph checkout [Checkout]',
+                '    Cart --> Pay{Paid?}',
+                '  end',
+                '  Start([Start]) --> Cart',
+                '  Pay -->|yes| Ship[Ship order]',
+                '  Pay -.->|no| Cart',
+                '  Ship ~~~ Start'
+            ].join('\n'),
+            position: { x: 500, y: 200 }
+        });
+
+        const board = server.getBoard();
+        const nodeIds = result.node_ids as Record<string, string>;
+        const frameIds = result.frame_ids as Record<string, string>;
+        assert.deepEqual(Object.keys(nodeIds).sort(), ['Cart', 'Pay', 'Ship', 'Start']);
+        const dataOf = (id: string) => board.items.get(id)!.data as Record<string, unknown>;
+        assert.equal(dataOf(nodeIds.Pay).shape, 'rhombus');
+        assert.equal(dataOf(nodeIds.Ship).content, '<p>Ship order</p>');
+        assert.equal(dataOf(frameIds.checkout).title, 'Checkout');
+        assert.deepEqual(board.items.get(nodeIds.Cart)!.parent, { id: frameIds.checkout });
+        assert.equal(board.items.get(nodeIds.Start)!.parent, undefined);
+
+        // The hidden link only affects the layout
+        const connectors = Array.from(board.connectors.values());
+        assert.equal(connectors.length, 4);
+        const no = connectors.find(connector => (connector.captions as { content: string }[] | undefined)?.[0]?.content === 'no')!;
+        assert.equal((no.style as Record<string, string>).strokeStyle, 'dotted');
+        const bounds = result.bounds as { x: number; y: number };
+        assert.deepEqual([bounds.x, bounds.y], [500, 200]);
+
+        // Shapes are created in bulk, not one request each
+        assert.equal(server.requestsMatching('POST', /\/items\/bulk$/).length, 1);
+    });
+
+    it('exports an imported flowchart back to equivalent Mermaid', async () => {
+        await runToolJson(tools.diagramOperationsTool, {
+            action: 'import_mermaid',
+            source: 'flowchart TD\n  subgraph checkout [Checkout]\n    Cart --> Pay{Paid?}\n  end\n  Pay -.->|no| Cart\n  Pay ==> Ship([Ship])'
+        });
+
+        const result = await runToolJson(tools.diagramOperationsTool, { action: 'export_mermaid' });
+
+        const graph = parse(result.source as string);
+        assert.equal(graph.direction, 'TB');
+        assert.deepEqual(graph.clusters.map(cluster => cluster.title), ['Checkout']);
+        assert.deepEqual(graph.nodes.map(node => [node.label, node.shape, !!node.clusterId]), [
+            ['Cart', 'rectangle', true], ['Paid?', 'rhombus', true], ['Ship', 'round_rectangle', false]
+        ]);
+        const label = (id: string) => graph.nodes.find(node => node.id === id)!.label;
+        assert.deepEqual(graph.edges.map(edge => [label(edge.from), label(edge.to), edge.label, edge.strokeStyle, !!edge.thick]), [
+            ['Cart', 'Paid?', undefined, 'normal', false], ['Paid?', 'Cart', 'no', 'dotted', false], ['Paid?', 'Ship', undefined, 'normal', true]
+        ]);
+        assert.equal((result.node_ids as Record<string, string>).n1, Array.from(server.getBoard().items.values()).find(item => (item.data as Record<string, unknown>).content === '<p>Cart</p>')!.id);
+    });
+
+    it('exports one frame, skipping connectors that leave it', async () => {
+        const frame = server.addItem('frame', { data: { title: 'Flow' }, position: { x: 0, y: 0 }, geometry: { width: 1000, height: 400 } });
+        const left = server.addItem('shape', { data: { content: 'Left', shape: 'circle' }, position: { x: 100, y: 200 }, parent: { id: frame.id } });
+        const right = server.addItem('sticky_note', { data: { content: 'Right' }, position: { x: 700, y: 220 }, parent: { id: frame.id } });
+        const outside = server.addItem('shape', { data: { content: 'Outside' }, position: { x: 2000, y: 0 } });
+        server.addConnector(left.id, right.id, { captions: [{ content: '<p>next</p>' }], style: { startStrokeCap: 'none', endStrokeCap: 'arrow' } });
+        server.addConnector(right.id, outside.id);
+
+        const result = await runToolJson(tools.diagramOperationsTool, { action: 'export_mermaid', frame_id: frame.id });
+
+        assert.equal(result.source, 'flowchart LR\n    n1(("Left"))\n    n2["Right"]\n    n1 -->|"next"| n2\n');
+        assert.deepEqual(result.warnings, ['1 connector(s) leading outside the exported area were skipped.']);
+    });
+
+    it('draws a DOT digraph and exports it back as DOT', async () => {
+        const imported = await runToolJson(tools.diagramOperationsTool, {
+            action: 'import_dot',
+            source: 'digraph { node [style=filled, fillcolor=lightblue]; subgraph cluster_db { label="Data"; pg [shape=cylinder] } api -> pg [label="reads", style=dashed] }'
+        });
+
+        const board = server.getBoard();
+        const nodeIds = imported.node_ids as Record<string, string>;
+        const pg = board.items.get(nodeIds.pg)!;
+        assert.equal((pg.data as Record<string, unknown>).shape, 'can');
+        assert.equal((pg.style as Record<string, unknown>).fillColor, '#add8e6');
+        assert.deepEqual(pg.parent, { id: (imported.frame_ids as Record<string, string>).cluster_db });
+        const [connector] = Array.from(board.connectors.values());
+        assert.equal((connector.style as Record<string, string>).strokeStyle, 'dashed');
+
+        const exported = await runToolJson(tools.diagramOperationsTool, { action: 'export_dot' });
+
+        assert.equal(exported.source, [
+            'digraph {',
+            '    subgraph cluster_f1 {',
+            '        label="Data";',
+            '        n2 [label="pg", shape=cylinder, fillcolor="#add8e6", style="filled"];',
+            '    }',
+            '    n1 [label="api", shape=box, fillcolor="#add8e6", style="filled"];',
+            '    n1 -> n2 [label="reads", style="dashed"];',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    it('reports parse errors without touching the board', async () => {
+        const result = await runTool(tools.diagramOperationsTool, {
+            action: 'import_mermaid',
+            source: 'flowchart TD\n  A --> B[Unclosed'
+        }) as { error: string; status: number };
+
+        assert.equal(result.status, 400);
+        assert.match(result.error, /^Line 2: Missing "]"/);
+        assert.equal(server.requestsMatching('POST', /.*/).length, 0);
+    });
+
+    it('keeps subgraphs with numeric IDs apart from the layout placeholders', async () => {
+        // A --> C spans two layers, so the layout adds a placeholder node on the way
+        const result = await runToolJson(tools.diagramOperationsTool, {
+            action: 'import_mermaid',
+            source: 'flowchart TD\n  A --> B\n  B --> C\n  A --> C\n  subgraph 0 [Zero]\n    D\n  end\n  C --> D'
+        });
+
+        const board = server.getBoard();
+        const yOf = (id: string) => (board.items.get(id)!.position as { y: number }).y;
+        const nodeIds = result.node_ids as Record<string, string>;
+        const frameId = (result.frame_ids as Record<string, string>)['0'];
+        assert.ok(yOf(nodeIds.A) < yOf(nodeIds.B) && yOf(nodeIds.B) < yOf(nodeIds.C));
+        assert.ok(yOf(frameId) > yOf(nodeIds.C), 'the frame is laid out below its predecessor');
+    });
+
+    it('removes what it created when a request fails', async () => {
+        server.failNext(400, { match: /\/connectors$/ });
+
+        await assert.rejects(runTool(tools.diagramOperationsTool, {
+            action: 'import_mermaid',
+            source: 'flowchart LR\n  subgraph s\n    A\n  end\n  A --> B'
+        }), /Miro API Error \(400\)/);
+
+        assert.equal(server.getBoard().items.size, 0);
+    });
+});
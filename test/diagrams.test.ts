@@ -0,0 +1,190 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMermaid, toMermaid } from '../src/diagrams/mermaid';
+import { parseDot, toDot } from '../src/diagrams/dot';
+import { DiagramParseError } from '../src/diagrams/diagram-graph';
+import { layeredLayout, countCrossings, LayoutNode } from '../src/diagrams/layered-layout';
+
+describe('mermaid parser', () => {
+    it('reads node shapes, labels and the direction', () => {
+        const graph = parseMermaid([
+            'flowchart LR',
+            '  A[Start] --> B{Ready?}',
+            '  B -->|yes| C([Done])',
+            '  B -- not yet --> D[(Queue)]',
+            '  D -.-> A',
+            '  E((Hub)) ==> F{{"Prep<br>step"}}'
+        ].join('\n'));
+
+        assert.equal(graph.direction, 'LR');
+        assert.deepEqual(graph.nodes.map(node => [node.id, node.shape, node.label]), [
+            ['A', 'rectangle', 'Start'],
+            ['B', 'rhombus', 'Ready?'],
+            ['C', 'round_rectangle', 'Done'],
+            ['D', 'can', 'Queue'],
+            ['E', 'circle', 'Hub'],
+            ['F', 'hexagon', 'Prep\nstep']
+        ]);
+        assert.deepEqual(graph.edges.map(edge => [edge.from, edge.to, edge.label, edge.strokeStyle, edge.endCap, !!edge.thick]), [
+            ['A', 'B', undefined, 'normal', 'arrow', false],
+            ['B', 'C', 'yes', 'normal', 'arrow', false],
+            ['B', 'D', 'not yet', 'normal', 'arrow', false],
+            ['D', 'A', undefined, 'dotted', 'arrow', false],
+            ['E', 'F', undefined, 'normal', 'arrow', true]
+        ]);
+    });
+
+    it('expands chains and groups and assigns nodes to subgraphs', () => {
+        const graph = parseMermaid([
+            'graph TD',
+            '  subgraph api [API layer]',
+            '    A & B --> C',
+            '    subgraph inner',
+            '      D',
+            '    end',
+            '  end',
+            '  C --> E --- F',
+            '  style A fill:#f00'
+        ].join('\n'));
+
+        assert.deepEqual(graph.clusters, [
+            { id: 'api', title: 'API layer', parentId: undefined },
+            { id: 'inner', title: 'inner', parentId: 'api' }
+        ]);
+        assert.deepEqual(graph.nodes.map(node => [node.id, node.clusterId]), [
+            ['A', 'api'], ['B', 'api'], ['C', 'api'], ['D', 'inner'], ['E', undefined], ['F', undefined]
+        ]);
+        assert.deepEqual(graph.edges.map(edge => `${edge.from}${edge.to}:${edge.endCap}`), ['AC:arrow', 'BC:arrow', 'CE:arrow', 'EF:none']);
+        assert.equal(graph.warnings.length, 1);
+        assert.match(graph.warnings[0], /"style" statements are not supported/);
+    });
+
+    it('reports syntax errors with their line number', () => {
+        assert.throws(() => parseMermaid('sequenceDiagram\n  A->>B: hi'), (error: unknown) =>
+            error instanceof DiagramParseError && error.line === 1 && /Only Mermaid flowcharts/.test(error.message));
+        assert.throws(() => parseMermaid('flowchart TD\n  A --> B\n  B --> C[Open'), /Line 3: Missing "]"/);
+        assert.throws(() => parseMermaid('flowchart TD\n  subgraph one\n  A'), /Line 3: Subgraph "one" is missing its "end"/);
+        assert.throws(() => parseMermaid('flowchart TD\n  A -->'), /Line 2: Expected a node ID/);
+    });
+
+    it('writes graphs back as flowcharts the parser reads unchanged', () => {
+        const graph = parseMermaid([
+            'flowchart LR',
+            '  subgraph s [Stage "one"]',
+            '    A{{Prep}} <-->|"a#124;b"| B[(Store)]',
+            '  end',
+            '  B -.- C(("Line<br>two"))',
+            '  C ==> D',
+            '  D ~~~ A'
+        ].join('\n'));
+
+        const source = toMermaid(graph);
+
+        assert.match(source, /^flowchart LR\n {4}subgraph s \["Stage #quot;one#quot;"\]\n {8}A\{\{"Prep"\}\}/);
+        assert.match(source, / {4}A <-->\|"a#124;b"\| B\n {4}B -\.- C\n {4}C ==> D\n {4}D ~~~ A\n$/);
+        assert.deepEqual(parseMermaid(source), graph);
+    });
+});
+
+describe('dot parser', () => {
+    it('reads nodes, edges, default attributes and clusters', () => {
+        const graph = parseDot([
+            '// services',
+            'digraph deps {',
+            '  rankdir=LR;',
+            '  node [shape=box, style="rounded,filled", fillcolor="#EEEEEE"];',
+            '  subgraph cluster_db { label="Data"; pg [label="Postgres\\nprimary", shape=cylinder, color=blue]; redis }',
+            '  api -> {pg redis} [label="reads"];',
+            '  web -> api [style=dashed, penwidth=3];',
+            '  api -> web [dir=both, arrowtail=dot, arrowhead=none]',
+            '  lb [shape=septagon, color=chartreuse]',
+            '}'
+        ].join('\n'));
+
+        assert.equal(graph.direction, 'LR');
+        assert.deepEqual(graph.clusters, [{ id: 'cluster_db', title: 'Data', parentId: undefined }]);
+        assert.deepEqual(graph.nodes.find(node => node.id === 'pg'), {
+            id: 'pg', label: 'Postgres\nprimary', shape: 'can', fillColor: '#eeeeee', borderColor: '#0000ff', clusterId: 'cluster_db'
+        });
+        assert.deepEqual(graph.nodes.map(node => [node.id, node.shape]), [
+            ['pg', 'can'], ['redis', 'round_rectangle'], ['api', 'round_rectangle'], ['web', 'round_rectangle'], ['lb', 'round_rectangle']
+        ]);
+        assert.deepEqual(graph.edges.map(edge => [edge.from, edge.to, edge.label, edge.strokeStyle, edge.startCap, edge.endCap, !!edge.thick]), [
+            ['api', 'pg', 'reads', 'normal', 'none', 'stealth', false],
+            ['api', 'redis', 'reads', 'normal', 'none', 'stealth', false],
+            ['web', 'api', undefined, 'dashed', 'none', 'stealth', true],
+            ['api', 'web', undefined, 'normal', 'filled_oval', 'none', false]
+        ]);
+        assert.deepEqual(graph.warnings, [
+            'Graphviz shape "septagon" has no Miro equivalent and was drawn as a rectangle.',
+            'Color "chartreuse" is not supported and was ignored; use a hex color such as "#ff0000".'
+        ]);
+    });
+
+    it('writes graphs back as digraphs the parser reads unchanged', () => {
+        const graph = parseDot('graph { subgraph cluster_a { label="A \\"x\\""; n1 [shape=diamond] } n1 -- n2 [style=dotted, label=<b<br/>c>] }');
+
+        const source = toDot(graph);
+
+        assert.match(source, /subgraph cluster_a \{\n {8}label="A \\"x\\"";\n {8}n1 \[label="n1", shape=diamond\];/);
+        assert.match(source, /n1 -> n2 \[label="b\\nc", style="dotted", dir=none\];/);
+        assert.deepEqual(parseDot(source), graph);
+    });
+
+    it('reports syntax errors with their line number', () => {
+        assert.throws(() => parseDot('graph {\n  a -> b\n}'), /^DiagramParseError: Line 2: Use "--" for edges in a graph, found "->"$/);
+        assert.throws(() => parseDot('digraph {\n  a [label="x"\n'), /Line 2: Expected an attribute name before the end of the source/);
+        assert.throws(() => parseDot('flowchart TD'), /Line 1: Expected "graph" or "digraph", found "flowchart"/);
+    });
+});
+
+describe('layered layout', () => {
+    const box = (id: string): LayoutNode => ({ id, width: 100, height: 50 });
+
+    it('places every edge target in a later layer without overlaps', () => {
+        const nodes = ['a', 'b', 'c', 'd', 'e'].map(box);
+        const edges = [{ from: 'a', to: 'b' }, { from: 'a', to: 'c' }, { from: 'b', to: 'd' }, { from: 'c', to: 'd' }, { from: 'd', to: 'e' }];
+
+        const layout = layeredLayout(nodes, edges, { direction: 'TB' });
+
+        for (const edge of edges) {
+            assert.ok(layout.positions.get(edge.to)!.y > layout.positions.get(edge.from)!.y, `${edge.from} -> ${edge.to} points upwards`);
+        }
+        for (const first of nodes) {
+            for (const second of nodes) {
+                if (first === second) continue;
+                const a = layout.positions.get(first.id)!;
+                const b = layout.positions.get(second.id)!;
+                assert.ok(Math.abs(a.x - b.x) >= 100 || Math.abs(a.y - b.y) >= 50, `${first.id} overlaps ${second.id}`);
+            }
+        }
+        for (const { x, y } of layout.positions.values()) {
+            assert.ok(x >= 50 && x <= layout.width - 50 && y >= 25 && y <= layout.height - 25);
+        }
+    });
+
+    it('lays out cycles and follows the direction', () => {
+        const nodes = ['a', 'b', 'c'].map(box);
+        const edges = [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'a' }];
+
+        const layout = layeredLayout(nodes, edges, { direction: 'RL' });
+
+        const [a, b, c] = ['a', 'b', 'c'].map(id => layout.positions.get(id)!);
+        assert.ok(a.x > b.x && b.x > c.x);
+        // The edge back from c to a skips a layer, so b leaves room for it
+        assert.equal(a.y, c.y);
+        assert.notEqual(b.y, a.y);
+        assert.equal(layout.positions.size, 3);
+    });
+
+    it('orders layers to remove avoidable crossings', () => {
+        const nodes = ['a', 'b', 'c', 'd'].map(box);
+        const edges = [{ from: 'a', to: 'd' }, { from: 'b', to: 'c' }];
+
+        const layout = layeredLayout(nodes, edges, { direction: 'TB' });
+
+        const order = (ids: string[]) => [...ids].sort((x, y) => layout.positions.get(x)!.x - layout.positions.get(y)!.x);
+        assert.equal(countCrossings(order(['a', 'b']), order(['c', 'd']), edges), 0);
+        assert.equal(countCrossings(['a', 'b'], ['c', 'd'], edges), 1);
+    });
+});
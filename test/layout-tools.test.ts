@@ -0,0 +1,202 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('layout tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/layout-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/layout-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('spreads a pile of connected items into layers from its top-left corner', async () => {
+        const [start, check, yes, no] = ['Start', 'Check', 'Yes', 'No'].map(content =>
+            server.addItem('shape', { data: { content }, position: { x: 500, y: 300 }, geometry: { width: 100, height: 60 } }));
+        const other = server.addItem('shape', { data: { content: 'Other' }, position: { x: 505, y: 300 } });
+        server.addConnector(start.id, check.id);
+        server.addConnector(check.id, yes.id);
+        server.addConnector(check.id, no.id);
+        server.addConnector(no.id, other.id);
+
+        const result = await runToolJson(tools.layoutOperationsTool, {
+            action: 'layered',
+            item_ids: [start.id, check.id, yes.id, no.id],
+            direction: 'LR',
+            layer_spacing: 100
+        });
+
+        const board = server.getBoard();
+        const at = (id: string) => {
+            const { x, y } = board.items.get(id)!.position as { x: number; y: number };
+            return { x, y };
+        };
+        assert.deepEqual(at(start.id), { x: 500, y: at(check.id).y });
+        assert.equal(at(check.id).x, 700);
+        assert.deepEqual([at(yes.id).x, at(no.id).x], [900, 900]);
+        assert.equal(Math.abs(at(yes.id).y - at(no.id).y), 120);
+        assert.equal(Math.min(at(yes.id).y, at(no.id).y), 300);
+        // Items outside the selection stay put, even when connected to it
+        assert.deepEqual(at(other.id), { x: 505, y: 300 });
+        assert.equal(result.relative_to, 'canvas_center');
+        assert.deepEqual(result.bounds, { x: 700, y: 360, width: 500, height: 180 });
+    });
+
+    it('lays out a frame and fits the frame around its contents', async () => {
+        const frame = server.addItem('frame', { data: { title: 'Flow' }, position: { x: 0, y: 0 }, geometry: { width: 400, height: 300 } });
+        const [a, b, c] = ['A', 'B', 'C'].map(content =>
+            server.addItem('shape', { data: { content }, position: { x: 50, y: 50 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } }));
+        server.addConnector(a.id, b.id);
+        server.addConnector(b.id, c.id);
+
+        const result = await runToolJson(tools.layoutOperationsTool, { action: 'layered', frame_id: frame.id, resize_frame: true });
+
+        const board = server.getBoard();
+        assert.deepEqual([a, b, c].map(item => {
+            const { x, y } = board.items.get(item.id)!.position as { x: number; y: number };
+            return [x, y];
+        }), [[110, 110], [110, 330], [110, 550]]);
+        assert.equal(result.relative_to, 'parent_top_left');
+        // The frame keeps its top-left corner at -200, -150
+        const fitted = board.items.get(frame.id)!;
+        assert.deepEqual(fitted.geometry, { width: 220, height: 660 });
+        const { x, y } = fitted.position as { x: number; y: number };
+        assert.deepEqual([x, y], [-90, 180]);
+        // Grown to make room first, then shrunk to fit
+        assert.equal(server.requestsMatching('PATCH', new RegExp(`/frames/${frame.id}$`)).length, 2);
+    });
+
+    it('arranges the contents of a frame in a grid sorted by text', async () => {
+        const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 1000, height: 600 } });
+        const sizes: Record<string, { width: number; height: number }> = {
+            delta: { width: 100, height: 100 }, Alpha: { width: 200, height: 50 }, charlie: { width: 100, height: 100 },
+            bravo: { width: 100, height: 100 }, echo: { width: 50, height: 150 }
+        };
+        const ids = Object.fromEntries(Object.entries(sizes).map(([content, geometry], index) => [content,
+            server.addItem('sticky_note', { data: { content: `<p>${content}</p>` }, position: { x: 100 + index * 10, y: 100 }, geometry, parent: { id: frame.id } }).id]));
+
+        const result = await runToolJson(tools.layoutOperationsTool, {
+            action: 'grid', frame_id: frame.id, columns: 2, gap: 20, alignment: 'start', sort_by: 'text', resize_frame: true
+        });
+
+        // Columns are 200 and 100 wide, rows 100, 100 and 150 high
+        assert.deepEqual(result.positions, {
+            [ids.Alpha]: { x: 160, y: 85 }, [ids.bravo]: { x: 330, y: 110 },
+            [ids.charlie]: { x: 110, y: 230 }, [ids.delta]: { x: 330, y: 230 },
+            [ids.echo]: { x: 85, y: 375 }
+        });
+        assert.match(result.message as string, /^Arranged 5 items in 3 row\(s\) of up to 2; 5 items moved\.$/);
+        const fitted = server.getBoard().items.get(frame.id)!;
+        assert.deepEqual(fitted.geometry, { width: 440, height: 510 });
+        // Only shrinking, so the frame is resized once, after the items moved
+        assert.equal(server.requestsMatching('PATCH', new RegExp(`/frames/${frame.id}$`)).length, 1);
+    });
+
+    it('lines items up in a row by creation time, aligned at the bottom', async () => {
+        const created = (createdAt: string, height: number, x: number) =>
+            server.addItem('shape', { createdAt, position: { x, y: 0 }, geometry: { width: 100, height } });
+        const oldest = created('2024-01-01T00:00:00Z', 50, 300);
+        const newest = created('2024-01-03T00:00:00Z', 100, 0);
+        const middle = created('2024-01-02T00:00:00Z', 80, 600);
+
+        const result = await runToolJson(tools.layoutOperationsTool, {
+            action: 'row', item_ids: [oldest.id, newest.id, middle.id], sort_by: 'created_at', sort_order: 'desc', alignment: 'end'
+        });
+
+        assert.deepEqual(result.positions, {
+            [newest.id]: { x: 0, y: 0 }, [middle.id]: { x: 140, y: 10 }, [oldest.id]: { x: 280, y: 25 }
+        });
+        // The newest shape was already in place
+        assert.equal(server.requestsMatching('PATCH', /\/items\//).length, 2);
+    });
+
+    it('aligns items in different frames on canvas coordinates', async () => {
+        const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 400, height: 300 } });
+        // At -100, -50 on the canvas
+        const child = server.addItem('shape', { position: { x: 100, y: 100 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+        const loose = server.addItem('shape', { position: { x: 300, y: 200 }, geometry: { width: 50, height: 50 } });
+        const reference = server.addItem('shape', { position: { x: 0, y: -400 }, geometry: { width: 100, height: 60 } });
+        const at = (id: string) => {
+            const { x, y } = server.getBoard().items.get(id)!.position as { x: number; y: number };
+            return [x, y];
+        };
+
+        const left = await runToolJson(tools.layoutOperationsTool, { action: 'align', item_ids: [child.id, loose.id], edge: 'left' });
+
+        assert.deepEqual(left.positions, { [child.id]: { x: -100, y: -50 }, [loose.id]: { x: -125, y: 200 } });
+        assert.deepEqual(at(loose.id), [-125, 200]);
+        assert.equal(server.requestsMatching('PATCH', /\/items\//).length, 1);
+
+        const top = await runToolJson(tools.layoutOperationsTool, {
+            action: 'align', item_ids: [child.id, loose.id, reference.id], edge: 'top', reference_item_id: reference.id
+        });
+
+        assert.match(top.message as string, /^Aligned 2 items on the top edge of item/);
+        // The child moves up to -380 on the canvas, which is -230 from the frame's top-left corner
+        assert.deepEqual(at(child.id), [100, -230]);
+        assert.deepEqual(at(loose.id), [-125, -405]);
+        assert.deepEqual(at(reference.id), [0, -400]);
+    });
+
+    it('distributes items evenly between the outermost ones', async () => {
+        const [a, b, c] = [0, 50, 500].map((x, index) =>
+            server.addItem('shape', { position: { x, y: index * 10 }, geometry: { width: 100, height: 100 } }));
+
+        const result = await runToolJson(tools.layoutOperationsTool, { action: 'distribute', item_ids: [c.id, a.id, b.id], axis: 'horizontal' });
+
+        assert.deepEqual(result.positions, { [a.id]: { x: 0, y: 0 }, [b.id]: { x: 250, y: 10 }, [c.id]: { x: 500, y: 20 } });
+        assert.match(result.message as string, /150 dp apart; 1 items moved/);
+
+        const stacked = await runToolJson(tools.layoutOperationsTool, { action: 'distribute', item_ids: [a.id, b.id, c.id], axis: 'vertical', gap: 20 });
+
+        assert.deepEqual(Object.values(stacked.positions as Record<string, { y: number }>).map(position => position.y), [0, 120, 240]);
+    });
+
+    it('refuses selections it cannot lay out', async () => {
+        const frame = server.addItem('frame', { position: { x: 0, y: 0 } });
+        const inside = server.addItem('shape', { position: { x: 10, y: 10 }, parent: { id: frame.id } });
+        const outside = server.addItem('shape', { position: { x: 2000, y: 0 } });
+
+        const mixed = await runTool(tools.layoutOperationsTool, { action: 'layered', item_ids: [inside.id, outside.id] }) as { status: number; error: string };
+        assert.equal(mixed.status, 400);
+        assert.match(mixed.error, /must all be on the canvas or all in the same frame/);
+
+        const missing = await runTool(tools.layoutOperationsTool, { action: 'layered', item_ids: [outside.id, 'nope'] }) as { status: number; details: string };
+        assert.equal(missing.status, 404);
+        assert.deepEqual(JSON.parse(missing.details), { missing_item_ids: ['nope'] });
+
+        const canvas = await runTool(tools.layoutOperationsTool, { action: 'layered', item_ids: [outside.id], resize_frame: true }) as { status: number };
+        assert.equal(canvas.status, 400);
+        assert.equal(server.requestsMatching('PATCH', /.*/).length, 0);
+    });
+
+    it('reports overlapping items, largest overlap first', async () => {
+        const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 400, height: 300 } });
+        // At -150, -100 on the canvas, inside its frame
+        const child = server.addItem('shape', { position: { x: 50, y: 50 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+        const covered = server.addItem('shape', { position: { x: -130, y: -100 }, geometry: { width: 50, height: 50 } });
+        const wide = server.addItem('shape', { position: { x: 250, y: 0 }, geometry: { width: 200, height: 100 } });
+        const last = server.addItem('shape', { position: { x: 380, y: 0 }, geometry: { width: 100, height: 100 } });
+
+        const result = await runToolJson(tools.overlapDetectionTool, {});
+
+        const overlaps = result.overlaps as { item_ids: string[]; overlap: Record<string, number>; ratio: number }[];
+        assert.equal(result.overlap_count, 4);
+        assert.deepEqual(overlaps.map(overlap => overlap.ratio), [1, 1, 0.25, 0.2]);
+        assert.deepEqual(overlaps.slice(0, 2).map(overlap => [...overlap.item_ids].sort()).sort(), [
+            [frame.id, covered.id].sort(), [child.id, covered.id].sort()
+        ].sort());
+        assert.deepEqual(overlaps[2], { item_ids: [frame.id, wide.id], types: ['frame', 'shape'], overlap: { width: 50, height: 100, area: 5000 }, ratio: 0.25 });
+        assert.deepEqual(overlaps[3].item_ids, [wide.id, last.id]);
+
+        const inFrame = await runToolJson(tools.overlapDetectionTool, { frame_id: frame.id });
+        assert.equal(inFrame.overlap_count, 0);
+        assert.match(inFrame.message as string, /^No overlapping items among 1 items\.$/);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('media item operations', () => {
+    let server: MockMiroServer;
+    let tool: typeof import('../src/tools/media-tools').mediaItemOperationsTool;
+
+    before(async () => {
+        server = await startMockMiro();
+        ({ mediaItemOperationsTool: tool } = await import('../src/tools/media-tools'));
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    it('creates an image keeping only the width of a fixed-ratio item', async () => {
+        const image = await runToolJson(tool, {
+            action: 'create',
+            type: 'image',
+            data: { url: 'https://example.com/logo.png', title: 'Logo' },
+            geometry: { width: 200, height: 100 },
+            position: { x: 0, y: 0 }
+        });
+
+        assert.equal(image.type, 'image');
+        const request = server.requestsMatching('POST', /\/images$/)[0];
+        assert.deepEqual((request.body as Record<string, unknown>).geometry, { width: 200 });
+    });
+
+    it('rejects titles on embeds', async () => {
+        await assert.rejects(
+            runTool(tool, { action: 'create', type: 'embed', data: { url: 'https://example.com/video', title: 'No' } }),
+            /title is not supported for embed type/
+        );
+
+        const embed = await runToolJson(tool, { action: 'create', type: 'embed', data: { url: 'https://example.com/video', mode: 'inline' } });
+        assert.equal(embed.type, 'embed');
+    });
+
+    it('places media inside a frame', async () => {
+        const frame = server.addItem('frame', { geometry: { width: 1000, height: 500 } });
+
+        const document = await runToolJson(tool, {
+            action: 'create',
+            type: 'document',
+            data: { url: 'https://example.com/spec.pdf' },
+            parent: { id: frame.id },
+            position: { x: 100, y: 80, relativeTo: 'parent_top_left' }
+        });
+
+        assert.deepEqual(document.parent, { id: frame.id });
+        assert.deepEqual(document.position, { x: 100, y: 80, origin: 'center', relativeTo: 'parent_top_left' });
+    });
+
+    it('keeps new media clear of the items in its frame', async () => {
+        const frame = server.addItem('frame', { geometry: { width: 1000, height: 500 } });
+        server.addItem('image', { position: { x: 250, y: 250 }, geometry: { width: 400, height: 300 }, parent: { id: frame.id } });
+
+        const image = await runToolJson(tool, {
+            action: 'create',
+            type: 'image',
+            data: { url: 'https://example.com/b.png' },
+            geometry: { width: 400 },
+            parent: { id: frame.id },
+            position: { x: 300, y: 250 },
+            placement: 'free_space'
+        });
+
+        const { x, y } = image.position as { x: number; y: number };
+        assert.deepEqual([x, y], [670, 250]);
+    });
+
+    it('gets, lists, updates and deletes media', async () => {
+        const preview = server.addItem('preview', { data: { url: 'https://example.com' } });
+        server.addItem('image', { data: { url: 'https://example.com/a.png' } });
+
+        const fetched = await runToolJson(tool, { action: 'get', type: 'preview', item_id: preview.id });
+        assert.equal(fetched.id, preview.id);
+
+        const listed = await runToolJson(tool, { action: 'get_all', type: 'image' });
+        assert.equal((listed.data as unknown[]).length, 1);
+
+        const updated = await runToolJson(tool, {
+            action: 'update',
+            type: 'preview',
+            item_id: preview.id,
+            data: { url: 'https://example.com/other' }
+        });
+        assert.equal((updated.data as Record<string, unknown>).url, 'https://example.com/other');
+
+        const message = await runTool(tool, { action: 'delete', type: 'preview', item_id: preview.id });
+        assert.match(String(message), /deleted successfully/);
+    });
+
+    it('requires a URL when creating media', async () => {
+        await assert.rejects(runTool(tool, { action: 'create', type: 'image' }), /data is required/);
+        assert.equal(server.requests.length, 0);
+    });
+});
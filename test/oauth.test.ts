@@ -0,0 +1,181 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro } from './support/setup';
+
+const REDIRECT_URI = 'http://localhost:8899/oauth/callback';
+
+describe('OAuth', () => {
+    let server: MockMiroServer;
+    let client: typeof import('../src/client/miro-client');
+    let tokenStore: typeof import('../src/auth/token-store');
+    let routes: typeof import('../src/auth/oauth-routes');
+    let oauthServer: Server;
+    let oauthUrl: string;
+    let storeDir: string;
+
+    before(async () => {
+        storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miro-oauth-'));
+        server = await startMockMiro({
+            // No static token: requests must use OAuth credentials
+            MIRO_API_TOKEN: '',
+            MIRO_OAUTH_CLIENT_ID: 'mock-client-id',
+            MIRO_OAUTH_CLIENT_SECRET: 'mock-client-secret',
+            MIRO_OAUTH_REDIRECT_URI: REDIRECT_URI,
+            MIRO_TOKEN_STORE_PATH: path.join(storeDir, 'tokens.enc'),
+            MIRO_TOKEN_STORE_KEY: 'test-store-key'
+        });
+        client = await import('../src/client/miro-client');
+        tokenStore = await import('../src/auth/token-store');
+        routes = await import('../src/auth/oauth-routes');
+
+        oauthServer = await routes.startOAuthServer(0);
+        oauthUrl = `http://localhost:${(oauthServer.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        oauthServer.close();
+        oauthServer.closeAllConnections();
+        await server.stop();
+        fs.rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => server.reset());
+
+    // Walks through the browser side of the flow: consent redirect, approval on Miro, callback
+    async function authorize(userId?: string): Promise<{ status: number; page: string; connectionKey: string }> {
+        const redirect = await fetch(`${oauthUrl}/oauth/authorize`, { redirect: 'manual' });
+        assert.equal(redirect.status, 302);
+        const consentUrl = new URL(redirect.headers.get('location') as string);
+        const state = consentUrl.searchParams.get('state') as string;
+
+        const code = server.issueAuthorizationCode(consentUrl.searchParams.get('redirect_uri') as string, userId);
+        const callback = await fetch(`${oauthUrl}/oauth/callback?code=${code}&state=${state}`);
+        const page = await callback.text();
+        return { status: callback.status, page, connectionKey: page.match(/miro_mcp_[\w-]+/)?.[0] as string };
+    }
+
+    const getBoard = () => client.default.get(`/v2/boards/${server.defaultBoardId}`);
+
+    describe('authorization', () => {
+        it('redirects to the Miro consent page', async () => {
+            const redirect = await fetch(`${oauthUrl}/oauth/authorize`, { redirect: 'manual' });
+            const consentUrl = new URL(redirect.headers.get('location') as string);
+
+            assert.equal(consentUrl.origin + consentUrl.pathname, 'https://miro.com/oauth/authorize');
+            assert.equal(consentUrl.searchParams.get('client_id'), 'mock-client-id');
+            assert.equal(consentUrl.searchParams.get('redirect_uri'), REDIRECT_URI);
+            assert.ok(consentUrl.searchParams.get('state'));
+        });
+
+        it('exchanges the code and hands out a connection key', async () => {
+            const { status, page, connectionKey } = await authorize('ada');
+
+            assert.equal(status, 200);
+            assert.match(page, /Miro user ada/);
+            assert.ok(connectionKey);
+
+            await client.runWithMiroToken(connectionKey, getBoard);
+            const apiRequest = server.requestsMatching('GET', /\/v2\/boards/)[0];
+            assert.match(String(apiRequest.headers.authorization), /^Bearer access-/);
+        });
+
+        it('rejects callbacks without a matching authorization request', async () => {
+            const code = server.issueAuthorizationCode(REDIRECT_URI);
+            const callback = await fetch(`${oauthUrl}/oauth/callback?code=${code}&state=forged`);
+
+            assert.equal(callback.status, 400);
+            assert.match(await callback.text(), /Unknown or expired authorization request/);
+            assert.equal(server.requestsMatching('POST', /oauth\/token/).length, 0);
+        });
+
+        it('reports when the user denies access', async () => {
+            const callback = await fetch(`${oauthUrl}/oauth/callback?error=access_denied&error_description=User+declined`);
+
+            assert.equal(callback.status, 400);
+            assert.match(await callback.text(), /User declined/);
+        });
+
+        it('never lends an authorization to clients without a token', async () => {
+            const { connectionKey } = await authorize('ada');
+            await client.runWithMiroToken(connectionKey, getBoard);
+
+            await assert.rejects(getBoard(), /No Miro access token available/);
+            assert.equal(server.requestsMatching('GET', /\/v2\/boards/).length, 1);
+        });
+    });
+
+    describe('routes', () => {
+        it('mounts on the MCP server for its port and leaves other servers alone', async () => {
+            const listen = (server: Server) => new Promise<string>(resolve => server.listen(0, () => {
+                resolve(`http://localhost:${(server.address() as AddressInfo).port}`);
+            }));
+            const mcpServer = http.createServer((req, res) => res.end('mcp'));
+            const otherServer = http.createServer((req, res) => res.end('other'));
+            const mcpUrl = await listen(mcpServer);
+            const otherUrl = await listen(otherServer);
+
+            try {
+                routes.mountOAuthRoutes((mcpServer.address() as AddressInfo).port);
+                const otherAuthorize = await fetch(`${otherUrl}/oauth/authorize`, { redirect: 'manual' });
+                const authorize = await fetch(`${mcpUrl}/oauth/authorize`, { redirect: 'manual' });
+                const sse = await fetch(`${mcpUrl}/sse`);
+
+                assert.equal(await otherAuthorize.text(), 'other');
+                assert.equal(authorize.status, 302);
+                assert.equal(await sse.text(), 'mcp');
+            } finally {
+                mcpServer.close();
+                otherServer.close();
+                mcpServer.closeAllConnections();
+                otherServer.closeAllConnections();
+            }
+        });
+    });
+
+    describe('token refresh', () => {
+        it('refreshes expiring tokens once and rotates the refresh token', async () => {
+            // Shorter than the refresh margin, so every issued token counts as expiring
+            server.oauthTokenLifetime = 30;
+            const { connectionKey } = await authorize();
+
+            await client.runWithMiroToken(connectionKey, () => Promise.all([getBoard(), getBoard()]));
+            await client.runWithMiroToken(connectionKey, getBoard);
+
+            const refreshes = server.requestsMatching('POST', /oauth\/token/).filter(r => r.query.grant_type === 'refresh_token');
+            assert.equal(refreshes.length, 2);
+            assert.notEqual(refreshes[0].query.refresh_token, refreshes[1].query.refresh_token);
+        });
+
+        it('drops grants whose refresh token was revoked', async () => {
+            server.oauthTokenLifetime = 30;
+            const { connectionKey } = await authorize();
+            server.revokeRefreshTokens();
+
+            await assert.rejects(client.runWithMiroToken(connectionKey, getBoard), /revoked or has expired/);
+            await assert.rejects(client.runWithMiroToken(connectionKey, getBoard), /Unknown Miro connection key/);
+        });
+    });
+
+    describe('token store', () => {
+        it('keeps tokens encrypted on disk and reads them back', async () => {
+            const { connectionKey } = await authorize();
+            await client.runWithMiroToken(connectionKey, getBoard);
+            const accessToken = String(server.requests.at(-1)?.headers.authorization).replace('Bearer ', '');
+
+            const file = fs.readFileSync(path.join(storeDir, 'tokens.enc'), 'utf8');
+            assert.equal(file.includes(accessToken), false);
+            assert.equal(file.includes(connectionKey), false);
+
+            tokenStore.reloadTokenStore();
+            server.requests.length = 0;
+            await client.runWithMiroToken(connectionKey, getBoard);
+            assert.equal(server.requests[0].headers.authorization, `Bearer ${accessToken}`);
+        });
+    });
+});
@@ -0,0 +1,240 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('organization tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/organization-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/organization-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    describe('frame operations', () => {
+        it('creates a frame without sending parent-relative position fields', async () => {
+            const frame = await runToolJson(tools.frameOperationsTool, {
+                action: 'create',
+                data: { title: 'Ideas' },
+                position: { x: 0, y: 0 },
+                geometry: { width: 800, height: 600 }
+            });
+
+            assert.equal(frame.type, 'frame');
+            const request = server.requestsMatching('POST', /\/frames$/)[0];
+            assert.deepEqual((request.body as Record<string, unknown>).position, { x: 0, y: 0, origin: 'center' });
+        });
+
+        it('lists frames and the items inside a frame', async () => {
+            const frame = server.addItem('frame');
+            server.addItem('frame');
+            server.addItem('sticky_note', { parent: { id: frame.id } });
+            server.addItem('sticky_note');
+
+            const frames = await runToolJson(tools.frameOperationsTool, { action: 'get_all' });
+            assert.equal((frames.data as unknown[]).length, 2);
+
+            const children = await runToolJson(tools.frameOperationsTool, { action: 'get_items', item_id: frame.id });
+            assert.equal((children.data as unknown[]).length, 1);
+        });
+
+        it('updates and deletes a frame, leaving its items on the board', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Old' } });
+            const child = server.addItem('text', { parent: { id: frame.id } });
+
+            const updated = await runToolJson(tools.frameOperationsTool, { action: 'update', item_id: frame.id, data: { title: 'New' } });
+            assert.equal((updated.data as Record<string, unknown>).title, 'New');
+
+            const message = await runTool(tools.frameOperationsTool, { action: 'delete', item_id: frame.id });
+            assert.match(String(message), /deleted successfully/);
+            assert.equal(server.getBoard().items.get(child.id)?.parent, undefined);
+        });
+
+        it('fits a frame around its items without moving them on the canvas', async () => {
+            // Top-left corner at -200, -150
+            const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 400, height: 300 } });
+            const inside = server.addItem('shape', { position: { x: 50, y: 50 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+            const spilled = server.addItem('shape', { position: { x: 600, y: 400 }, geometry: { width: 200, height: 100 }, parent: { id: frame.id } });
+
+            const result = await runToolJson(tools.frameOperationsTool, { action: 'fit_to_contents', item_id: frame.id, padding: 50 });
+
+            assert.equal(result.children_moved, 2);
+            const board = server.getBoard();
+            const fitted = board.items.get(frame.id)!;
+            assert.deepEqual(fitted.geometry, { width: 800, height: 550 });
+            const { x: frameX, y: frameY } = fitted.position as { x: number; y: number };
+            assert.deepEqual([frameX, frameY], [150, 75]);
+            // Same canvas positions as before: -150, -100 and 400, 250
+            const canvas = (id: string) => {
+                const { x, y } = board.items.get(id)!.position as { x: number; y: number };
+                return [frameX - 400 + x, frameY - 275 + y];
+            };
+            assert.deepEqual(canvas(inside.id), [-150, -100]);
+            assert.deepEqual(canvas(spilled.id), [400, 250]);
+        });
+
+        it('restores the frame and its items when moving an item fails mid-fit', async () => {
+            const frame = server.addItem('frame', { position: { x: 0, y: 0 }, geometry: { width: 400, height: 300 } });
+            const first = server.addItem('shape', { position: { x: 50, y: 50 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+            const second = server.addItem('shape', { position: { x: 600, y: 400 }, geometry: { width: 200, height: 100 }, parent: { id: frame.id } });
+            const third = server.addItem('shape', { position: { x: 100, y: 200 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+            server.failNext(400, { match: new RegExp(`/items/${second.id}$`) });
+
+            const result = await runTool(tools.frameOperationsTool, { action: 'fit_to_contents', item_id: frame.id, padding: 50 }) as { error: string; status: number; details: string };
+
+            assert.equal(result.status, 400);
+            assert.match(result.error, new RegExp(`item ${second.id}.*were restored`));
+            const details = JSON.parse(result.details);
+            assert.equal(details.frame_restored, true);
+            assert.deepEqual(details.moved_item_ids, []);
+            assert.deepEqual([...details.unmoved_item_ids].sort(), [first.id, second.id, third.id].sort());
+
+            const board = server.getBoard();
+            const position = (id: string) => {
+                const { x, y } = board.items.get(id)!.position as { x: number; y: number };
+                return [x, y];
+            };
+            assert.deepEqual(board.items.get(frame.id)!.geometry, { width: 400, height: 300 });
+            assert.deepEqual(position(frame.id), [0, 0]);
+            assert.deepEqual(position(first.id), [50, 50]);
+            assert.deepEqual(position(third.id), [100, 200]);
+        });
+
+        it('refuses to fit an empty frame', async () => {
+            const frame = server.addItem('frame');
+
+            const result = await runTool(tools.frameOperationsTool, { action: 'fit_to_contents', item_id: frame.id }) as { status: number };
+
+            assert.equal(result.status, 400);
+            assert.equal(server.requestsMatching('PATCH', /.*/).length, 0);
+        });
+    });
+
+    describe('group operations', () => {
+        it('groups, lists, regroups and ungroups items', async () => {
+            const [a, b, c] = [server.addItem('shape'), server.addItem('shape'), server.addItem('shape')];
+
+            const group = await runToolJson(tools.groupOperationsTool, { action: 'create', item_ids: [a.id, b.id] });
+            const groupId = group.id as string;
+
+            const all = await runToolJson(tools.groupOperationsTool, { action: 'get_all' });
+            assert.equal((all.data as unknown[]).length, 1);
+
+            const fetched = await runToolJson(tools.groupOperationsTool, { action: 'get', group_id: groupId });
+            assert.deepEqual((fetched.data as Record<string, unknown>).items, [a.id, b.id]);
+
+            await runToolJson(tools.groupOperationsTool, { action: 'update', group_id: groupId, item_ids: [a.id, b.id, c.id] });
+            const members = await runToolJson(tools.groupOperationsTool, { action: 'get_items', group_id: groupId });
+            assert.equal((members.data as unknown[]).length, 3);
+
+            const message = await runTool(tools.groupOperationsTool, { action: 'ungroup', group_id: groupId });
+            assert.match(String(message), /ungrouped successfully/);
+            assert.equal(server.getBoard().groups.size, 0);
+            assert.equal(server.getBoard().items.size, 3);
+        });
+
+        it('deletes a group together with its items', async () => {
+            const [a, b, c] = [server.addItem('shape'), server.addItem('shape'), server.addItem('shape')];
+            const group = await runToolJson(tools.groupOperationsTool, { action: 'create', item_ids: [a.id, b.id] });
+
+            await runTool(tools.groupOperationsTool, { action: 'delete', group_id: group.id });
+
+            assert.deepEqual(Array.from(server.getBoard().items.keys()), [c.id]);
+        });
+    });
+
+    describe('tag operations', () => {
+        it('creates, lists, updates and deletes tags', async () => {
+            const tag = await runToolJson(tools.tagOperationsTool, { action: 'create', data: { title: 'Urgent', fillColor: 'red' } });
+            const tagId = tag.id as string;
+
+            const all = await runToolJson(tools.tagOperationsTool, { action: 'get_all' });
+            assert.equal((all.data as unknown[]).length, 1);
+
+            const updated = await runToolJson(tools.tagOperationsTool, { action: 'update', tag_id: tagId, data: { title: 'Critical' } });
+            assert.equal(updated.title, 'Critical');
+
+            const message = await runTool(tools.tagOperationsTool, { action: 'delete', tag_id: tagId });
+            assert.match(String(message), /deleted successfully/);
+            assert.equal(server.getBoard().tags.size, 0);
+        });
+
+        it('lists every tag and finds tags by title', async () => {
+            for (let i = 0; i < 25; i++) server.addTag(`Tag ${i}`);
+
+            const all = await runToolJson(tools.tagOperationsTool, { action: 'get_all' });
+            assert.equal(all.total, 25);
+
+            const tag = await runToolJson(tools.tagOperationsTool, { action: 'get', tag_title: 'tag 24' });
+            assert.equal(tag.title, 'Tag 24');
+        });
+    });
+
+    describe('tag item operations', () => {
+        it('refuses to tag item types that do not support tags', async () => {
+            const shape = server.addItem('shape');
+            const tag = server.addTag('Urgent');
+
+            const result = await runTool(tools.tagItemOperationsTool, { action: 'attach', tag_id: tag.id, item_id: shape.id });
+
+            assert.equal((result as { status: number }).status, 400);
+            assert.match((result as { error: string }).error, /'shape' is not supported/);
+            assert.equal(server.requestsMatching('POST', /\/items\//).length, 0);
+        });
+
+        it('attaches and detaches a tag through the item endpoint', async () => {
+            const note = server.addItem('sticky_note');
+            const tag = server.addTag('Urgent');
+
+            const attached = await runToolJson(tools.tagItemOperationsTool, { action: 'attach', tag_id: tag.id, item_id: note.id });
+            assert.deepEqual(attached.attached, [note.id]);
+            assert.deepEqual(server.getBoard().items.get(note.id)?.tagIds, [tag.id]);
+
+            const tagged = await runToolJson(tools.tagItemOperationsTool, { action: 'get_items_with_tag', tag_id: tag.id });
+            assert.deepEqual((tagged.data as { id: string }[]).map(item => item.id), [note.id]);
+
+            await runToolJson(tools.tagItemOperationsTool, { action: 'detach', tag_id: tag.id, item_id: note.id });
+            assert.deepEqual(server.getBoard().items.get(note.id)?.tagIds, []);
+        });
+
+        it('attaches by title, creating the tag when the board has none', async () => {
+            const card = server.addItem('card');
+            const existing = server.addTag('Blocked');
+
+            const reused = await runToolJson(tools.tagItemOperationsTool, { action: 'attach', tag_title: 'blocked', item_id: card.id });
+            assert.equal((reused.tag as { id: string }).id, existing.id);
+            assert.equal(reused.tag_created, false);
+
+            const created = await runToolJson(tools.tagItemOperationsTool, { action: 'attach', tag_title: 'Review', tag_color: 'blue', item_id: card.id });
+            assert.equal(created.tag_created, true);
+            assert.equal((created.tag as { fillColor: string }).fillColor, 'blue');
+            assert.equal((server.getBoard().items.get(card.id)?.tagIds as string[]).length, 2);
+        });
+
+        it('tags the supported items and lists the ones it skipped', async () => {
+            const note = server.addItem('sticky_note');
+            const text = server.addItem('text');
+            const tag = server.addTag('Urgent');
+
+            const result = await runToolJson(tools.tagItemOperationsTool, { action: 'attach', tag_id: tag.id, item_ids: [note.id, text.id] });
+
+            assert.deepEqual(result.attached, [note.id]);
+            assert.deepEqual(result.unsupported_items, [{ id: text.id, type: 'text' }]);
+            assert.deepEqual(result.supported_item_types, ['sticky_note', 'card']);
+        });
+
+        it('reports an unknown tag title instead of creating it on detach', async () => {
+            const note = server.addItem('sticky_note');
+
+            const result = await runTool(tools.tagItemOperationsTool, { action: 'detach', tag_title: 'Missing', item_id: note.id });
+
+            assert.equal((result as { status: number }).status, 404);
+            assert.equal(server.getBoard().tags.size, 0);
+        });
+    });
+});
@@ -0,0 +1,228 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('search tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/search-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/search-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    const resultIds = (result: Record<string, unknown>): string[] =>
+        (result.items as { id: string }[]).map(item => item.id);
+
+    describe('unified search', () => {
+        it('finds items by text across all pages of the board', async () => {
+            // More items than fit on one page
+            for (let i = 0; i < 60; i++) {
+                server.addItem('sticky_note', { data: { content: `Note ${i}` } });
+            }
+            const target = server.addItem('shape', { data: { content: 'Budget review' } });
+
+            const result = await runToolJson(tools.searchTool, { text_query: 'budget' });
+
+            assert.deepEqual(resultIds(result), [target.id]);
+            assert.ok(server.requestsMatching('GET', /\/items$/).length >= 2);
+        });
+
+        it('combines criteria with all and any modes', async () => {
+            const blueNote = server.addItem('sticky_note', { data: { content: 'Status' }, style: { fillColor: 'blue' } });
+            const yellowNote = server.addItem('sticky_note', { data: { content: 'Other' }, style: { fillColor: 'yellow' } });
+            const statusShape = server.addItem('shape', { data: { content: 'Status' }, style: { fillColor: '#ff0000' } });
+
+            const all = await runToolJson(tools.searchTool, { text_query: 'status', item_types: ['sticky_note'] });
+            assert.deepEqual(resultIds(all), [blueNote.id]);
+
+            const any = await runToolJson(tools.searchTool, { text_query: 'status', color_query: 'yellow', search_mode: 'any' });
+            assert.deepEqual(resultIds(any).sort(), [blueNote.id, yellowNote.id, statusShape.id].sort());
+        });
+
+        it('matches misspelled words and ranks results by relevance score', async () => {
+            const short = server.addItem('sticky_note', { data: { content: '<p>Budget review</p>' } });
+            const long = server.addItem('sticky_note', { data: { content: '<p>Budget review: budget plan</p>' } });
+            server.addItem('sticky_note', { data: { content: '<p>Quarterly roadmap</p>' } });
+
+            const strict = await runToolJson(tools.searchTool, { text_query: 'budet reviw' });
+            assert.deepEqual(resultIds(strict), []);
+
+            const fuzzy = await runToolJson(tools.searchTool, { text_query: 'budet reviw', text_match_type: 'fuzzy' });
+            assert.deepEqual(resultIds(fuzzy), [short.id, long.id]);
+            const scores = (fuzzy.items as { score: number }[]).map(item => item.score);
+            assert.ok(scores[0] > scores[1] && scores[1] > 0);
+
+            // One typo is allowed in a four-letter word, two are too many
+            const oneTypo = await runToolJson(tools.searchTool, { text_query: 'plam', text_match_type: 'fuzzy' });
+            assert.deepEqual(resultIds(oneTypo), [long.id]);
+            const tooFar = await runToolJson(tools.searchTool, { text_query: 'plum', text_match_type: 'fuzzy' });
+            assert.deepEqual(resultIds(tooFar), []);
+
+            // The word repeated in the longer note outweighs its length
+            const budget = await runToolJson(tools.searchTool, { text_query: 'budget', item_types: ['sticky_note'] });
+            assert.deepEqual(resultIds(budget), [long.id, short.id]);
+        });
+
+        it('filters by parent frame and connections', async () => {
+            const frame = server.addItem('frame');
+            const inside = server.addItem('sticky_note', { parent: { id: frame.id } });
+            const source = server.addItem('shape');
+            const target = server.addItem('shape');
+            server.addConnector(source.id, target.id);
+
+            const children = await runToolJson(tools.searchTool, { parent_id: frame.id });
+            assert.deepEqual(resultIds(children), [inside.id]);
+
+            const outgoing = await runToolJson(tools.searchTool, { connected_to_id: source.id, connection_direction: 'from' });
+            assert.deepEqual(resultIds(outgoing), [target.id]);
+        });
+
+        it('filters by tag', async () => {
+            const tag = server.addTag('Urgent');
+            const tagged = server.addItem('sticky_note');
+            server.addItem('sticky_note');
+            server.attachTag(tagged.id, tag.id);
+
+            const result = await runToolJson(tools.searchTool, { tagged_with: tag.id });
+
+            assert.deepEqual(resultIds(result), [tagged.id]);
+        });
+    });
+
+    describe('query language', () => {
+        it('evaluates AND, OR, NOT and parentheses', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Sprint 1' } });
+            const match = server.addItem('sticky_note', { data: { content: 'Risk: vendor delay' }, style: { fillColor: 'blue' }, parent: { id: frame.id } });
+            server.addItem('sticky_note', { data: { content: 'Retro notes' }, style: { fillColor: 'blue' }, parent: { id: frame.id } });
+            server.addItem('sticky_note', { data: { content: 'Risk register' }, style: { fillColor: 'yellow' }, parent: { id: frame.id } });
+            const outside = server.addItem('sticky_note', { data: { content: 'Risk outside' }, style: { fillColor: 'blue' } });
+            const redShape = server.addItem('shape', { data: { content: 'Blocker' }, style: { fillColor: '#ff0000' } });
+            server.addItem('shape', { data: { content: 'Risk' }, style: { fillColor: 'blue' } });
+
+            // AND binds tighter than OR
+            const combined = await runToolJson(tools.searchTool, {
+                query: 'type:sticky_note AND color:blue AND in:"Sprint 1" AND risk OR type:shape AND color:red'
+            });
+            assert.deepEqual(resultIds(combined).sort(), [match.id, redShape.id].sort());
+
+            const grouped = await runToolJson(tools.searchTool, { query: `type:sticky_note color:blue risk (in:${frame.id} OR text:"outside")` });
+            assert.deepEqual(resultIds(grouped).sort(), [match.id, outside.id].sort());
+            // The query's text terms are scored for relevance
+            assert.ok((grouped.items as { score: number }[]).every(item => item.score > 0));
+
+            const negated = await runToolJson(tools.searchTool, { query: 'risk NOT in:"sprint 1" NOT type:shape' });
+            assert.deepEqual(resultIds(negated), [outside.id]);
+
+            // In any mode, a query that matches nothing does not widen the results
+            const none = await runToolJson(tools.searchTool, { query: 'type:card', search_mode: 'any' });
+            assert.deepEqual(resultIds(none), []);
+        });
+
+        it('reports where a query cannot be parsed', async () => {
+            const parse = async (query: string) => await runTool(tools.searchTool, { query }) as { status: number; error: string; details: string };
+
+            const unclosed = await parse('type:sticky_note AND (color:blue OR');
+            assert.equal(unclosed.status, 400);
+            assert.match(unclosed.error, /^Invalid query: Column 36: Expected a search term after "OR", found the end of the query$/);
+            assert.deepEqual(JSON.parse(unclosed.details), { column: 36, query: 'type:sticky_note AND (color:blue OR' });
+
+            assert.match((await parse('(color:blue OR risk')).error, /Column 20: Missing "\)" to close the "\(" at column 1/);
+            assert.match((await parse('colour:blue')).error, /Column 1: Unknown field "colour". Use one of: type, color, text, in, tag, connected/);
+            assert.match((await parse('risk AND type:sticky')).error, /Column 10: Unknown item type "sticky"/);
+            assert.match((await parse('text:"open')).error, /Column 6: Missing closing quote/);
+            assert.match((await parse('risk)')).error, /Column 5: Unexpected "\)" with no matching "\("/);
+            assert.match((await parse('  ')).error, /The query is empty/);
+            // Nothing is fetched for a query that does not parse
+            assert.equal(server.requests.length, 0);
+        });
+    });
+
+    describe('spatial search', () => {
+        // A 15 x 15 grid of 100 dp shapes, 200 dp apart, so the spatial index has more than one level
+        const addGrid = (): string[][] => Array.from({ length: 15 }, (_, row) => Array.from({ length: 15 }, (_, column) =>
+            server.addItem('shape', { position: { x: column * 200, y: row * 200 }, geometry: { width: 100, height: 100 } }).id));
+
+        const distancesOf = (result: Record<string, unknown>): number[] =>
+            (result.items as { distance: number }[]).map(item => item.distance);
+
+        it('finds items in an area and near an item or point', async () => {
+            const grid = addGrid();
+
+            const area = await runToolJson(tools.searchTool, { area: { x: 350, y: 350, width: 300, height: 100 } });
+            assert.deepEqual(resultIds(area).sort(), [grid[2][2], grid[2][3]].sort());
+
+            const nearest = await runToolJson(tools.searchTool, { nearest_to: { x: 1010, y: 1010, count: 3 } });
+            assert.equal(resultIds(nearest)[0], grid[5][5]);
+            assert.deepEqual(resultIds(nearest).slice(1).sort(), [grid[5][6], grid[6][5]].sort());
+            assert.deepEqual(distancesOf(nearest), [0, 140, 140]);
+
+            // Measured between edges: the diagonal neighbour is 141 dp away
+            const radius = await runToolJson(tools.searchTool, { within_radius: { item_id: grid[0][0], radius: 100 } });
+            assert.deepEqual(resultIds(radius).sort(), [grid[0][1], grid[1][0]].sort());
+        });
+
+        it('finds the rest of a row or column', async () => {
+            const grid = addGrid();
+
+            const right = await runToolJson(tools.searchTool, { right_of_id: grid[3][12] });
+            assert.deepEqual(resultIds(right), [grid[3][13], grid[3][14]]);
+            assert.deepEqual(distancesOf(right), [100, 300]);
+
+            const below = await runToolJson(tools.searchTool, { below_id: grid[13][0] });
+            assert.deepEqual(resultIds(below), [grid[14][0]]);
+        });
+
+        it('combines spatial criteria with other filters on canvas coordinates', async () => {
+            const frame = server.addItem('frame', { position: { x: 5000, y: 0 }, geometry: { width: 400, height: 300 } });
+            // At 4850, -100 on the canvas
+            const child = server.addItem('sticky_note', { position: { x: 50, y: 50 }, geometry: { width: 100, height: 100 }, parent: { id: frame.id } });
+            server.addItem('shape', { position: { x: 4850, y: 100 }, geometry: { width: 100, height: 100 } });
+
+            const inArea = await runToolJson(tools.searchTool, { area: { x: 4820, y: -120, width: 10, height: 10 }, item_types: ['sticky_note', 'shape'] });
+            assert.deepEqual(resultIds(inArea), [child.id]);
+
+            const nearestNote = await runToolJson(tools.searchTool, { nearest_to: { x: 4850, y: 100, count: 1 }, item_types: ['sticky_note'] });
+            assert.deepEqual(resultIds(nearestNote), [child.id]);
+
+            const missing = await runTool(tools.searchTool, { right_of_id: 'nope' }) as { status: number };
+            assert.equal(missing.status, 404);
+        });
+    });
+
+    describe('search by content', () => {
+        it('matches content fuzzily or exactly', async () => {
+            const note = server.addItem('sticky_note', { data: { content: 'Quarterly planning session' } });
+            server.addItem('text', { data: { content: 'Unrelated' } });
+
+            const fuzzy = await runToolJson(tools.searchElementsByContentTool, { query: 'planning' });
+            assert.deepEqual(resultIds(fuzzy), [note.id]);
+
+            const exact = await runToolJson(tools.searchElementsByContentTool, { query: 'planning', fuzzy_match: false, type: 'text' });
+            assert.deepEqual(resultIds(exact), []);
+
+            const misspelled = await runToolJson(tools.searchElementsByContentTool, { query: 'sesion planing' });
+            assert.deepEqual(resultIds(misspelled), [note.id]);
+
+            const misspelledExact = await runToolJson(tools.searchElementsByContentTool, { query: 'sesion planing', fuzzy_match: false });
+            assert.deepEqual(resultIds(misspelledExact), []);
+        });
+    });
+
+    describe('duplicate detection', () => {
+        it('reports existing items with the same content', async () => {
+            server.addItem('sticky_note', { data: { content: 'Ship the release' } });
+
+            const duplicate = await runToolJson(tools.checkForSimilarContentTool, { content: 'Ship the release', item_type: 'sticky_note' });
+            assert.equal(duplicate.duplicates_found, true);
+
+            const unique = await runToolJson(tools.checkForSimilarContentTool, { content: 'Something new', item_type: 'sticky_note' });
+            assert.equal(unique.duplicates_found, false);
+        });
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockMiroServer } from './support/mock-miro-server';
+import { startMockMiro, runTool, runToolJson } from './support/setup';
+
+describe('state tools', () => {
+    let server: MockMiroServer;
+    let tools: typeof import('../src/tools/state-tools');
+
+    before(async () => {
+        server = await startMockMiro();
+        tools = await import('../src/tools/state-tools');
+    });
+
+    after(() => server.stop());
+
+    beforeEach(() => server.reset());
+
+    describe('board state operations', () => {
+        it('summarises the whole board', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Sprint' } });
+            const note = server.addItem('sticky_note', { data: { content: 'Task' }, parent: { id: frame.id } });
+            const shape = server.addItem('shape', { data: { content: 'Goal' } });
+            server.addConnector(note.id, shape.id);
+            server.addTag('Urgent');
+
+            const state = await runToolJson(tools.boardStateOperationsTool, { include_connectivity: true });
+            const metadata = state.metadata as Record<string, unknown>;
+
+            assert.equal(metadata.itemCount, 3);
+            assert.equal(metadata.frameCount, 1);
+            assert.equal(metadata.connectorCount, 1);
+            assert.equal(metadata.tagCount, 1);
+        });
+
+        it('limits the analysis to a frame and to matching items', async () => {
+            const frame = server.addItem('frame');
+            server.addItem('sticky_note', { data: { content: 'Inside alpha' }, parent: { id: frame.id } });
+            server.addItem('sticky_note', { data: { content: 'Inside beta' }, parent: { id: frame.id } });
+            server.addItem('sticky_note', { data: { content: 'Outside alpha' } });
+
+            const state = await runToolJson(tools.boardStateOperationsTool, { frame_id: frame.id, search_term: 'alpha' });
+
+            assert.equal((state.metadata as Record<string, unknown>).itemCount, 1);
+            assert.equal(server.requestsMatching('GET', /\/items$/).some(r => r.query.parent_item_id === frame.id), true);
+        });
+
+        it('stops reading once max_items is reached', async () => {
+            for (let i = 0; i < 120; i++) {
+                server.addItem('sticky_note');
+            }
+
+            const state = await runToolJson(tools.boardStateOperationsTool, { max_items: 60 });
+            const metadata = state.metadata as Record<string, unknown>;
+
+            assert.equal(metadata.itemCount, 60);
+            assert.equal(metadata.limitReached, true);
+            assert.equal(server.requestsMatching('GET', /\/items$/).length, 2);
+        });
+    });
+
+    describe('hierarchy operations', () => {
+        it('builds the tree below a frame', async () => {
+            const frame = server.addItem('frame', { data: { title: 'Area' } });
+            const child = server.addItem('sticky_note', { parent: { id: frame.id } });
+
+            const result = await runToolJson(tools.hierarchyOperationsTool, { item_id: frame.id });
+            const [root] = result.items as { id: string; children: { id: string }[] }[];
+
+            assert.equal(root.id, frame.id);
+            assert.deepEqual(root.children.map(c => c.id), [child.id]);
+        });
+
+        it('starts from every item of a type', async () => {
+            server.addItem('frame');
+            server.addItem('frame');
+            server.addItem('shape');
+
+            const result = await runToolJson(tools.hierarchyOperationsTool, { type: 'frame' });
+
+            assert.equal((result.metadata as Record<string, unknown>).rootItemCount, 2);
+        });
+
+        it('requires an item or a type', async () => {
+            await assert.rejects(runTool(tools.hierarchyOperationsTool, {}), /Either item_id or type must be provided/);
+        });
+    });
+});
@@ -0,0 +1,964 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * In-memory stand-in for the Miro REST API v2 endpoints used by this project.
+ * It keeps boards, items, connectors, tags, groups and members in memory and answers
+ * with response shapes modelled on the real API, including pagination and rate-limit headers.
+ */
+
+export type MockRecord = Record<string, unknown> & { id: string; type: string };
+
+export interface MockBoard {
+    id: string;
+    name: string;
+    description: string;
+    policy: Record<string, unknown>;
+    teamId: string;
+    ownerId: string;
+    createdAt: string;
+    modifiedAt: string;
+    items: Map<string, MockRecord>;
+    connectors: Map<string, MockRecord>;
+    tags: Map<string, MockRecord>;
+    groups: Map<string, MockRecord>;
+    members: Map<string, MockRecord>;
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    body: unknown;
+    headers: http.IncomingHttpHeaders;
+}
+
+interface InjectedFailure {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+    remaining: number;
+    match?: RegExp;
+}
+
+class MockHttpError extends Error {
+    constructor(public status: number, message: string, public code: string = 'error') {
+        super(message);
+    }
+}
+
+// Collection endpoints for typed item creation, mapped to the item type they hold
+const ITEM_COLLECTIONS: Record<string, string> = {
+    sticky_notes: 'sticky_note',
+    shapes: 'shape',
+    texts: 'text',
+    frames: 'frame',
+    cards: 'card',
+    app_cards: 'app_card',
+    images: 'image',
+    documents: 'document',
+    embeds: 'embed',
+    previews: 'preview'
+};
+
+const DEFAULT_GEOMETRY: Record<string, Record<string, number>> = {
+    sticky_note: { width: 199, height: 228 },
+    shape: { width: 100, height: 100 },
+    text: { width: 105 },
+    frame: { width: 1000, height: 600 },
+    card: { width: 320, height: 94 },
+    app_card: { width: 320, height: 94 },
+    image: { width: 400, height: 300 },
+    document: { width: 400, height: 560 },
+    embed: { width: 400, height: 300 },
+    preview: { width: 400, height: 300 }
+};
+
+// Item types that accept tags in the real API
+const TAGGABLE_TYPES = ['sticky_note', 'card'];
+
+export const RATE_LIMIT = 100000;
+
+export class MockMiroServer {
+    readonly boards = new Map<string, MockBoard>();
+    readonly requests: RecordedRequest[] = [];
+    readonly defaultBoardId = 'mock-board';
+    readonly token = 'mock-token';
+    // Access tokens accepted by the server; add more to simulate several users
+    readonly tokens = new Set<string>([this.token]);
+
+    // Credentials of the OAuth app registered with the mock
+    readonly oauthClientId = 'mock-client-id';
+    readonly oauthClientSecret = 'mock-client-secret';
+    // Lifetime in seconds of access tokens issued by the OAuth token endpoint
+    oauthTokenLifetime = 3600;
+
+    private server: http.Server | null = null;
+    private authorizationCodes = new Map<string, { userId: string; redirectUri: string }>();
+    private refreshTokens = new Map<string, string>();
+    private failures: InjectedFailure[] = [];
+    private nextId = 3458764500000000000n;
+    private clock = Date.parse('2024-01-01T00:00:00.000Z');
+    private creditsUsed = 0;
+
+    url = '';
+
+    constructor() {
+        this.reset();
+    }
+
+    /**
+     * Starts listening on a random local port and returns the base URL
+     */
+    start(): Promise<string> {
+        return new Promise((resolve) => {
+            this.server = http.createServer((req, res) => this.handle(req, res));
+            this.server.listen(0, '127.0.0.1', () => {
+                const { port } = this.server!.address() as AddressInfo;
+                this.url = `http://127.0.0.1:${port}`;
+                resolve(this.url);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.server) return resolve();
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+            this.server = null;
+        });
+    }
+
+    /**
+     * Drops all data and recorded requests and recreates the empty default board
+     */
+    reset(): void {
+        this.boards.clear();
+        this.requests.length = 0;
+        this.failures = [];
+        this.creditsUsed = 0;
+        this.tokens.clear();
+        this.tokens.add(this.token);
+        this.authorizationCodes.clear();
+        this.refreshTokens.clear();
+        this.oauthTokenLifetime = 3600;
+        this.createBoard({ id: this.defaultBoardId, name: 'Mock board' });
+    }
+
+    /**
+     * Issues an authorization code, as Miro does when a user approves the app on its consent page
+     */
+    issueAuthorizationCode(redirectUri: string, userId: string = 'mock-user'): string {
+        const code = this.generateId('code');
+        this.authorizationCodes.set(code, { userId, redirectUri });
+        return code;
+    }
+
+    /**
+     * Revokes every refresh token issued so far
+     */
+    revokeRefreshTokens(): void {
+        this.refreshTokens.clear();
+    }
+
+    /**
+     * Makes the next matching requests fail with the given status before they reach the handlers
+     */
+    failNext(status: number, options: { headers?: Record<string, string>; times?: number; match?: RegExp; body?: unknown } = {}): void {
+        this.failures.push({
+            status,
+            headers: options.headers || {},
+            body: options.body || { status, code: 'mockFailure', message: `Injected failure ${status}`, type: 'error' },
+            remaining: options.times || 1,
+            match: options.match
+        });
+    }
+
+    createBoard(fields: { id?: string; name?: string; description?: string; teamId?: string; ownerId?: string } = {}): MockBoard {
+        const now = this.tick();
+        const board: MockBoard = {
+            id: fields.id || this.generateId('board'),
+            name: fields.name || 'Untitled',
+            description: fields.description || '',
+            policy: {
+                permissionsPolicy: { collaborationToolsStartAccess: 'all_editors', copyAccess: 'anyone', sharingAccess: 'team_members_with_editing_rights' },
+                sharingPolicy: { access: 'private', inviteToAccountAndBoardLinkAccess: 'no_access', organizationAccess: 'private', teamAccess: 'private' }
+            },
+            teamId: fields.teamId || 'team-1',
+            ownerId: fields.ownerId || 'user-1',
+            createdAt: now,
+            modifiedAt: now,
+            items: new Map(),
+            connectors: new Map(),
+            tags: new Map(),
+            groups: new Map(),
+            members: new Map()
+        };
+        const owner = { id: board.ownerId, type: 'board_member', name: 'Board Owner', role: 'owner' };
+        board.members.set(owner.id, owner);
+        this.boards.set(board.id, board);
+        return board;
+    }
+
+    getBoard(boardId: string = this.defaultBoardId): MockBoard {
+        const board = this.boards.get(boardId);
+        if (!board) throw new Error(`Mock board ${boardId} does not exist`);
+        return board;
+    }
+
+    /**
+     * Seeds an item directly into a board without going through HTTP
+     */
+    addItem(type: string, fields: Partial<MockRecord> = {}, boardId: string = this.defaultBoardId): MockRecord {
+        const board = this.getBoard(boardId);
+        const item = this.buildItem(board, type, fields as Record<string, unknown>);
+        board.items.set(item.id, item);
+        return item;
+    }
+
+    addConnector(startItemId: string, endItemId: string, fields: Record<string, unknown> = {}, boardId: string = this.defaultBoardId): MockRecord {
+        const board = this.getBoard(boardId);
+        const connector = this.buildConnector(board, { ...fields, startItem: { id: startItemId }, endItem: { id: endItemId } });
+        board.connectors.set(connector.id, connector);
+        return connector;
+    }
+
+    addTag(title: string, fillColor: string = 'red', boardId: string = this.defaultBoardId): MockRecord {
+        const board = this.getBoard(boardId);
+        const tag = { id: this.generateId(), type: 'tag', title, fillColor };
+        board.tags.set(tag.id, tag);
+        return tag;
+    }
+
+    attachTag(itemId: string, tagId: string, boardId: string = this.defaultBoardId): void {
+        const item = this.getBoard(boardId).items.get(itemId);
+        if (!item) throw new Error(`Mock item ${itemId} does not exist`);
+        const tagIds = (item.tagIds as string[] | undefined) || [];
+        if (!tagIds.includes(tagId)) tagIds.push(tagId);
+        item.tagIds = tagIds;
+    }
+
+    /**
+     * Requests recorded so far, optionally filtered by method and path pattern
+     */
+    requestsMatching(method: string, pathPattern: RegExp): RecordedRequest[] {
+        return this.requests.filter(r => r.method === method.toUpperCase() && pathPattern.test(r.path));
+    }
+
+    // --- HTTP handling ---
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const requestUrl = new URL(req.url || '/', 'http://localhost');
+        const query = Object.fromEntries(requestUrl.searchParams.entries());
+        const rawBody = await new Promise<string>((resolve) => {
+            let data = '';
+            req.on('data', chunk => { data += chunk; });
+            req.on('end', () => resolve(data));
+        });
+
+        let body: unknown = undefined;
+        if (rawBody) {
+            try {
+                body = JSON.parse(rawBody);
+            } catch {
+                return this.send(res, 400, { status: 400, code: 'invalidJson', message: 'Request body is not valid JSON', type: 'error' });
+            }
+        }
+
+        const method = (req.method || 'GET').toUpperCase();
+        this.requests.push({ method, path: requestUrl.pathname, query, body, headers: req.headers });
+
+        this.creditsUsed++;
+
+        const failure = this.failures.find(f => !f.match || f.match.test(requestUrl.pathname));
+        if (failure) {
+            failure.remaining--;
+            if (failure.remaining <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+            return this.send(res, failure.status, failure.body, failure.headers);
+        }
+
+        // The token endpoint authenticates the app with its client credentials instead of a bearer token
+        if (method === 'POST' && requestUrl.pathname === '/v1/oauth/token') {
+            const result = this.exchangeToken(query);
+            return this.send(res, result.status, result.body);
+        }
+
+        const bearer = (req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!this.tokens.has(bearer)) {
+            return this.send(res, 401, { status: 401, code: 'tokenNotProvided', message: 'No valid access token provided', type: 'error' });
+        }
+
+        try {
+            const result = this.route(method, requestUrl.pathname, query, body);
+            this.send(res, result.status, result.body);
+        } catch (error) {
+            if (error instanceof MockHttpError) {
+                this.send(res, error.status, { status: error.status, code: error.code, message: error.message, type: 'error' });
+            } else {
+                this.send(res, 500, { status: 500, code: 'internalError', message: String(error), type: 'error' });
+            }
+        }
+    }
+
+    private send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+        const resetAt = Math.ceil((Date.now() + 60000) / 1000);
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'X-RateLimit-Limit': String(RATE_LIMIT),
+            'X-RateLimit-Remaining': String(Math.max(0, RATE_LIMIT - this.creditsUsed)),
+            'X-RateLimit-Reset': String(resetAt),
+            ...headers
+        });
+        res.end(status === 204 || body === undefined ? undefined : JSON.stringify(body));
+    }
+
+    private route(method: string, path: string, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+        if (segments[0] === 'v2' && segments[1] === 'organizations') {
+            throw new MockHttpError(403, 'This endpoint is only available to Enterprise plan users', 'forbidden');
+        }
+
+        if (segments[0] !== 'v2' || segments[1] !== 'boards') {
+            throw new MockHttpError(404, `No route for ${method} ${path}`, 'notFound');
+        }
+
+        // /v2/boards
+        if (segments.length === 2) {
+            if (method === 'GET') return this.listBoards(query);
+            if (method === 'POST') return { status: 201, body: this.serializeBoard(this.createBoardFromBody(body)) };
+            if (method === 'PUT' && query.copy_from) return { status: 201, body: this.serializeBoard(this.copyBoard(query.copy_from, body)) };
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const board = this.boards.get(segments[2]);
+        if (!board) throw new MockHttpError(404, `Board ${segments[2]} not found`, 'boardNotFound');
+
+        // /v2/boards/{board_id}
+        if (segments.length === 3) {
+            if (method === 'GET') return { status: 200, body: this.serializeBoard(board) };
+            if (method === 'PATCH') return { status: 200, body: this.serializeBoard(this.updateBoard(board, body)) };
+            if (method === 'DELETE') {
+                this.boards.delete(board.id);
+                return { status: 204 };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const collection = segments[3];
+        const id = segments[4];
+        const sub = segments[5];
+
+        switch (collection) {
+            case 'items':
+                return this.routeItems(board, method, id, sub, query, body);
+            case 'connectors':
+                return this.routeConnectors(board, method, id, query, body);
+            case 'tags':
+                return this.routeTags(board, method, id, sub, query, body);
+            case 'groups':
+                return this.routeGroups(board, method, id, sub, query, body);
+            case 'members':
+                return this.routeMembers(board, method, id, query, body);
+            default:
+                if (ITEM_COLLECTIONS[collection]) {
+                    return this.routeTypedItems(board, ITEM_COLLECTIONS[collection], method, id, sub, body);
+                }
+                throw new MockHttpError(404, `No route for ${method} ${path}`, 'notFound');
+        }
+    }
+
+    // --- OAuth ---
+
+    private exchangeToken(query: Record<string, string>): { status: number; body: unknown } {
+        const invalid = (message: string) => ({ status: 400, body: { status: 400, code: 'invalidGrant', message, type: 'error' } });
+
+        if (query.client_id !== this.oauthClientId || query.client_secret !== this.oauthClientSecret) {
+            return { status: 401, body: { status: 401, code: 'invalidClient', message: 'Invalid client credentials', type: 'error' } };
+        }
+
+        let userId: string | undefined;
+        if (query.grant_type === 'authorization_code') {
+            const code = this.authorizationCodes.get(query.code);
+            this.authorizationCodes.delete(query.code);
+            if (!code || code.redirectUri !== query.redirect_uri) return invalid('Invalid authorization code');
+            userId = code.userId;
+        } else if (query.grant_type === 'refresh_token') {
+            userId = this.refreshTokens.get(query.refresh_token);
+            // Refresh tokens rotate: each one can be used once
+            this.refreshTokens.delete(query.refresh_token);
+            if (!userId) return invalid('Invalid refresh token');
+        } else {
+            return invalid(`Unsupported grant_type ${query.grant_type}`);
+        }
+
+        const accessToken = this.generateId('access');
+        const refreshToken = this.generateId('refresh');
+        this.tokens.add(accessToken);
+        this.refreshTokens.set(refreshToken, userId);
+
+        return {
+            status: 200,
+            body: {
+                user_id: userId,
+                team_id: 'mock-team',
+                scope: 'boards:read boards:write',
+                token_type: 'bearer',
+                access_token: accessToken,
+                refresh_token: refreshToken,
+                expires_in: this.oauthTokenLifetime
+            }
+        };
+    }
+
+    // --- Boards ---
+
+    private listBoards(query: Record<string, string>): { status: number; body: unknown } {
+        let boards = Array.from(this.boards.values());
+        if (query.team_id) boards = boards.filter(b => b.teamId === query.team_id);
+        if (query.owner) boards = boards.filter(b => b.ownerId === query.owner);
+        if (query.query) {
+            const text = query.query.toLowerCase();
+            boards = boards.filter(b => b.name.toLowerCase().includes(text) || b.description.toLowerCase().includes(text));
+        }
+        return { status: 200, body: this.offsetPage(boards.map(b => this.serializeBoard(b)), query, 20) };
+    }
+
+    private createBoardFromBody(body: unknown): MockBoard {
+        const fields = (body || {}) as Record<string, unknown>;
+        const board = this.createBoard({
+            name: fields.name as string | undefined,
+            description: fields.description as string | undefined,
+            teamId: fields.teamId as string | undefined
+        });
+        if (fields.policy) board.policy = this.merge(board.policy, fields.policy as Record<string, unknown>);
+        return board;
+    }
+
+    private copyBoard(sourceId: string, body: unknown): MockBoard {
+        const source = this.boards.get(sourceId);
+        if (!source) throw new MockHttpError(404, `Board ${sourceId} not found`, 'boardNotFound');
+
+        const fields = (body || {}) as Record<string, unknown>;
+        const copy = this.createBoard({
+            name: (fields.name as string | undefined) || `Copy of ${source.name}`,
+            description: (fields.description as string | undefined) ?? source.description,
+            teamId: (fields.teamId as string | undefined) || source.teamId
+        });
+        copy.policy = this.merge(JSON.parse(JSON.stringify(source.policy)), (fields.policy || {}) as Record<string, unknown>);
+        for (const key of ['items', 'connectors', 'tags', 'groups'] as const) {
+            for (const [entryId, entry] of source[key]) {
+                copy[key].set(entryId, JSON.parse(JSON.stringify(entry)));
+            }
+        }
+        return copy;
+    }
+
+    private updateBoard(board: MockBoard, body: unknown): MockBoard {
+        const fields = (body || {}) as Record<string, unknown>;
+        if (typeof fields.name === 'string') board.name = fields.name;
+        if (typeof fields.description === 'string') board.description = fields.description;
+        if (fields.policy) board.policy = this.merge(board.policy, fields.policy as Record<string, unknown>);
+        board.modifiedAt = this.tick();
+        return board;
+    }
+
+    private serializeBoard(board: MockBoard): Record<string, unknown> {
+        return {
+            id: board.id,
+            type: 'board',
+            name: board.name,
+            description: board.description,
+            policy: board.policy,
+            team: { id: board.teamId, type: 'team' },
+            owner: { id: board.ownerId, type: 'user' },
+            createdAt: board.createdAt,
+            modifiedAt: board.modifiedAt,
+            viewLink: `https://miro.com/app/board/${board.id}/`
+        };
+    }
+
+    // --- Items ---
+
+    private routeItems(board: MockBoard, method: string, id: string | undefined, sub: string | undefined, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'GET') return this.listItems(board, query);
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        if (id === 'bulk' && method === 'POST') {
+            return { status: 201, body: { data: this.createBulk(board, body), type: 'bulk-operation' } };
+        }
+
+        if (sub) throw new MockHttpError(404, `No route for items/${id}/${sub}`, 'notFound');
+
+        const item = this.requireItem(board, id);
+
+        // Attaching and detaching tags use the tag_id query parameter on the generic item endpoint
+        if (query.tag_id && (method === 'POST' || method === 'DELETE')) {
+            return this.changeItemTag(board, item, query.tag_id, method === 'POST');
+        }
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: item };
+            case 'PATCH':
+                return { status: 200, body: this.updateItem(board, item, body) };
+            case 'DELETE':
+                this.deleteItem(board, item);
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    private routeTypedItems(board: MockBoard, type: string, method: string, id: string | undefined, sub: string | undefined, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'POST') {
+                const item = this.createItem(board, type, body);
+                return { status: 201, body: item };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        if (sub) throw new MockHttpError(404, `No route for ${type} ${id}/${sub}`, 'notFound');
+
+        const item = board.items.get(id);
+        if (!item || item.type !== type) throw new MockHttpError(404, `${type} ${id} not found`, 'itemNotFound');
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: item };
+            case 'PATCH':
+                return { status: 200, body: this.updateItem(board, item, body) };
+            case 'DELETE':
+                this.deleteItem(board, item);
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    private listItems(board: MockBoard, query: Record<string, string>): { status: number; body: unknown } {
+        let items = Array.from(board.items.values());
+        if (query.type) items = items.filter(item => item.type === query.type);
+        if (query.parent_item_id) {
+            items = items.filter(item => (item.parent as { id?: string } | undefined)?.id === query.parent_item_id);
+        }
+        if (query.tag_id) {
+            // Items by tag use offset pagination in the real API
+            items = items.filter(item => ((item.tagIds as string[] | undefined) || []).includes(query.tag_id));
+            return { status: 200, body: this.offsetPage(items, query, 20) };
+        }
+        return { status: 200, body: this.cursorPage(items, query) };
+    }
+
+    private requireItem(board: MockBoard, id: string): MockRecord {
+        const item = board.items.get(id);
+        if (!item) throw new MockHttpError(404, `Item ${id} not found`, 'itemNotFound');
+        return item;
+    }
+
+    private createItem(board: MockBoard, type: string, body: unknown): MockRecord {
+        const fields = this.validateItemBody(board, type, body);
+        const item = this.buildItem(board, type, fields);
+        board.items.set(item.id, item);
+        board.modifiedAt = item.modifiedAt as string;
+        return item;
+    }
+
+    private createBulk(board: MockBoard, body: unknown): MockRecord[] {
+        if (!Array.isArray(body) || body.length === 0 || body.length > 20) {
+            throw new MockHttpError(400, 'Bulk create accepts between 1 and 20 items', 'invalidParameters');
+        }
+
+        // Validate everything first so the operation is atomic
+        const validated = body.map((entry: Record<string, unknown>) => {
+            const type = entry?.type as string;
+            if (!type || !Object.values(ITEM_COLLECTIONS).includes(type)) {
+                throw new MockHttpError(400, `Unsupported item type: ${type}`, 'invalidParameters');
+            }
+            return { type, fields: this.validateItemBody(board, type, entry) };
+        });
+
+        return validated.map(({ type, fields }) => {
+            const item = this.buildItem(board, type, fields);
+            board.items.set(item.id, item);
+            return item;
+        });
+    }
+
+    private validateItemBody(board: MockBoard, type: string, body: unknown): Record<string, unknown> {
+        const fields = (body || {}) as Record<string, unknown>;
+
+        const position = fields.position as Record<string, unknown> | undefined;
+        if (position) {
+            const allowed = ['x', 'y', 'origin'];
+            const unknownKeys = Object.keys(position).filter(key => !allowed.includes(key));
+            if (unknownKeys.length > 0) {
+                throw new MockHttpError(400, `Invalid position properties: ${unknownKeys.join(', ')}`, 'invalidParameters');
+            }
+        }
+
+        const parentId = (fields.parent as { id?: string } | undefined)?.id;
+        if (parentId) {
+            const parent = board.items.get(parentId);
+            if (!parent || parent.type !== 'frame') {
+                throw new MockHttpError(400, `Cannot attach item to parent ${parentId}: frame not found`, 'invalidParent');
+            }
+            if (type === 'frame') {
+                throw new MockHttpError(400, 'Frames cannot be nested inside other frames', 'invalidParent');
+            }
+        }
+
+        if (['image', 'document', 'embed', 'preview'].includes(type) && !(fields.data as Record<string, unknown> | undefined)?.url) {
+            throw new MockHttpError(400, 'data.url is required', 'invalidParameters');
+        }
+
+        return fields;
+    }
+
+    private buildItem(board: MockBoard, type: string, fields: Record<string, unknown>): MockRecord {
+        const now = this.tick();
+        const position = (fields.position || {}) as Record<string, unknown>;
+        const parentId = (fields.parent as { id?: string } | undefined)?.id;
+        const id = (fields.id as string | undefined) || this.generateId();
+        const item: MockRecord = {
+            id,
+            type,
+            data: { ...(fields.data as Record<string, unknown> | undefined) },
+            style: { ...(fields.style as Record<string, unknown> | undefined) },
+            position: {
+                x: typeof position.x === 'number' ? position.x : 0,
+                y: typeof position.y === 'number' ? position.y : 0,
+                origin: 'center',
+                relativeTo: parentId ? 'parent_top_left' : 'canvas_center'
+            },
+            geometry: { ...DEFAULT_GEOMETRY[type], ...(fields.geometry as Record<string, unknown> | undefined) },
+            createdAt: (fields.createdAt as string | undefined) || now,
+            modifiedAt: (fields.modifiedAt as string | undefined) || now,
+            createdBy: { id: board.ownerId, type: 'user' },
+            modifiedBy: { id: board.ownerId, type: 'user' },
+            links: { self: `${this.url}/v2/boards/${board.id}/items/${id}` }
+        };
+        if (parentId) item.parent = { id: parentId };
+        if (fields.tagIds) item.tagIds = fields.tagIds;
+        return item;
+    }
+
+    private updateItem(board: MockBoard, item: MockRecord, body: unknown): MockRecord {
+        const fields = this.validateItemBody(board, item.type, body);
+
+        if (fields.data) item.data = { ...(item.data as Record<string, unknown>), ...(fields.data as Record<string, unknown>) };
+        if (fields.style) item.style = { ...(item.style as Record<string, unknown>), ...(fields.style as Record<string, unknown>) };
+        if (fields.geometry) item.geometry = { ...(item.geometry as Record<string, unknown>), ...(fields.geometry as Record<string, unknown>) };
+        if (fields.parent !== undefined) {
+            const parentId = (fields.parent as { id?: string } | null)?.id;
+            if (parentId) {
+                item.parent = { id: parentId };
+            } else {
+                delete item.parent;
+            }
+        }
+        if (fields.position) {
+            const position = fields.position as Record<string, unknown>;
+            const current = item.position as Record<string, unknown>;
+            item.position = {
+                ...current,
+                ...(typeof position.x === 'number' && { x: position.x }),
+                ...(typeof position.y === 'number' && { y: position.y })
+            };
+        }
+        (item.position as Record<string, unknown>).relativeTo = item.parent ? 'parent_top_left' : 'canvas_center';
+
+        item.modifiedAt = this.tick();
+        board.modifiedAt = item.modifiedAt as string;
+        return item;
+    }
+
+    private deleteItem(board: MockBoard, item: MockRecord): void {
+        board.items.delete(item.id);
+
+        // Items inside a deleted frame stay on the board without a parent
+        if (item.type === 'frame') {
+            for (const child of board.items.values()) {
+                if ((child.parent as { id?: string } | undefined)?.id === item.id) {
+                    delete child.parent;
+                    (child.position as Record<string, unknown>).relativeTo = 'canvas_center';
+                }
+            }
+        }
+
+        // Connectors attached to the item are removed with it
+        for (const connector of Array.from(board.connectors.values())) {
+            if ((connector.startItem as { id: string }).id === item.id || (connector.endItem as { id: string }).id === item.id) {
+                board.connectors.delete(connector.id);
+            }
+        }
+
+        board.modifiedAt = this.tick();
+    }
+
+    private changeItemTag(board: MockBoard, item: MockRecord, tagId: string, attach: boolean): { status: number } {
+        if (!board.tags.has(tagId)) throw new MockHttpError(404, `Tag ${tagId} not found`, 'tagNotFound');
+        if (!TAGGABLE_TYPES.includes(item.type)) {
+            throw new MockHttpError(400, `Tags cannot be attached to items of type ${item.type}`, 'invalidParameters');
+        }
+
+        const tagIds = ((item.tagIds as string[] | undefined) || []).filter(existing => existing !== tagId);
+        if (attach) tagIds.push(tagId);
+        item.tagIds = tagIds;
+        item.modifiedAt = this.tick();
+        return { status: 204 };
+    }
+
+    // --- Connectors ---
+
+    private routeConnectors(board: MockBoard, method: string, id: string | undefined, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'GET') return { status: 200, body: this.cursorPage(Array.from(board.connectors.values()), query) };
+            if (method === 'POST') {
+                const connector = this.buildConnector(board, body as Record<string, unknown>);
+                board.connectors.set(connector.id, connector);
+                return { status: 201, body: connector };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const connector = board.connectors.get(id);
+        if (!connector) throw new MockHttpError(404, `Connector ${id} not found`, 'connectorNotFound');
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: connector };
+            case 'PATCH': {
+                const fields = (body || {}) as Record<string, unknown>;
+                const updated = this.buildConnector(board, { ...connector, ...fields, id: connector.id });
+                updated.createdAt = connector.createdAt;
+                board.connectors.set(id, updated);
+                return { status: 200, body: updated };
+            }
+            case 'DELETE':
+                board.connectors.delete(id);
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    private buildConnector(board: MockBoard, fields: Record<string, unknown>): MockRecord {
+        const startId = (fields?.startItem as { id?: string } | undefined)?.id;
+        const endId = (fields?.endItem as { id?: string } | undefined)?.id;
+        if (!startId || !endId) throw new MockHttpError(400, 'startItem.id and endItem.id are required', 'invalidParameters');
+        if (!board.items.has(startId)) throw new MockHttpError(400, `Start item ${startId} not found`, 'invalidParameters');
+        if (!board.items.has(endId)) throw new MockHttpError(400, `End item ${endId} not found`, 'invalidParameters');
+
+        const now = this.tick();
+        return {
+            id: (fields.id as string | undefined) || this.generateId(),
+            type: 'connector',
+            shape: (fields.shape as string | undefined) || 'curved',
+            startItem: { ...(fields.startItem as Record<string, unknown>), id: startId },
+            endItem: { ...(fields.endItem as Record<string, unknown>), id: endId },
+            style: { ...(fields.style as Record<string, unknown> | undefined) },
+            captions: (fields.captions as unknown[] | undefined) || [],
+            createdAt: now,
+            modifiedAt: now
+        };
+    }
+
+    // --- Tags ---
+
+    private routeTags(board: MockBoard, method: string, id: string | undefined, sub: string | undefined, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'GET') return { status: 200, body: this.offsetPage(Array.from(board.tags.values()), query, 20) };
+            if (method === 'POST') {
+                const fields = (body || {}) as Record<string, unknown>;
+                if (typeof fields.title !== 'string' || fields.title.length === 0) {
+                    throw new MockHttpError(400, 'title is required', 'invalidParameters');
+                }
+                if (Array.from(board.tags.values()).some(tag => tag.title === fields.title)) {
+                    throw new MockHttpError(400, `Tag with title ${fields.title} already exists`, 'duplicateTag');
+                }
+                const tag = { id: this.generateId(), type: 'tag', title: fields.title, fillColor: (fields.fillColor as string | undefined) || 'red' };
+                board.tags.set(tag.id, tag);
+                return { status: 201, body: tag };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const tag = board.tags.get(id);
+        if (!tag || sub) throw new MockHttpError(404, `Tag ${id} not found`, 'tagNotFound');
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: tag };
+            case 'PATCH':
+                Object.assign(tag, body || {}, { id: tag.id, type: 'tag' });
+                return { status: 200, body: tag };
+            case 'DELETE':
+                board.tags.delete(id);
+                for (const item of board.items.values()) {
+                    if (Array.isArray(item.tagIds)) item.tagIds = (item.tagIds as string[]).filter(tagId => tagId !== id);
+                }
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    // --- Groups ---
+
+    private routeGroups(board: MockBoard, method: string, id: string | undefined, sub: string | undefined, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'GET') return { status: 200, body: this.cursorPage(Array.from(board.groups.values()), query) };
+            if (method === 'POST') {
+                const group = { id: this.generateId(), type: 'group', data: { items: this.validateGroupItems(board, body) } };
+                board.groups.set(group.id, group);
+                return { status: 201, body: group };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const group = board.groups.get(id);
+        if (!group) throw new MockHttpError(404, `Group ${id} not found`, 'groupNotFound');
+        const memberIds = (group.data as { items: string[] }).items;
+
+        if (sub === 'items' && method === 'GET') {
+            const items = memberIds.map(itemId => board.items.get(itemId)).filter((item): item is MockRecord => !!item);
+            return { status: 200, body: this.cursorPage(items, query) };
+        }
+
+        if (sub === 'ungroup' && method === 'DELETE') {
+            board.groups.delete(id);
+            return { status: 204 };
+        }
+
+        if (sub) throw new MockHttpError(404, `No route for groups/${id}/${sub}`, 'notFound');
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: group };
+            case 'PUT':
+                group.data = { items: this.validateGroupItems(board, body) };
+                return { status: 200, body: group };
+            case 'DELETE':
+                board.groups.delete(id);
+                if (query.delete_items !== 'false') {
+                    for (const itemId of memberIds) {
+                        const item = board.items.get(itemId);
+                        if (item) this.deleteItem(board, item);
+                    }
+                }
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    private validateGroupItems(board: MockBoard, body: unknown): string[] {
+        const itemIds = ((body as { data?: { items?: unknown } })?.data?.items || []) as string[];
+        if (!Array.isArray(itemIds) || itemIds.length < 2) {
+            throw new MockHttpError(400, 'A group needs at least two items', 'invalidParameters');
+        }
+        for (const itemId of itemIds) {
+            if (!board.items.has(itemId)) throw new MockHttpError(400, `Item ${itemId} not found`, 'invalidParameters');
+        }
+        return itemIds;
+    }
+
+    // --- Members ---
+
+    private routeMembers(board: MockBoard, method: string, id: string | undefined, query: Record<string, string>, body: unknown): { status: number; body?: unknown } {
+        if (!id) {
+            if (method === 'GET') return { status: 200, body: this.offsetPage(Array.from(board.members.values()), query, 20) };
+            if (method === 'POST') {
+                const fields = (body || {}) as { emails?: string[]; role?: string };
+                if (!Array.isArray(fields.emails) || fields.emails.length === 0) {
+                    throw new MockHttpError(400, 'emails is required', 'invalidParameters');
+                }
+                const successful: string[] = [];
+                for (const email of fields.emails) {
+                    const member = { id: this.generateId(), type: 'board_member', name: email.split('@')[0], email, role: fields.role || 'viewer' };
+                    board.members.set(member.id, member);
+                    successful.push(member.id);
+                }
+                return { status: 201, body: { successful, failed: [] } };
+            }
+            throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+        }
+
+        const member = board.members.get(id);
+        if (!member) throw new MockHttpError(404, `Member ${id} not found`, 'memberNotFound');
+
+        switch (method) {
+            case 'GET':
+                return { status: 200, body: member };
+            case 'PATCH':
+                member.role = (body as { role?: string })?.role || member.role;
+                return { status: 200, body: member };
+            case 'DELETE':
+                board.members.delete(id);
+                return { status: 204 };
+        }
+        throw new MockHttpError(405, `Method ${method} not allowed`, 'methodNotAllowed');
+    }
+
+    // --- Helpers ---
+
+    /**
+     * Cursor pagination as used by items, connectors and groups. Default page size 10, maximum 50.
+     */
+    private cursorPage<T>(entries: T[], query: Record<string, string>): Record<string, unknown> {
+        const limit = this.pageLimit(query, 10);
+        const start = query.cursor ? parseInt(Buffer.from(query.cursor, 'base64').toString('utf8'), 10) : 0;
+        if (Number.isNaN(start)) throw new MockHttpError(400, 'Invalid cursor', 'invalidParameters');
+
+        const data = entries.slice(start, start + limit);
+        const next = start + limit;
+        return {
+            data,
+            total: entries.length,
+            size: data.length,
+            limit,
+            ...(next < entries.length && { cursor: Buffer.from(String(next), 'utf8').toString('base64') }),
+            links: {}
+        };
+    }
+
+    /**
+     * Offset pagination as used by boards, members and tags
+     */
+    private offsetPage<T>(entries: T[], query: Record<string, string>, defaultLimit: number): Record<string, unknown> {
+        const limit = this.pageLimit(query, defaultLimit);
+        const offset = query.offset ? parseInt(query.offset, 10) : 0;
+        const data = entries.slice(offset, offset + limit);
+        return { data, total: entries.length, size: data.length, offset, limit, links: {} };
+    }
+
+    private pageLimit(query: Record<string, string>, defaultLimit: number): number {
+        if (!query.limit) return defaultLimit;
+        const limit = parseInt(query.limit, 10);
+        if (Number.isNaN(limit) || limit < 1 || limit > 50) {
+            throw new MockHttpError(400, 'limit must be between 1 and 50', 'invalidParameters');
+        }
+        return limit;
+    }
+
+    private merge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+        const result = { ...target };
+        for (const [key, value] of Object.entries(source)) {
+            result[key] = value && typeof value === 'object' && !Array.isArray(value) && typeof result[key] === 'object'
+                ? this.merge(result[key] as Record<string, unknown>, value as Record<string, unknown>)
+                : value;
+        }
+        return result;
+    }
+
+    private generateId(prefix?: string): string {
+        this.nextId += 1n;
+        return prefix ? `${prefix}-${this.nextId}` : String(this.nextId);
+    }
+
+    // Deterministic, strictly increasing timestamps
+    private tick(): string {
+        this.clock += 1000;
+        return new Date(this.clock).toISOString();
+    }
+}
@@ -0,0 +1,48 @@
+import { MockMiroServer } from './mock-miro-server';
+import { ToolDefinition } from '../../src/types/tool-types';
+
+/**
+ * Starts a mock Miro server and points the client configuration at it.
+ * Must run before any module under src/ is imported, because the configuration is read on import;
+ * test files therefore load the tools with a dynamic import() after calling this.
+ */
+export async function startMockMiro(env: Record<string, string> = {}): Promise<MockMiroServer> {
+    const server = new MockMiroServer();
+    const url = await server.start();
+
+    Object.assign(process.env, {
+        MIRO_API_TOKEN: server.token,
+        MIRO_BOARD_ID: server.defaultBoardId,
+        MIRO_API_BASE_URL: url,
+        MIRO_MAX_RETRIES: '2',
+        MIRO_REQUEST_TIMEOUT_MS: '5000',
+        // Tests reset the mock between cases, so caching is opted into per test file
+        MIRO_CACHE_TTL_MS: '0',
+        ...env
+    });
+
+    // The tools log every request; keep the test output readable
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+
+    return server;
+}
+
+/**
+ * Validates the arguments with the tool's schema, as FastMCP does, and executes the tool
+ */
+export async function runTool<T>(tool: ToolDefinition<T, unknown>, args: unknown): Promise<unknown> {
+    return tool.execute(tool.parameters.parse(args));
+}
+
+/**
+ * Executes a tool and parses its JSON response
+ */
+export async function runToolJson<T>(tool: ToolDefinition<T, unknown>, args: unknown): Promise<Record<string, unknown>> {
+    const result = await runTool(tool, args);
+    if (typeof result !== 'string') {
+        throw new Error(`Expected a JSON string from ${tool.name}, got ${JSON.stringify(result)}`);
+    }
+    return JSON.parse(result);
+}